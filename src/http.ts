@@ -0,0 +1,212 @@
+/**
+ * Self-hosted Streamable HTTP transport
+ *
+ * Serves the MCP server over the SDK's Streamable HTTP transport on express.
+ * Each request is handled statelessly. Bearer tokens map to Limitless API
+ * keys, so several people can share one deployment without sharing keys.
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { Server } from "node:http";
+import { join } from "node:path";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import cors from "cors";
+import express, { type Express, type Request, type Response } from "express";
+import { LimitlessClient } from "./limitless/client.js";
+import type { LimitlessConfig } from "./limitless/types.js";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Allowed CORS origins; "*" allows any, empty disables CORS */
+  corsOrigins: string[];
+  /** Bearer token to Limitless API key; empty serves the default key */
+  tokens: Record<string, string>;
+}
+
+/**
+ * Build the express app serving /mcp and /healthz
+ */
+export function createHttpApp(
+  config: LimitlessConfig,
+  options: Pick<HttpServerOptions, "corsOrigins" | "tokens">,
+  createMcpServer: (client: LimitlessClient) => {
+    connect(transport: StreamableHTTPServerTransport): Promise<void>;
+    close(): Promise<void>;
+  }
+): Express {
+  const app = express();
+  app.use(express.json({ limit: "4mb" }));
+
+  if (options.corsOrigins.length > 0) {
+    app.use(
+      cors({
+        origin: options.corsOrigins.includes("*") ? true : options.corsOrigins,
+        allowedHeaders: [
+          "Authorization",
+          "Content-Type",
+          "Mcp-Session-Id",
+          "Mcp-Protocol-Version",
+        ],
+        exposedHeaders: ["Mcp-Session-Id"],
+      })
+    );
+  }
+
+  // One client per API key keeps its search index, rate limit, cache,
+  // exports and audio separate from other users'. A token's key is its only account.
+  const clients = new Map<string, LimitlessClient>();
+  const clientFor = (apiKey: string) => {
+    let client = clients.get(apiKey);
+    if (!client) {
+      client = new LimitlessClient({
+        ...config,
+        apiKey,
+        accounts: undefined,
+        defaultAccount: undefined,
+        cacheDir: config.cacheDir && join(config.cacheDir, keyId(apiKey)),
+        exportDir: config.exportDir && join(config.exportDir, keyId(apiKey)),
+        audioDir: config.audioDir && join(config.audioDir, keyId(apiKey)),
+      });
+      clients.set(apiKey, client);
+    }
+    return client;
+  };
+
+  const tokens = Object.entries(options.tokens).map(([token, apiKey]) => ({
+    digest: digest(token),
+    apiKey,
+  }));
+
+  app.get("/healthz", (_req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  // Without tokens every request shares the configured accounts
+  let sharedClient: LimitlessClient | undefined;
+  const defaultClient = () => {
+    sharedClient ??= new LimitlessClient(config);
+    return sharedClient;
+  };
+
+  app.post("/mcp", async (req: Request, res: Response) => {
+    let apiKey: string | undefined;
+    if (tokens.length > 0) {
+      apiKey = authenticate(req.headers.authorization, tokens);
+      if (!apiKey) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="mcp-limitless"');
+        sendError(res, 401, "Missing or invalid bearer token");
+        return;
+      }
+    } else if (!config.apiKey && !config.accounts) {
+      sendError(res, 500, "No Limitless API key configured");
+      return;
+    }
+
+    try {
+      const server = createMcpServer(
+        apiKey ? clientFor(apiKey) : defaultClient()
+      );
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+      res.on("close", () => {
+        transport.close();
+        server.close();
+      });
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error(
+        `[ERROR] Failed to handle MCP request: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      if (!res.headersSent) {
+        sendError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  // Stateless mode has no sessions to stream to or terminate
+  const methodNotAllowed = (_req: Request, res: Response) => {
+    sendError(res, 405, "Method not allowed");
+  };
+  app.get("/mcp", methodNotAllowed);
+  app.delete("/mcp", methodNotAllowed);
+
+  return app;
+}
+
+/**
+ * Start the HTTP server and resolve once it is listening
+ */
+export function startHttpServer(
+  config: LimitlessConfig,
+  options: HttpServerOptions,
+  createMcpServer: Parameters<typeof createHttpApp>[2]
+): Promise<Server> {
+  const app = createHttpApp(config, options, createMcpServer);
+  return new Promise((resolve, reject) => {
+    const server = app.listen(options.port, options.host, () => {
+      resolve(server);
+    });
+    server.on("error", reject);
+  });
+}
+
+/**
+ * Parse a token map given as a JSON object of bearer token to API key
+ */
+export function parseTokens(value: string | undefined): Record<string, string> {
+  if (!value) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error("LIMITLESS_HTTP_TOKENS must be a JSON object");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("LIMITLESS_HTTP_TOKENS must be a JSON object");
+  }
+  for (const [token, apiKey] of Object.entries(parsed)) {
+    if (!token || typeof apiKey !== "string" || !apiKey) {
+      throw new Error(
+        "LIMITLESS_HTTP_TOKENS must map non-empty tokens to API key strings"
+      );
+    }
+  }
+  return parsed as Record<string, string>;
+}
+
+function authenticate(
+  header: string | undefined,
+  tokens: { digest: Buffer; apiKey: string }[]
+): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? "");
+  if (!match) return undefined;
+  // Compare digests so lookups take the same time whatever the token
+  const presented = digest(match[1].trim());
+  return tokens.find((token) => timingSafeEqual(token.digest, presented))
+    ?.apiKey;
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Stable directory name for a user's cache, exports and audio that does not reveal
+ * their API key
+ */
+function keyId(apiKey: string): string {
+  return digest(apiKey).toString("hex").slice(0, 16);
+}
+
+function sendError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
@@ -15,10 +15,12 @@
  * https://modelcontextprotocol.io
  */
 
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { fileURLToPath } from "node:url";
 import type { z } from "zod";
+import { parseTokens, startHttpServer } from "./http.js";
 import { LimitlessClient } from "./limitless/client.js";
 import { LimitlessConfigSchema } from "./limitless/types.js";
 
@@ -29,15 +31,65 @@ export default function createServer({
 }: {
   config?: Partial<z.infer<typeof configSchema>>;
 } = {}) {
-  // Parse config with defaults
-  const parsedConfig = configSchema.parse({
+  // Create LimitlessClient with parsed config
+  return createMcpServer(new LimitlessClient(resolveConfig(config)));
+}
+
+/**
+ * Parse config with defaults, falling back to environment variables
+ */
+function resolveConfig(config: Partial<z.infer<typeof configSchema>> = {}) {
+  return configSchema.parse({
     apiKey: config?.apiKey || process.env.LIMITLESS_API_KEY || "",
     baseUrl:
       config?.baseUrl ||
       process.env.LIMITLESS_BASE_URL ||
       "https://api.limitless.ai",
+    cacheDir: config?.cacheDir || process.env.LIMITLESS_CACHE_DIR,
+    exportDir: config?.exportDir || process.env.LIMITLESS_EXPORT_DIR,
+    audioDir: config?.audioDir || process.env.LIMITLESS_AUDIO_DIR,
+    maxAudioBytes: config?.maxAudioBytes,
+    timezone: config?.timezone || process.env.LIMITLESS_TIMEZONE,
+    validation: config?.validation || process.env.LIMITLESS_VALIDATION,
+    timeoutMs: config?.timeoutMs,
+    maxRetries: config?.maxRetries,
+    retryBaseDelayMs: config?.retryBaseDelayMs,
+    retryMaxDelayMs: config?.retryMaxDelayMs,
+    requestsPerMinute: config?.requestsPerMinute,
+    accounts:
+      config?.accounts ??
+      parseJson("LIMITLESS_ACCOUNTS", process.env.LIMITLESS_ACCOUNTS),
+    defaultAccount:
+      config?.defaultAccount || process.env.LIMITLESS_DEFAULT_ACCOUNT,
+    redaction:
+      config?.redaction ??
+      parseJson("LIMITLESS_REDACTION", process.env.LIMITLESS_REDACTION),
+    allowWrites:
+      config?.allowWrites ?? process.env.LIMITLESS_ALLOW_WRITES === "true",
+    exclusions:
+      config?.exclusions ??
+      parseJson("LIMITLESS_EXCLUSIONS", process.env.LIMITLESS_EXCLUSIONS),
   });
+}
 
+/**
+ * Parse a JSON value from an environment variable; its contents are
+ * validated by the config schema
+ */
+function parseJson(name: string, value: string | undefined): unknown {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${name} must be valid JSON`);
+  }
+}
+
+/**
+ * Create an MCP server exposing a Limitless client's resources, prompts and
+ * tools
+ */
+function createMcpServer(limitlessClient: LimitlessClient) {
   const server = new McpServer({
     name: "mcp-limitless",
     version: "0.3.0",
@@ -49,9 +101,6 @@ export default function createServer({
     },
   });
 
-  // Create LimitlessClient with parsed config
-  const limitlessClient = new LimitlessClient(parsedConfig);
-
   // Register Limitless resources, prompts, and tools
   try {
     limitlessClient.registerLimitlessResources(server);
@@ -82,8 +131,67 @@ function logMessage(level: "info" | "warn" | "error", message: string) {
   console.error(`[${level.toUpperCase()}] ${message}`);
 }
 
+/**
+ * Serve over Streamable HTTP when started with --http
+ */
+async function mainHttp(values: {
+  host?: string;
+  port?: string;
+  "cors-origin"?: string[];
+}) {
+  const host = values.host || process.env.LIMITLESS_HTTP_HOST || "127.0.0.1";
+  const port = Number(values.port || process.env.LIMITLESS_HTTP_PORT || 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${values.port}`);
+  }
+  const corsOrigins = [
+    ...(values["cors-origin"] ?? []),
+    ...(process.env.LIMITLESS_HTTP_CORS_ORIGINS?.split(",") ?? []),
+  ]
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  const tokens = parseTokens(process.env.LIMITLESS_HTTP_TOKENS);
+
+  // Bearer tokens carry their own API keys, so a server-wide key is optional
+  const config = resolveConfig();
+  if (Object.keys(tokens).length === 0) {
+    if (!config.apiKey && !config.accounts) {
+      throw new Error(
+        "Set LIMITLESS_API_KEY or LIMITLESS_ACCOUNTS, or LIMITLESS_HTTP_TOKENS to map bearer tokens to API keys"
+      );
+    }
+    logMessage(
+      "warn",
+      "LIMITLESS_HTTP_TOKENS is not set; every HTTP client will use the configured API keys without authentication"
+    );
+  }
+
+  await startHttpServer(
+    config,
+    { host, port, corsOrigins, tokens },
+    createMcpServer
+  );
+  console.error(
+    `[INFO] MCP Server running on Streamable HTTP at http://${host}:${port}/mcp`
+  );
+}
+
 // Keep main function for stdio compatibility
 async function main() {
+  const { values } = parseArgs({
+    options: {
+      http: { type: "boolean" },
+      host: { type: "string" },
+      port: { type: "string" },
+      "cors-origin": { type: "string", multiple: true },
+    },
+    strict: false,
+  });
+  if (values.http) {
+    await mainHttp(values as Parameters<typeof mainHttp>[0]);
+    return;
+  }
+
   // Config will automatically use LIMITLESS_API_KEY from environment
   // Validation happens in LimitlessClient constructor for fail-fast behavior
   const server = createServer();
@@ -0,0 +1,286 @@
+import { addDays, dateInZone, dayOfWeek } from "./dates.js";
+import type { ActionItem, LifelogEntry } from "./types.js";
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+// Full month names or their abbreviations ("sep" or "sept"), as whole words
+const MONTH_NAME = `(${[...MONTHS, ...MONTHS.map((name) => name.slice(0, 3)), "sept"].join("|")})\\b`;
+
+// Phrases that mark a sentence as an action item, checked in order. The
+// first match decides the kind of item and how its owner is resolved.
+const TRIGGERS: { kind: ActionItem["kind"]; pattern: RegExp }[] = [
+  {
+    kind: "reminder",
+    pattern: /\b(remind me|don['’]?t forget|do not forget|note to self)\b/i,
+  },
+  {
+    kind: "commitment",
+    pattern:
+      /\b(i['’]ll|i will|i['’]m going to|i am going to|i can take|let me(?! know)|i['’]m gonna)\b/i,
+  },
+  {
+    kind: "request",
+    pattern: /\b(can you|could you|would you|will you|please)\b/i,
+  },
+  {
+    kind: "obligation",
+    pattern:
+      /\b(we need to|we should|we have to|we must|we['’]ve got to|we gotta|let['’]s|need to|needs to|have to|has to)\b/i,
+  },
+  {
+    kind: "explicit",
+    pattern: /\b(action item|to-?do|follow[- ]up)\b/i,
+  },
+];
+
+const DUE_PREFIX = "(?:(?:by|before|until|on|due)\\s+)?(?:the\\s+)?";
+
+// Deadline phrases and how to turn them into a date relative to the day the
+// item was said on
+const DUE_PATTERNS: {
+  pattern: RegExp;
+  resolve: (match: RegExpExecArray, base: string) => string | undefined;
+}[] = [
+  {
+    pattern: /\b(\d{4}-\d{2}-\d{2})\b/i,
+    resolve: (match) => match[1],
+  },
+  {
+    pattern: new RegExp(
+      `\\b${DUE_PREFIX}(today|tonight|eod|end of (?:the )?day)\\b`,
+      "i"
+    ),
+    resolve: (_match, base) => base,
+  },
+  {
+    pattern: new RegExp(`\\b${DUE_PREFIX}tomorrow\\b`, "i"),
+    resolve: (_match, base) => addDays(base, 1),
+  },
+  {
+    pattern: new RegExp(
+      `\\b${DUE_PREFIX}(?:(next|this)\\s+)?(${WEEKDAYS.join("|")})\\b`,
+      "i"
+    ),
+    resolve: (match, base) => {
+      const target = WEEKDAYS.indexOf(match[2].toLowerCase());
+      const ahead = (target - dayOfWeek(base) + 7) % 7 || 7;
+      const extra = match[1]?.toLowerCase() === "next" ? 7 : 0;
+      return addDays(base, ahead + extra);
+    },
+  },
+  {
+    pattern: new RegExp(
+      `\\b${DUE_PREFIX}(end of (?:the )?week|eow|this week)\\b`,
+      "i"
+    ),
+    resolve: (_match, base) => addDays(base, (5 - dayOfWeek(base) + 7) % 7),
+  },
+  {
+    pattern: new RegExp(`\\b${DUE_PREFIX}next week\\b`, "i"),
+    resolve: (_match, base) =>
+      addDays(base, (1 - dayOfWeek(base) + 7) % 7 || 7),
+  },
+  {
+    pattern: new RegExp(
+      `\\b${DUE_PREFIX}(end of (?:the )?month|this month)\\b`,
+      "i"
+    ),
+    resolve: (_match, base) => {
+      const [year, month] = base.split("-").map(Number);
+      return new Date(Date.UTC(year, month, 0)).toISOString().split("T")[0];
+    },
+  },
+  {
+    pattern: new RegExp(
+      `\\b${DUE_PREFIX}${MONTH_NAME}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`,
+      "i"
+    ),
+    resolve: (match, base) => {
+      const month = MONTHS.findIndex((name) =>
+        name.startsWith(match[1].slice(0, 3).toLowerCase())
+      );
+      const day = Number(match[2]);
+      if (day < 1 || day > 31) return undefined;
+      let year = Number(base.slice(0, 4));
+      const candidate = (y: number) =>
+        new Date(Date.UTC(y, month, day)).toISOString().split("T")[0];
+      if (candidate(year) < base) year++;
+      return candidate(year);
+    },
+  },
+];
+
+/**
+ * Find a deadline phrase in a sentence and resolve it to a YYYY-MM-DD date
+ * relative to the date it was said on
+ */
+export function findDueHint(
+  text: string,
+  baseDate: string
+): { dueHint: string; dueDate?: string } | undefined {
+  for (const { pattern, resolve } of DUE_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) {
+      return { dueHint: match[0].trim(), dueDate: resolve(match, baseDate) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract action items and commitments from lifelog content using
+ * deterministic phrase heuristics. The same input always yields the same
+ * items, in chronological order.
+ */
+export function extractActionItems(
+  entries: LifelogEntry[],
+  timeZone = "UTC"
+): ActionItem[] {
+  const items: ActionItem[] = [];
+
+  for (const entry of entries) {
+    const speakers = [
+      ...new Set(
+        entry.contents
+          .map((item) => item.speakerName)
+          .filter((name): name is string => Boolean(name))
+      ),
+    ];
+
+    entry.contents.forEach((item, contentIndex) => {
+      if (item.type !== "blockquote" && item.type !== "text") return;
+      const timestamp = item.startTime ?? entry.startTime;
+      const baseDate = dateInZone(new Date(timestamp), timeZone);
+
+      splitSentences(item.content).forEach((sentence, sentenceIndex) => {
+        const others = speakers.filter((name) => name !== item.speakerName);
+        const assignee = findAssignee(sentence, others);
+        const trigger = assignee
+          ? { kind: "assignment" as const, phrase: assignee.phrase }
+          : findTrigger(sentence);
+        if (!trigger) return;
+
+        const kind = trigger.kind;
+        items.push({
+          id: `${entry.id}:${contentIndex}:${sentenceIndex}`,
+          text: sentence,
+          kind,
+          trigger: trigger.phrase.toLowerCase(),
+          owner: resolveOwner(
+            kind,
+            assignee?.name,
+            item.speakerName,
+            others,
+            sentence
+          ),
+          ...findDueHint(sentence, baseDate),
+          lifelogId: entry.id,
+          lifelogTitle: entry.title,
+          contentIndex,
+          speakerName: item.speakerName,
+          timestamp,
+          startOffsetMs: item.startOffsetMs,
+        });
+      });
+    });
+  }
+
+  return items.sort(
+    (a, b) =>
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() ||
+      a.id.localeCompare(b.id)
+  );
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+function findTrigger(
+  sentence: string
+): { kind: ActionItem["kind"]; phrase: string } | undefined {
+  for (const { kind, pattern } of TRIGGERS) {
+    const match = pattern.exec(sentence);
+    if (match) return { kind, phrase: match[0] };
+  }
+  return undefined;
+}
+
+/**
+ * A sentence that hands work to another speaker by name, e.g.
+ * "Bob will send the deck" or "Bob needs to review it"
+ */
+function findAssignee(
+  sentence: string,
+  speakers: string[]
+): { name: string; phrase: string } | undefined {
+  for (const name of speakers) {
+    const firstName = escapeRegExp(name.split(/\s+/)[0]);
+    const pattern = new RegExp(
+      `\\b${firstName}(?:['’]ll|\\s+will|\\s+is going to|\\s+needs to|\\s+should|\\s+has to|\\s+can take)\\b`,
+      "i"
+    );
+    const match = pattern.exec(sentence);
+    if (match) return { name, phrase: match[0] };
+  }
+  return undefined;
+}
+
+function resolveOwner(
+  kind: ActionItem["kind"],
+  assignee: string | undefined,
+  speakerName: string | undefined,
+  others: string[],
+  sentence: string
+): string | undefined {
+  switch (kind) {
+    case "assignment":
+      return assignee;
+    case "commitment":
+    case "reminder":
+      return speakerName;
+    case "request": {
+      // Prefer someone addressed by name, else the only other participant
+      const addressed = others.find((name) =>
+        new RegExp(`\\b${escapeRegExp(name.split(/\s+/)[0])}\\b`, "i").test(
+          sentence
+        )
+      );
+      return addressed ?? (others.length === 1 ? others[0] : undefined);
+    }
+    case "obligation":
+      return /\b(we|let['’]s)\b/i.test(sentence) ? "team" : speakerName;
+    default:
+      return speakerName;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
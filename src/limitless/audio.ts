@@ -0,0 +1,101 @@
+import type { LifelogEntry } from "./types.js";
+
+// Longest window the audio download endpoint serves
+export const MAX_AUDIO_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * A span of recorded audio
+ */
+export interface AudioWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Downloaded audio for a window
+ */
+export interface LifelogAudio extends AudioWindow {
+  mimeType: string;
+  data: Buffer;
+}
+
+/**
+ * The recording window of a lifelog, or of one of its content items when
+ * `contentIndex` is given. Item windows come from the item's start and end
+ * times, or else its offsets from the start of the lifelog, widened by
+ * `paddingMs` on both sides but kept within the lifelog.
+ */
+export function lifelogAudioWindow(
+  entry: LifelogEntry,
+  contentIndex?: number,
+  paddingMs = 0
+): AudioWindow {
+  const lifelogStart = new Date(entry.startTime).getTime();
+  const lifelogEnd = new Date(entry.endTime).getTime();
+  if (contentIndex === undefined) {
+    return { start: new Date(lifelogStart), end: new Date(lifelogEnd) };
+  }
+
+  const item = entry.contents[contentIndex];
+  if (!item) {
+    throw new Error(
+      `Content item ${contentIndex} is out of range; lifelog ${entry.id} has ${entry.contents.length} items.`
+    );
+  }
+  const start = item.startTime
+    ? new Date(item.startTime).getTime()
+    : item.startOffsetMs !== undefined
+      ? lifelogStart + item.startOffsetMs
+      : undefined;
+  const end = item.endTime
+    ? new Date(item.endTime).getTime()
+    : item.endOffsetMs !== undefined
+      ? lifelogStart + item.endOffsetMs
+      : undefined;
+  if (start === undefined || end === undefined) {
+    throw new Error(
+      `Content item ${contentIndex} of lifelog ${entry.id} has no recording times.`
+    );
+  }
+
+  return {
+    start: new Date(Math.max(lifelogStart, start - paddingMs)),
+    end: new Date(Math.min(lifelogEnd, end + paddingMs)),
+  };
+}
+
+/**
+ * Check that a window can be downloaded in one request
+ */
+export function validateAudioWindow({ start, end }: AudioWindow) {
+  const duration = end.getTime() - start.getTime();
+  if (Number.isNaN(duration)) {
+    throw new Error("Invalid audio window. Use ISO 8601 date-times.");
+  }
+  if (duration <= 0) {
+    throw new Error(
+      `Invalid audio window ${start.toISOString()} to ${end.toISOString()}. The end must be after the start.`
+    );
+  }
+  if (duration > MAX_AUDIO_MS) {
+    throw new Error(
+      `Audio windows are limited to ${MAX_AUDIO_MS / 3600000} hours; ${start.toISOString()} to ${end.toISOString()} is longer. Request a shorter window.`
+    );
+  }
+}
+
+/**
+ * File name for downloaded audio, e.g. "lifelog-abc-item-3.ogg" or
+ * "audio-20250115T090000Z-20250115T093000Z.ogg"
+ */
+export function audioFilename(
+  window: AudioWindow,
+  source: { lifelogId?: string; contentIndex?: number } = {}
+): string {
+  const compact = (date: Date) =>
+    date.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+  const name = source.lifelogId
+    ? `lifelog-${source.lifelogId}${source.contentIndex !== undefined ? `-item-${source.contentIndex}` : ""}`
+    : `audio-${compact(window.start)}-${compact(window.end)}`;
+  return `${name.replace(/[^\w.-]+/g, "_")}.ogg`;
+}
@@ -0,0 +1,311 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { CacheSyncResult, LifelogEntry } from "./types.js";
+
+const ENTRIES_FILE = "lifelogs.jsonl";
+const STATE_FILE = "sync-state.json";
+
+// Recordings keep being processed for a while after they end. Only data
+// older than this (relative to when it was synced) is trusted as final.
+const SETTLE_MS = 2 * 60 * 60 * 1000;
+
+// Settled windows are still refetched this long after their last sync, so
+// entries edited or deleted upstream later on are picked up
+const REVALIDATE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface SyncedWindow {
+  start: number;
+  end: number;
+  syncedAt: number;
+}
+
+interface SyncState {
+  windows: SyncedWindow[];
+}
+
+/**
+ * Fetches every lifelog entry that starts inside [start, end)
+ */
+export type LifelogWindowFetcher = (
+  start: Date,
+  end: Date
+) => Promise<LifelogEntry[]>;
+
+/**
+ * Persistent lifelog store backed by a JSON-lines file of entries keyed by
+ * id, plus a record of which time windows have already been synced.
+ */
+export class LifelogCache {
+  private entries = new Map<string, LifelogEntry>();
+  private windows: SyncedWindow[] = [];
+  private loading?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  /**
+   * Get a cached entry by id
+   */
+  async get(id: string): Promise<LifelogEntry | undefined> {
+    await this.load();
+    return this.entries.get(id);
+  }
+
+  /**
+   * Get cached entries starting inside [start, end), oldest first
+   */
+  async query(start: Date, end: Date): Promise<LifelogEntry[]> {
+    await this.load();
+    return [...this.entries.values()]
+      .filter((entry) => {
+        const time = new Date(entry.startTime).getTime();
+        return time >= start.getTime() && time < end.getTime();
+      })
+      .sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
+  /**
+   * Whether an entry ended long enough ago to be served without refetching
+   */
+  isSettled(entry: LifelogEntry, now = Date.now()): boolean {
+    return new Date(entry.endTime).getTime() <= now - SETTLE_MS;
+  }
+
+  /**
+   * Store entries, keeping the existing copy when its updatedAt is not older.
+   * Returns how many entries were added and updated.
+   */
+  async upsert(
+    entries: LifelogEntry[]
+  ): Promise<Pick<CacheSyncResult, "added" | "updated">> {
+    await this.load();
+    let added = 0;
+    let updated = 0;
+    for (const entry of entries) {
+      const existing = this.entries.get(entry.id);
+      if (!existing) {
+        added++;
+      } else if (isNewer(entry, existing)) {
+        updated++;
+      } else {
+        continue;
+      }
+      this.entries.set(entry.id, entry);
+    }
+    if (added > 0 || updated > 0) {
+      await this.persist();
+    }
+    return { added, updated };
+  }
+
+  /**
+   * Apply a change made through the API to a cached entry, if it is cached
+   */
+  async patch(id: string, changes: Partial<LifelogEntry>): Promise<void> {
+    await this.load();
+    const existing = this.entries.get(id);
+    if (!existing) return;
+    this.entries.set(id, { ...existing, ...changes });
+    await this.persist();
+  }
+
+  /**
+   * Drop an entry deleted through the API
+   */
+  async remove(id: string): Promise<void> {
+    await this.load();
+    if (this.entries.delete(id)) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Sub-windows of [start, end) that have not been synced since they
+   * settled, or not within the revalidation period
+   */
+  async missingWindows(
+    start: Date,
+    end: Date,
+    now = Date.now()
+  ): Promise<{ start: Date; end: Date }[]> {
+    await this.load();
+    const trusted = this.windows
+      .filter((w) => w.syncedAt > now - REVALIDATE_MS)
+      .map((w) => ({
+        start: w.start,
+        end: Math.min(w.end, w.syncedAt - SETTLE_MS),
+      }))
+      .filter((w) => w.end > w.start)
+      .sort((a, b) => a.start - b.start);
+
+    const missing: { start: Date; end: Date }[] = [];
+    let cursor = start.getTime();
+    for (const window of trusted) {
+      if (window.end <= cursor) continue;
+      if (window.start >= end.getTime()) break;
+      if (window.start > cursor) {
+        missing.push({ start: new Date(cursor), end: new Date(window.start) });
+      }
+      cursor = Math.max(cursor, window.end);
+    }
+    if (cursor < end.getTime()) {
+      missing.push({ start: new Date(cursor), end });
+    }
+    return missing;
+  }
+
+  /**
+   * Drop cached entries starting inside [start, end) that are not in the
+   * given set of ids, e.g. because they were deleted upstream
+   */
+  async prune(start: Date, end: Date, keep: Set<string>): Promise<number> {
+    let removed = 0;
+    for (const entry of await this.query(start, end)) {
+      if (!keep.has(entry.id)) {
+        this.entries.delete(entry.id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Bring [start, end) up to date, fetching only the windows that have not
+   * settled in the cache yet, or all of it with `force`
+   */
+  async sync(
+    fetchWindow: LifelogWindowFetcher,
+    start: Date,
+    end: Date,
+    now = Date.now(),
+    options: { force?: boolean } = {}
+  ): Promise<CacheSyncResult> {
+    const result: CacheSyncResult = {
+      fetchedWindows: 0,
+      added: 0,
+      updated: 0,
+      removed: 0,
+    };
+    const windows = options.force
+      ? [{ start, end }]
+      : await this.missingWindows(start, end, now);
+    for (const window of windows) {
+      const fetched = await fetchWindow(window.start, window.end);
+      const ids = new Set(fetched.map((entry) => entry.id));
+      result.removed += await this.prune(window.start, window.end, ids);
+      const { added, updated } = await this.upsert(fetched);
+      result.fetchedWindows++;
+      result.added += added;
+      result.updated += updated;
+      await this.markSynced(window.start, window.end, now);
+    }
+    return result;
+  }
+
+  private async markSynced(start: Date, end: Date, syncedAt: number) {
+    const window = { start: start.getTime(), end: end.getTime(), syncedAt };
+    // A fresh sync supersedes any older record it fully contains
+    this.windows = this.windows.filter(
+      (w) => w.start < window.start || w.end > window.end
+    );
+    this.windows.push(window);
+    await this.persist();
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= this.read().catch((error) => {
+      // Let the next call try again rather than failing for good
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async read() {
+    const entriesPath = join(this.directory, ENTRIES_FILE);
+    const entries = new Map<string, LifelogEntry>();
+    let skipped = 0;
+    for (const line of (await readOptional(entriesPath)).split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as LifelogEntry;
+        entries.set(entry.id, entry);
+      } catch {
+        skipped++;
+      }
+    }
+    if (skipped > 0) {
+      console.error(
+        `[WARN] Skipped ${skipped} unreadable line(s) in ${entriesPath}; they are dropped on the next write`
+      );
+    }
+
+    const statePath = join(this.directory, STATE_FILE);
+    const stateText = await readOptional(statePath);
+    let windows: SyncedWindow[] = [];
+    if (stateText) {
+      try {
+        windows = (JSON.parse(stateText) as SyncState).windows;
+      } catch {
+        // Without the record every window is simply synced again
+        console.error(
+          `[WARN] Unreadable sync state in ${statePath}; resyncing all windows`
+        );
+      }
+    }
+
+    // Only a complete read replaces the in-memory state
+    this.entries = entries;
+    this.windows = windows;
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so concurrent tool calls never interleave files. Each
+    // write runs even if the one before it failed, and reports its own
+    // outcome.
+    const write = this.writing
+      .catch(() => {})
+      .then(async () => {
+        await mkdir(this.directory, { recursive: true });
+        const lines = [...this.entries.values()].map((e) => JSON.stringify(e));
+        const state: SyncState = { windows: this.windows };
+        await writeAtomic(
+          join(this.directory, ENTRIES_FILE),
+          lines.length > 0 ? `${lines.join("\n")}\n` : ""
+        );
+        await writeAtomic(
+          join(this.directory, STATE_FILE),
+          JSON.stringify(state, null, 2)
+        );
+      });
+    this.writing = write;
+    return write;
+  }
+}
+
+function isNewer(entry: LifelogEntry, existing: LifelogEntry): boolean {
+  if (!entry.updatedAt || !existing.updatedAt) {
+    return JSON.stringify(entry) !== JSON.stringify(existing);
+  }
+  return (
+    new Date(entry.updatedAt).getTime() > new Date(existing.updatedAt).getTime()
+  );
+}
+
+async function readOptional(path: string): Promise<string> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return "";
+    }
+    throw error;
+  }
+}
+
+async function writeAtomic(path: string, content: string) {
+  const temporary = `${path}.tmp`;
+  await writeFile(temporary, content, "utf8");
+  await rename(temporary, path);
+}
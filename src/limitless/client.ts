@@ -1,22 +1,221 @@
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  type McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import axios, { type AxiosInstance } from "axios";
 import { z } from "zod";
 
-import type {
-  GetLifelogResponse,
-  LifelogEntry,
-  LimitlessConfig,
-  ListLifelogsParams,
-  ListLifelogsResponse,
-  SearchLifelogsParams,
+import { extractActionItems } from "./actions.js";
+import {
+  type AudioWindow,
+  type LifelogAudio,
+  MAX_AUDIO_MS,
+  audioFilename,
+  lifelogAudioWindow,
+  validateAudioWindow,
+} from "./audio.js";
+import { LifelogCache } from "./cache.js";
+import { compareDateRanges } from "./compare.js";
+import { analyzeConversation } from "./conversation.js";
+import {
+  addDays,
+  dateInZone,
+  daysBetween,
+  formatDateTime,
+  formatMinutes,
+  formatTimeOfDay,
+  isValidDate,
+  isValidTimeZone,
+  isoWeek,
+  isoWeekRange,
+  monthRange,
+  startOfWeek,
+  todayInZone,
+  zonedTimeToUtc,
+} from "./dates.js";
+import { buildDailyDigest } from "./digest.js";
+import {
+  LimitlessApiError,
+  LimitlessNetworkError,
+  LimitlessServerError,
+} from "./errors.js";
+import { exportExtension, exportMimeType, renderExport } from "./export.js";
+import { ExclusionPolicy, LifelogWithheldError } from "./policy.js";
+import { LifelogRedactor } from "./redaction.js";
+import { RateLimiter, type RetryOptions, withRetry } from "./retry.js";
+import { LifelogSearchIndex } from "./search.js";
+import {
+  findUtterances,
+  matchesSpeaker,
+  summarizeSpeakers,
+} from "./speakers.js";
+import { buildStarredLifelogs } from "./starred.js";
+import { buildTimeline, renderTimeline } from "./timeline.js";
+import { topicTrends } from "./topics.js";
+import {
+  CHARS_PER_TOKEN,
+  type TranscriptChunk,
+  chunkTranscript,
+  transcriptUnits,
+} from "./transcript.js";
+import {
+  type CacheSyncResult,
+  type Chat,
+  type ChatListOutput,
+  ChatListOutputSchema,
+  type ChatOutput,
+  ChatOutputSchema,
+  type ConversationAnalysis,
+  ConversationAnalysisSchema,
+  type DailyDigest,
+  DailyDigestSchema,
+  type DateRangeComparison,
+  DateRangeComparisonSchema,
+  ExclusionRuleSchema,
+  type ExportFormat,
+  ExportFormatSchema,
+  type GetLifelogResponse,
+  type LifelogContentItem,
+  type LifelogEntry,
+  type LifelogEntryOutput,
+  LifelogEntryOutputSchema,
+  type LifelogExport,
+  type LifelogListOutput,
+  LifelogListOutputSchema,
+  type LimitlessConfig,
+  type ListChatsParams,
+  type ListChatsResponse,
+  type ListLifelogsParams,
+  type ListLifelogsResponse,
+  type PaginationOptions,
+  type RedactionAudit,
+  RedactionConfigSchema,
+  type SearchLifelogsOutput,
+  SearchLifelogsOutputSchema,
+  type SearchLifelogsParams,
+  type SearchLifelogsResponse,
+  type SpeakerSummary,
+  type StarredLifelogs,
+  StarredLifelogsSchema,
+  TimelineFormatSchema,
+  type TopicTrends,
+  TopicTrendsSchema,
+  TranscriptFormatSchema,
+  type ValidationMode,
 } from "./types.js";
+import {
+  type Validated,
+  validateChatResponse,
+  validateLifelogResponse,
+  validateListChatsResponse,
+  validateListLifelogsResponse,
+} from "./validation.js";
+
+// Defaults applied when following next cursors across pages
+const DEFAULT_MAX_ENTRIES = 100;
+const DEFAULT_TIME_BUDGET_MS = 20000;
+
+// Cache syncs must fetch complete windows, so they get a larger budget
+const SYNC_TIME_BUDGET_MS = 120000;
+
+// Request defaults, overridable through the config
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_RETRY_MAX_DELAY_MS = 30000;
+const DEFAULT_REQUESTS_PER_MINUTE = 180;
+
+// Drift warnings listed in a tool result before the rest are summarized
+const MAX_DRIFT_WARNINGS = 5;
+
+// Account name of the top-level apiKey, and the selector for every account
+const DEFAULT_ACCOUNT = "default";
+const ALL_ACCOUNTS = "all";
+
+// How far back cached dates are offered for resource completion
+const RECENT_DAYS = 90;
+
+// Entries a daily digest reads unless the caller asks for more
+const DIGEST_MAX_ENTRIES = 200;
+
+// Transcript characters per getLifelogEntry chunk unless the caller asks
+// for more or fewer
+const DEFAULT_TRANSCRIPT_CHARS = 20000;
+
+// Starred entries listed unless the caller asks for more
+const STARRED_MAX_ENTRIES = 200;
+
+// Largest audio download unless the config allows more, the format the
+// download endpoint serves, and how long before an audio window a lifelog
+// overlapping it may have started
+const DEFAULT_MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+const AUDIO_MIME_TYPE = "audio/ogg";
+const AUDIO_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Tool parameter for an IANA timezone; each tool describes what it affects
+const timeZoneParam = z.string().refine(isValidTimeZone, {
+  message: "Invalid IANA timezone",
+});
+
+// Account selector shared by every tool
+const accountParam = z
+  .string()
+  .optional()
+  .describe(
+    "Name of the configured account to use (see listAccounts). Defaults to the default account."
+  );
+const mergedAccountParam = accountParam.describe(
+  "Name of the configured account to use (see listAccounts), or 'all' to merge results from every account. Defaults to the default account."
+);
 
 export class LimitlessClient {
   private api: AxiosInstance;
+  private retry: RetryOptions;
+  private rateLimiter: RateLimiter;
+  private validation: ValidationMode;
+  // Schema drift noticed while handling the current tool call
+  private driftWarnings = new AsyncLocalStorage<string[]>();
+  // What was redacted while handling the current tool call
+  private redactions = new AsyncLocalStorage<RedactionAudit>();
+  // Set while fetching entries for the cache, which keeps them as the API
+  // returned them
+  private raw = new AsyncLocalStorage<boolean>();
+  private redactor?: LifelogRedactor;
+  // Audio cannot be redacted, so redaction refuses it unless allowed
+  private refuseAudio = false;
+  private policy?: ExclusionPolicy;
+  private searchIndex = new LifelogSearchIndex();
+  private cache?: LifelogCache;
+  private exportDir?: string;
+  private audioDir?: string;
+  private timezone: string;
+  private baseUrl: string;
+  private accountName: string;
+  // Clients for every configured account, including this one
+  private accounts = new Map<string, LimitlessClient>();
 
   constructor(private config: LimitlessConfig) {
+    const profiles = config.accounts ?? {};
+    const names = Object.keys(profiles);
+
+    // The top-level apiKey is account "default"; profiles add named accounts
+    this.accountName =
+      config.defaultAccount ||
+      (names.length > 0 && !config.apiKey ? names[0] : DEFAULT_ACCOUNT);
+    const profile = profiles[this.accountName];
+    if (config.defaultAccount && !profile) {
+      throw new Error(
+        `Default account "${config.defaultAccount}" is not one of the configured accounts: ${names.join(", ")}`
+      );
+    }
+
     // Validate and get API key with fallback to environment variable
-    const apiKey = config.apiKey || process.env.LIMITLESS_API_KEY;
+    const apiKey =
+      profile?.apiKey || config.apiKey || process.env.LIMITLESS_API_KEY;
 
     if (!apiKey || apiKey.trim() === "") {
       throw new Error(
@@ -26,34 +225,254 @@ export class LimitlessClient {
     }
 
     // Initialize axios client with validated configuration
+    this.baseUrl =
+      profile?.baseUrl || config.baseUrl || "https://api.limitless.ai";
     this.api = axios.create({
-      baseURL: config.baseUrl || "https://api.limitless.ai",
+      baseURL: this.baseUrl,
       headers: {
         "X-API-Key": apiKey,
         "Content-Type": "application/json",
       },
-      timeout: 30000, // 30 second timeout
+      timeout: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
     });
+    this.retry = {
+      maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+      baseDelayMs: config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+      maxDelayMs: config.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS,
+    };
+    this.rateLimiter = new RateLimiter(
+      config.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE
+    );
+    this.validation = config.validation ?? "lenient";
+    if (config.redaction) {
+      const redaction = RedactionConfigSchema.parse(config.redaction);
+      this.redactor = new LifelogRedactor(redaction);
+      this.refuseAudio = !redaction.allowAudio;
+    }
+
+    // Persistent cache is opt-in so nothing is written to disk by default.
+    // With several accounts each one gets its own subdirectory.
+    const accountDir = (dir: string | undefined) =>
+      dir && names.length > 0 ? join(dir, this.accountName) : dir;
+    const cacheDir = accountDir(
+      config.cacheDir || process.env.LIMITLESS_CACHE_DIR
+    );
+    if (cacheDir) {
+      this.cache = new LifelogCache(cacheDir);
+    }
+    this.exportDir = accountDir(
+      config.exportDir || process.env.LIMITLESS_EXPORT_DIR
+    );
+    this.audioDir = accountDir(
+      config.audioDir || process.env.LIMITLESS_AUDIO_DIR
+    );
+
+    // Default timezone for day boundaries, API filters and displayed times
+    this.timezone =
+      profile?.timezone ||
+      config.timezone ||
+      process.env.LIMITLESS_TIMEZONE ||
+      Intl.DateTimeFormat().resolvedOptions().timeZone ||
+      "UTC";
+    if (!isValidTimeZone(this.timezone)) {
+      throw new Error(
+        `Invalid timezone "${this.timezone}". Use an IANA timezone such as "America/Los_Angeles".`
+      );
+    }
+    if (config.exclusions && config.exclusions.length > 0) {
+      this.policy = new ExclusionPolicy(
+        z.array(ExclusionRuleSchema).parse(config.exclusions),
+        this.timezone
+      );
+    }
+
+    // Every other profile gets a client of its own, configured as if it were
+    // the only account. The top-level apiKey is left out so it does not add
+    // a "default" account of its own.
+    this.accounts.set(this.accountName, this);
+    const others = Object.entries(profiles);
+    if (config.apiKey && names.length > 0 && !profiles[DEFAULT_ACCOUNT]) {
+      others.push([DEFAULT_ACCOUNT, { apiKey: config.apiKey }]);
+    }
+    for (const [name, other] of others) {
+      if (name === this.accountName) continue;
+      this.accounts.set(
+        name,
+        new LimitlessClient({
+          ...config,
+          apiKey: undefined,
+          accounts: { [name]: other },
+          defaultAccount: name,
+        })
+      );
+    }
+    // Drift and redactions from any account are reported on the tool call
+    // that saw them
+    for (const client of this.accounts.values()) {
+      client.driftWarnings = this.driftWarnings;
+      client.redactions = this.redactions;
+    }
+  }
+
+  /**
+   * The client for a named account, or the default account when omitted
+   */
+  private forAccount(account?: string): LimitlessClient {
+    if (account === ALL_ACCOUNTS) {
+      throw new Error(
+        `account "${ALL_ACCOUNTS}" is only supported by getLifelogs and searchLifelogs`
+      );
+    }
+    return this.forAccounts(account)[0];
+  }
+
+  /**
+   * The clients a tool call runs against: one account, or every account
+   * (default first) for "all"
+   */
+  private forAccounts(account?: string): LimitlessClient[] {
+    if (account === ALL_ACCOUNTS) {
+      return [...this.accounts.values()];
+    }
+    const client = this.accounts.get(account ?? this.accountName);
+    if (!client) {
+      throw new Error(
+        `Unknown account "${account}". Configured accounts: ${[...this.accounts.keys()].join(", ")}`
+      );
+    }
+    return [client];
   }
 
-  // Simplified error handler for API requests
+  /**
+   * Run an API request under the rate limiter, retrying transient failures
+   * with backoff. Failures are thrown as LimitlessApiError subclasses.
+   */
   private async handleRequest<T>(
     request: () => Promise<{ data: T }>
   ): Promise<T> {
-    try {
-      const { data } = await request();
-      return data;
-    } catch (error: unknown) {
-      if (axios.isAxiosError(error)) {
-        const message = error.response?.data?.message || error.message;
-        const status = error.response?.status || "unknown";
-        throw new Error(`Limitless API error (${status}): ${message}`);
-      }
-      if (error instanceof Error) {
-        throw new Error(`Limitless API error: ${error.message}`);
+    return withRetry(
+      async () => {
+        await this.rateLimiter.acquire();
+        const { data } = await request();
+        return data;
+      },
+      this.retry,
+      {
+        onRetry: (error, attempt, delayMs) =>
+          console.error(
+            `[WARN] ${error.message}. Retrying in ${delayMs}ms (attempt ${attempt} of ${this.retry.maxRetries})`
+          ),
       }
-      throw new Error(`Limitless API error: ${String(error)}`);
+    );
+  }
+
+  /**
+   * Log schema drift tolerated by lenient validation and record it for the
+   * tool call in progress
+   */
+  private validated<T>({ value, warnings }: Validated<T>): T {
+    for (const warning of warnings) {
+      console.error(`[WARN] Limitless API schema drift at ${warning}`);
     }
+    this.driftWarnings.getStore()?.push(...warnings);
+    return value;
+  }
+
+  /**
+   * Apply the configured exclusion rules and redaction to entries on their
+   * way out of the client, counting what was redacted for the tool call in
+   * progress
+   */
+  private released(entries: LifelogEntry[]): LifelogEntry[] {
+    if (this.raw.getStore()) {
+      return entries;
+    }
+    const policy = this.policy;
+    const kept = policy
+      ? entries.filter((entry) => !policy.excludes(entry))
+      : entries;
+    const redactor = this.redactor;
+    if (!redactor) {
+      return kept;
+    }
+    const audit = this.redactions.getStore();
+    return kept.map((entry) => redactor.redact(entry, audit));
+  }
+
+  /**
+   * Apply the configured redaction to chats on their way out of the client
+   */
+  private releasedChats(chats: Chat[]): Chat[] {
+    const redactor = this.redactor;
+    if (!redactor) {
+      return chats;
+    }
+    const audit = this.redactions.getStore();
+    return chats.map((chat) => ({
+      ...chat,
+      summary: chat.summary && redactor.redactText(chat.summary, audit),
+      messages: chat.messages.map((message) => ({
+        ...message,
+        text: redactor.redactText(message.text, audit),
+      })),
+    }));
+  }
+
+  /**
+   * Release a single entry requested by ID, which must not be withheld
+   */
+  private releasedEntry(entry: LifelogEntry): LifelogEntry {
+    const [released] = this.released([entry]);
+    if (!released) {
+      throw new LifelogWithheldError(entry.id);
+    }
+    return released;
+  }
+
+  /**
+   * Wrap a tool handler so schema drift seen while it runs is appended to
+   * its result as a warning, and what was redacted as an audit note
+   */
+  private withCallNotices<Args extends unknown[]>(
+    handler: (...args: Args) => Promise<CallToolResult>
+  ): (...args: Args) => Promise<CallToolResult> {
+    return (...args) => {
+      const warnings: string[] = [];
+      const audit: RedactionAudit = {};
+      return this.driftWarnings.run(warnings, () =>
+        this.redactions.run(audit, async () => {
+          const result = await handler(...args);
+          const notices: string[] = [];
+          if (warnings.length > 0) {
+            const shown = [...new Set(warnings)];
+            let text =
+              "⚠️ The Limitless API returned data that did not match the expected schema. Affected fields were repaired or skipped:\n";
+            text += shown
+              .slice(0, MAX_DRIFT_WARNINGS)
+              .map((warning) => `- ${warning}`)
+              .join("\n");
+            if (shown.length > MAX_DRIFT_WARNINGS) {
+              text += `\n- ...and ${shown.length - MAX_DRIFT_WARNINGS} more`;
+            }
+            notices.push(text);
+          }
+          const redactions = formatRedactionAudit(audit);
+          if (redactions) {
+            notices.push(`🔒 Redacted: ${redactions}`);
+          }
+          if (notices.length === 0) {
+            return result;
+          }
+          return {
+            ...result,
+            content: [
+              ...result.content,
+              ...notices.map((text) => ({ type: "text" as const, text })),
+            ],
+          };
+        })
+      );
+    };
   }
 
   /**
@@ -62,224 +481,828 @@ export class LimitlessClient {
   async getLifelogs(
     params: ListLifelogsParams = { limit: 10 }
   ): Promise<ListLifelogsResponse> {
-    return this.handleRequest(async () => {
+    return this.releasedPage(await this.fetchLifelogs(params));
+  }
+
+  /**
+   * Get one page of lifelog entries as the API returned them
+   */
+  private async fetchLifelogs(
+    params: Partial<ListLifelogsParams>
+  ): Promise<ListLifelogsResponse> {
+    const data = await this.handleRequest<unknown>(async () => {
       return this.api.get("/v1/lifelogs", { params });
     });
+    return this.validated(validateListLifelogsResponse(data, this.validation));
   }
 
   /**
-   * Get a specific lifelog entry by ID
+   * Release a page's entries, leaving withheld entries out of its count
    */
-  async getLifelog(lifelogId: string): Promise<LifelogEntry> {
-    const response = await this.handleRequest<GetLifelogResponse>(async () => {
-      return this.api.get(`/v1/lifelogs/${lifelogId}`);
-    });
-    return response.data.lifelog;
+  private releasedPage(response: ListLifelogsResponse): ListLifelogsResponse {
+    const lifelogs = this.released(response.data.lifelogs);
+    const withheld = response.data.lifelogs.length - lifelogs.length;
+    return {
+      ...response,
+      data: { lifelogs },
+      meta: response.meta && {
+        lifelogs: {
+          ...response.meta.lifelogs,
+          count: Math.max(0, response.meta.lifelogs.count - withheld),
+        },
+      },
+    };
   }
 
   /**
-   * Search lifelog entries (mock implementation as API doesn't have search yet)
+   * Iterate over pages of lifelog entries, following the API's next cursor
+   * until there are no more pages or the entry/time budget is exhausted
    */
-  async searchLifelogs(
-    params: SearchLifelogsParams
-  ): Promise<ListLifelogsResponse> {
-    // Since the API doesn't have a search endpoint yet, we'll get all entries
-    // and filter them locally. This is a temporary solution.
-    const allEntries = await this.getLifelogs({
-      date: params.date_from,
-      limit: params.limit,
-      cursor: params.cursor,
-    });
+  async *paginateLifelogs(
+    params: Partial<ListLifelogsParams> = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<ListLifelogsResponse> {
+    const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    const deadline =
+      Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+    const pageSize = params.limit ?? 10;
+    let cursor = params.cursor;
+    let fetched = 0;
 
-    // Simple text search in title, markdown content, and contents
-    const query = params.query.toLowerCase();
-    const filteredEntries = allEntries.data.lifelogs.filter((entry) => {
-      // Search in title
-      if (entry.title.toLowerCase().includes(query)) {
-        return true;
-      }
+    while (fetched < maxEntries) {
+      // Never request more than the remaining budget so a stop always lands
+      // on a page boundary and the next cursor stays resumable
+      const response = await this.fetchLifelogs({
+        ...params,
+        cursor,
+        limit: Math.min(pageSize, maxEntries - fetched),
+      });
+      // Budgets count what the API returned, so a page of withheld entries
+      // neither ends the walk nor escapes the budget
+      fetched += response.data.lifelogs.length;
+      yield this.releasedPage(response);
 
-      // Search in markdown if available
-      if (entry.markdown?.toLowerCase().includes(query)) {
-        return true;
+      // A page can be empty when lenient validation skipped all of it, so
+      // only a missing cursor ends the walk
+      cursor = response.meta?.lifelogs.nextCursor ?? undefined;
+      if (!cursor) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        return;
       }
+    }
+  }
 
-      // Search in content items
-      return entry.contents.some((item) =>
-        item.content.toLowerCase().includes(query)
-      );
-    });
+  /**
+   * Get lifelog entries across all pages, up to the given entry/time budget.
+   * The returned meta carries the next cursor when more entries remain.
+   */
+  async getAllLifelogs(
+    params: Partial<ListLifelogsParams> = {},
+    options: PaginationOptions = {}
+  ): Promise<ListLifelogsResponse> {
+    const lifelogs: LifelogEntry[] = [];
+    let nextCursor: string | null = null;
+
+    for await (const page of this.paginateLifelogs(params, options)) {
+      lifelogs.push(...page.data.lifelogs);
+      nextCursor = page.meta?.lifelogs.nextCursor ?? null;
+    }
 
     return {
-      data: {
-        lifelogs: filteredEntries,
-      },
-      meta: allEntries.meta,
+      data: { lifelogs },
+      meta: { lifelogs: { count: lifelogs.length, nextCursor } },
     };
   }
 
-  registerLimitlessResources(server: McpServer) {
-    // Resource for today's lifelogs
-    server.resource(
-      "today-lifelogs",
-      "limitless://lifelogs/today",
-      {
-        description: "Today's lifelog entries from your Limitless AI pendant",
-        mimeType: "text/markdown",
-      },
-      async () => {
-        try {
-          const today = new Date().toISOString().split("T")[0];
-          const response = await this.getLifelogs({ date: today, limit: 10 });
+  /**
+   * Get lifelog entries cache-first. When the cache is enabled and the
+   * params describe a time window, only unsynced parts of that window are
+   * fetched and the result is read from the cache; if the API is unreachable
+   * cached data is served instead. Windows holding more than maxEntries, and
+   * requests without a window, behave like getAllLifelogs.
+   * The configured timezone applies unless the params name one.
+   */
+  async loadLifelogs(
+    requestParams: Partial<ListLifelogsParams> = {},
+    options: PaginationOptions = {}
+  ): Promise<ListLifelogsResponse> {
+    const params = {
+      ...requestParams,
+      timezone: requestParams.timezone ?? this.timezone,
+    };
+    const window = params.cursor ? undefined : lifelogWindow(params);
+    if (!this.cache || !window) {
+      return this.getAllLifelogs(params, options);
+    }
 
-          if (response.data.lifelogs.length === 0) {
-            return {
-              contents: [
-                {
-                  uri: "limitless://lifelogs/today",
-                  text: `No lifelog entries found for today (${today}).`,
-                  mimeType: "text/plain",
-                },
-              ],
-            };
-          }
+    let syncError: unknown;
+    try {
+      await this.syncLifelogs(window.start, window.end);
+    } catch (error) {
+      if (!isUnavailable(error)) {
+        throw error;
+      }
+      syncError = error;
+    }
 
-          let content = `# Today's Lifelog Entries (${today})\n\n`;
-          content += `Found ${response.data.lifelogs.length} entries:\n\n`;
+    const lifelogs = this.released(
+      await this.cache.query(window.start, window.end)
+    );
+    if (syncError) {
+      if (lifelogs.length === 0) {
+        throw syncError;
+      }
+      console.error(
+        `[WARN] Lifelog cache sync failed, serving cached entries: ${
+          syncError instanceof Error ? syncError.message : String(syncError)
+        }`
+      );
+    }
+    // A cut-off cache query has no cursor to resume from, so page through
+    // the API instead, unless it is unreachable
+    const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    if (lifelogs.length > maxEntries && !syncError) {
+      return this.getAllLifelogs(params, options);
+    }
+    if (params.sort_direction !== "asc") {
+      lifelogs.reverse();
+    }
 
-          for (const entry of response.data.lifelogs) {
-            content += `## ${entry.title}\n`;
-            content += `**ID:** ${entry.id}\n`;
-            content += `**Time:** ${new Date(entry.startTime).toLocaleString()} - ${new Date(entry.endTime).toLocaleString()}\n`;
-            if (entry.isStarred) {
-              content += "**Status:** ⭐ Starred\n";
-            }
-            content += "\n";
-          }
+    return {
+      data: { lifelogs: lifelogs.slice(0, maxEntries) },
+      meta: { lifelogs: { count: lifelogs.length, nextCursor: null } },
+    };
+  }
 
-          return {
-            contents: [
-              {
-                uri: "limitless://lifelogs/today",
-                text: content,
-                mimeType: "text/markdown",
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            contents: [
-              {
-                uri: "limitless://lifelogs/today",
-                text: `Error fetching today's lifelogs: ${error instanceof Error ? error.message : "Unknown error"}`,
-                mimeType: "text/plain",
-              },
-            ],
-          };
+  /**
+   * Incrementally sync the on-disk cache for [start, end)
+   */
+  async syncLifelogs(
+    start: Date,
+    end: Date,
+    options: { force?: boolean } = {}
+  ): Promise<CacheSyncResult> {
+    if (!this.cache) {
+      throw new Error(
+        "Lifelog cache is not configured. Set cacheDir or LIMITLESS_CACHE_DIR to enable it."
+      );
+    }
+
+    return this.cache.sync(
+      async (windowStart, windowEnd) => {
+        const response = await this.raw.run(true, () =>
+          this.getAllLifelogs(
+            {
+              start_time: windowStart.toISOString(),
+              end_time: windowEnd.toISOString(),
+              sort_direction: "asc",
+            },
+            {
+              maxEntries: Number.MAX_SAFE_INTEGER,
+              timeBudgetMs: SYNC_TIME_BUDGET_MS,
+            }
+          )
+        );
+        if (response.meta?.lifelogs.nextCursor) {
+          throw new Error(
+            `Timed out syncing lifelogs from ${windowStart.toISOString()} to ${windowEnd.toISOString()}`
+          );
         }
-      }
+        return response.data.lifelogs;
+      },
+      start,
+      end,
+      Date.now(),
+      options
     );
+  }
 
-    // Resource for recent lifelogs (last 7 days)
-    server.resource(
-      "recent-lifelogs",
-      "limitless://lifelogs/recent",
+  /**
+   * Get every lifelog entry in an inclusive YYYY-MM-DD date range, oldest
+   * first, cache-first where possible
+   */
+  async getLifelogsInRange(
+    dateFrom: string,
+    dateTo?: string,
+    timezone?: string,
+    options: PaginationOptions = {}
+  ): Promise<ListLifelogsResponse> {
+    return this.loadLifelogs(
       {
-        description: "Recent lifelog entries from the past 7 days",
-        mimeType: "text/markdown",
+        ...dateRangeParams(dateFrom, dateTo),
+        timezone,
+        sort_direction: "asc",
       },
-      async () => {
-        try {
-          const response = await this.getLifelogs({ limit: 10 });
+      options
+    );
+  }
 
-          if (response.data.lifelogs.length === 0) {
-            return {
-              contents: [
-                {
-                  uri: "limitless://lifelogs/recent",
-                  text: "No recent lifelog entries found.",
-                  mimeType: "text/plain",
-                },
-              ],
-            };
-          }
+  /**
+   * Compute the digest of one day's lifelogs in the given timezone
+   */
+  async getDailyDigest(
+    date: string,
+    timezone?: string,
+    options: PaginationOptions = {}
+  ): Promise<{ digest: DailyDigest; truncated: boolean }> {
+    if (!isValidDate(date)) {
+      throw new Error(`Invalid date "${date}". Use YYYY-MM-DD.`);
+    }
+    const timeZone = timezone ?? this.timezone;
+    const response = await this.getLifelogsInRange(
+      date,
+      date,
+      timeZone,
+      options
+    );
+    return {
+      digest: buildDailyDigest(date, timeZone, response.data.lifelogs),
+      truncated: isTruncated(response),
+    };
+  }
 
-          let content = "# Recent Lifelog Entries\n\n";
-          content += `Found ${response.data.lifelogs.length} recent entries:\n\n`;
+  /**
+   * Get starred lifelog entries, newest first, optionally within an
+   * inclusive YYYY-MM-DD date range. The API's starred filter is requested,
+   * but entries are also filtered here, so when the filter is unavailable
+   * (or the range is read from the cache) history is paged through until
+   * `maxEntries` starred entries are found or the time budget runs out.
+   */
+  async getStarredLifelogs(
+    dateFrom?: string,
+    dateTo?: string,
+    timezone?: string,
+    options: PaginationOptions = {}
+  ): Promise<{ lifelogs: LifelogEntry[]; truncated: boolean }> {
+    const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    const params: Partial<ListLifelogsParams> = {
+      ...dateRangeParams(dateFrom, dateTo),
+      timezone: timezone ?? this.timezone,
+      sort_direction: "desc",
+      is_starred: true,
+    };
 
-          for (const entry of response.data.lifelogs) {
-            content += `## ${entry.title}\n`;
-            content += `**ID:** ${entry.id}\n`;
-            content += `**Time:** ${new Date(entry.startTime).toLocaleString()}\n`;
-            content += "\n";
-          }
+    if (this.cache && dateFrom) {
+      const response = await this.loadLifelogs(params, {
+        ...options,
+        maxEntries: Number.MAX_SAFE_INTEGER,
+      });
+      const starred = response.data.lifelogs.filter((entry) => entry.isStarred);
+      return {
+        lifelogs: starred.slice(0, maxEntries),
+        truncated: starred.length > maxEntries,
+      };
+    }
 
-          return {
-            contents: [
-              {
-                uri: "limitless://lifelogs/recent",
-                text: content,
-                mimeType: "text/markdown",
-              },
-            ],
-          };
-        } catch (error) {
-          return {
-            contents: [
-              {
-                uri: "limitless://lifelogs/recent",
-                text: `Error fetching recent lifelogs: ${error instanceof Error ? error.message : "Unknown error"}`,
-                mimeType: "text/plain",
-              },
-            ],
-          };
-        }
+    const lifelogs: LifelogEntry[] = [];
+    let truncated = false;
+    for await (const page of this.paginateLifelogs(params, {
+      maxEntries: Number.MAX_SAFE_INTEGER,
+      timeBudgetMs: options.timeBudgetMs,
+    })) {
+      lifelogs.push(...page.data.lifelogs.filter((entry) => entry.isStarred));
+      truncated = Boolean(page.meta?.lifelogs.nextCursor);
+      if (lifelogs.length >= maxEntries) {
+        truncated ||= lifelogs.length > maxEntries;
+        break;
+      }
+    }
+    return { lifelogs: lifelogs.slice(0, maxEntries), truncated };
+  }
+
+  /**
+   * Render lifelogs from a date range or an explicit list of IDs in the
+   * given export format
+   */
+  async exportLifelogs(
+    source: {
+      date_from?: string;
+      date_to?: string;
+      timezone?: string;
+      ids?: string[];
+    },
+    format: ExportFormat,
+    options: PaginationOptions = {}
+  ): Promise<LifelogExport> {
+    let entries: LifelogEntry[];
+    let name: string;
+    if (source.ids && source.ids.length > 0) {
+      entries = [];
+      for (const id of source.ids) {
+        entries.push(await this.getLifelog(id));
       }
+      name =
+        source.ids.length === 1
+          ? source.ids[0]
+          : `${source.ids[0]}-and-${source.ids.length - 1}-more`;
+    } else if (source.date_from) {
+      const response = await this.getLifelogsInRange(
+        source.date_from,
+        source.date_to,
+        source.timezone,
+        options
+      );
+      entries = response.data.lifelogs;
+      name = `${source.date_from}-to-${source.date_to ?? "today"}`;
+    } else {
+      throw new Error("Either ids or date_from is required to export lifelogs");
+    }
+
+    return {
+      filename: `lifelogs-${name.replace(/[^\w.-]+/g, "_")}.${exportExtension(format)}`,
+      mimeType: exportMimeType(format),
+      content: renderExport(entries, format),
+      count: entries.length,
+    };
+  }
+
+  /**
+   * Write a rendered export into the configured export directory and return
+   * the written file's path
+   */
+  async writeExport(exported: LifelogExport): Promise<string> {
+    if (!this.exportDir) {
+      throw new Error(
+        "Export directory is not configured. Set exportDir or LIMITLESS_EXPORT_DIR to write exports to disk."
+      );
+    }
+    await mkdir(this.exportDir, { recursive: true });
+    const path = join(this.exportDir, exported.filename);
+    await writeFile(path, exported.content, "utf8");
+    return path;
+  }
+
+  /**
+   * Get one page of AI chats from the Limitless app
+   */
+  async getChats(
+    params: Partial<ListChatsParams> = { limit: 10 }
+  ): Promise<ListChatsResponse> {
+    const data = await this.handleRequest<unknown>(async () => {
+      return this.api.get("/v1/chats", { params });
+    });
+    const response = this.validated(
+      validateListChatsResponse(data, this.validation)
     );
+    return {
+      ...response,
+      data: { chats: this.releasedChats(response.data.chats) },
+    };
+  }
 
-    // Resource for this week's lifelogs
+  /**
+   * Iterate over pages of chats, following the API's next cursor until
+   * there are no more pages or the entry/time budget is exhausted
+   */
+  async *paginateChats(
+    params: Partial<ListChatsParams> = {},
+    options: PaginationOptions = {}
+  ): AsyncGenerator<ListChatsResponse> {
+    const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    const deadline =
+      Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+    const pageSize = params.limit ?? 10;
+    let cursor = params.cursor;
+    let fetched = 0;
+
+    while (fetched < maxEntries) {
+      const page = await this.getChats({
+        ...params,
+        cursor,
+        limit: Math.min(pageSize, maxEntries - fetched),
+      });
+      fetched += page.data.chats.length;
+      yield page;
+
+      cursor = page.meta?.chats.nextCursor ?? undefined;
+      if (!cursor) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Get chats across all pages, up to the given entry/time budget. The
+   * returned meta carries the next cursor when more chats remain.
+   */
+  async getAllChats(
+    params: Partial<ListChatsParams> = {},
+    options: PaginationOptions = {}
+  ): Promise<ListChatsResponse> {
+    const chats: Chat[] = [];
+    let nextCursor: string | null = null;
+
+    for await (const page of this.paginateChats(params, options)) {
+      chats.push(...page.data.chats);
+      nextCursor = page.meta?.chats.nextCursor ?? null;
+    }
+
+    return {
+      data: { chats },
+      meta: { chats: { count: chats.length, nextCursor } },
+    };
+  }
+
+  /**
+   * Get a specific chat with all of its messages by ID
+   */
+  async getChat(chatId: string): Promise<Chat> {
+    const data = await this.handleRequest<unknown>(async () => {
+      return this.api.get(`/v1/chats/${encodeURIComponent(chatId)}`);
+    });
+    const response = this.validated(
+      validateChatResponse(data, this.validation)
+    );
+    return this.releasedChats([response.data.chat])[0];
+  }
+
+  /**
+   * Download the pendant audio recorded in a window of at most two hours.
+   * Windows overlapping a lifelog withheld by policy are refused, and so is
+   * all audio while redaction is enabled unless it allows audio.
+   */
+  async getLifelogAudio(window: AudioWindow): Promise<LifelogAudio> {
+    if (this.refuseAudio) {
+      throw new Error(
+        "Audio cannot be redacted, so it is unavailable while redaction is enabled. Set allowAudio in the redaction settings to download unredacted audio."
+      );
+    }
+    validateAudioWindow(window);
+    const policy = this.policy;
+    if (policy) {
+      // Lifelogs are filtered by start time, so look back far enough to
+      // find any that began before the window and run into it
+      const response = await this.raw.run(true, () =>
+        this.getAllLifelogs(
+          {
+            start_time: new Date(
+              window.start.getTime() - AUDIO_LOOKBACK_MS
+            ).toISOString(),
+            end_time: window.end.toISOString(),
+            timezone: "UTC",
+          },
+          { maxEntries: Number.MAX_SAFE_INTEGER }
+        )
+      );
+      const withheld = response.data.lifelogs.some(
+        (entry) =>
+          new Date(entry.startTime) < window.end &&
+          new Date(entry.endTime) > window.start &&
+          policy.excludes(entry)
+      );
+      if (withheld) {
+        throw new Error(
+          `Audio from ${window.start.toISOString()} to ${window.end.toISOString()} overlaps a lifelog withheld by policy.`
+        );
+      }
+    }
+
+    const maxBytes = this.config.maxAudioBytes ?? DEFAULT_MAX_AUDIO_BYTES;
+    const overLimit = (size?: number) =>
+      new Error(
+        `Audio from ${window.start.toISOString()} to ${window.end.toISOString()} is ${size === undefined ? "over" : `${formatBytes(size)}, over`} the ${formatBytes(maxBytes)} limit. Request a shorter window or raise maxAudioBytes.`
+      );
+    let data: ArrayBuffer;
+    try {
+      data = await this.handleRequest<ArrayBuffer>(async () => {
+        return this.api.get("/v1/download-audio", {
+          params: {
+            startMs: window.start.getTime(),
+            endMs: window.end.getTime(),
+            audioSource: "pendant",
+          },
+          responseType: "arraybuffer",
+          // Abort the download as soon as it passes the limit
+          maxContentLength: maxBytes,
+        });
+      });
+    } catch (error) {
+      if (
+        error instanceof LimitlessApiError &&
+        axios.isAxiosError(error.cause) &&
+        error.cause.message.startsWith("maxContentLength")
+      ) {
+        throw overLimit();
+      }
+      throw error;
+    }
+    const audio = Buffer.from(data);
+    if (audio.length > maxBytes) {
+      throw overLimit(audio.length);
+    }
+    return { ...window, mimeType: AUDIO_MIME_TYPE, data: audio };
+  }
+
+  /**
+   * Write downloaded audio into the configured audio directory and return
+   * the written file's path
+   */
+  async writeAudio(audio: LifelogAudio, filename: string): Promise<string> {
+    if (!this.audioDir) {
+      throw new Error(
+        "Audio directory is not configured. Set audioDir or LIMITLESS_AUDIO_DIR to save audio to disk."
+      );
+    }
+    await mkdir(this.audioDir, { recursive: true });
+    const path = join(this.audioDir, filename);
+    await writeFile(path, audio.data);
+    return path;
+  }
+
+  /**
+   * Get a specific lifelog entry by ID. With `fresh` the entry is always
+   * read from the API, never from the cache.
+   */
+  async getLifelog(
+    lifelogId: string,
+    options: { fresh?: boolean } = {}
+  ): Promise<LifelogEntry> {
+    const cached = options.fresh ? undefined : await this.cache?.get(lifelogId);
+    if (cached && this.cache?.isSettled(cached)) {
+      return this.releasedEntry(cached);
+    }
+
+    try {
+      const data = await this.handleRequest<unknown>(async () => {
+        return this.api.get(`/v1/lifelogs/${encodeURIComponent(lifelogId)}`);
+      });
+      const response = this.validated(
+        validateLifelogResponse(data, this.validation)
+      );
+      await this.cache?.upsert([response.data.lifelog]);
+      return this.releasedEntry(response.data.lifelog);
+    } catch (error) {
+      // Serve the cached copy when the API is unreachable or failing
+      if (cached && isUnavailable(error)) {
+        return this.releasedEntry(cached);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Star or unstar a lifelog. Requires allowWrites.
+   */
+  async setLifelogStarred(lifelogId: string, starred: boolean): Promise<void> {
+    this.assertWritable();
+    await this.handleRequest<unknown>(async () => {
+      return this.api.patch(`/v1/lifelogs/${encodeURIComponent(lifelogId)}`, {
+        isStarred: starred,
+      });
+    });
+    await this.cache?.patch(lifelogId, { isStarred: starred });
+    this.searchIndex.remove(lifelogId);
+  }
+
+  /**
+   * Permanently delete a lifelog. Requires allowWrites.
+   */
+  async deleteLifelog(lifelogId: string): Promise<void> {
+    this.assertWritable();
+    await this.handleRequest<unknown>(async () => {
+      return this.api.delete(`/v1/lifelogs/${encodeURIComponent(lifelogId)}`);
+    });
+    await this.cache?.remove(lifelogId);
+    this.searchIndex.remove(lifelogId);
+  }
+
+  private assertWritable() {
+    if (!this.config.allowWrites) {
+      throw new Error(
+        "Write operations are disabled. Set allowWrites or LIMITLESS_ALLOW_WRITES=true to enable them."
+      );
+    }
+  }
+
+  /**
+   * Load lifelogs from one account, or from every account for "all" merged
+   * in the requested order. Each entry is tagged with its account; merged
+   * results cannot resume from a single cursor, so per-account cursors are
+   * reported instead.
+   */
+  private async loadAccountLifelogs(
+    account: string | undefined,
+    params: Partial<ListLifelogsParams>,
+    options: PaginationOptions & { maxEntries: number }
+  ): Promise<AccountResults<ListLifelogsResponse>> {
+    const clients = this.forAccounts(account);
+    if (clients.length > 1 && params.cursor) {
+      throw new Error(
+        `cursor cannot be combined with account "${ALL_ACCOUNTS}"; pass the account the cursor came from`
+      );
+    }
+    const results = await Promise.all(
+      clients.map(async (client, i) => ({
+        account: client.accountName,
+        response: await client.loadLifelogs(params, {
+          ...options,
+          maxEntries: accountShare(options.maxEntries, clients.length, i),
+        }),
+      }))
+    );
+    if (results.length === 1) {
+      return singleAccountResults(results[0]);
+    }
+
+    const direction = params.sort_direction === "asc" ? 1 : -1;
+    const { rows, accounts, cursors } = mergeAccountRows(
+      results,
+      (response) => response.data.lifelogs,
+      (a, b) => direction * a.startTime.localeCompare(b.startTime)
+    );
+    return {
+      response: {
+        data: { lifelogs: rows },
+        meta: { lifelogs: { count: rows.length, nextCursor: null } },
+      },
+      accounts,
+      cursors,
+    };
+  }
+
+  /**
+   * Search one account, or every account for "all" with hits merged by
+   * score
+   */
+  private async searchAccountLifelogs(
+    account: string | undefined,
+    params: SearchLifelogsParams,
+    options: PaginationOptions
+  ): Promise<AccountResults<SearchLifelogsResponse>> {
+    const clients = this.forAccounts(account);
+    if (clients.length > 1 && params.cursor) {
+      throw new Error(
+        `cursor cannot be combined with account "${ALL_ACCOUNTS}"; pass the account the cursor came from`
+      );
+    }
+    if (clients.length > 1 && params.offset) {
+      throw new Error(
+        `offset cannot be combined with account "${ALL_ACCOUNTS}"; search one account to page through its hits`
+      );
+    }
+    const results = await Promise.all(
+      clients.map(async (client, i) => ({
+        account: client.accountName,
+        response: await client.searchLifelogs(
+          { ...params, limit: accountShare(params.limit, clients.length, i) },
+          options
+        ),
+      }))
+    );
+    if (results.length === 1) {
+      return singleAccountResults(results[0]);
+    }
+
+    const { rows, accounts, cursors } = mergeAccountRows(
+      results,
+      (response) =>
+        response.data.lifelogs.map((entry, i) => ({
+          entry,
+          hit: response.data.hits[i],
+        })),
+      (a, b) => b.hit.score - a.hit.score
+    );
+    return {
+      response: {
+        data: {
+          lifelogs: rows.map((row) => row.entry),
+          hits: rows.map((row) => row.hit),
+        },
+        meta: { lifelogs: { count: rows.length, nextCursor: null } },
+      },
+      accounts,
+      cursors,
+    };
+  }
+
+  /**
+   * Search lifelog entries using the local full-text index. Entries in the
+   * requested date range are paged in and indexed incrementally, then ranked
+   * with BM25. The cursor pages through the entries scanned; `offset` pages
+   * through the ranked hits among them.
+   */
+  async searchLifelogs(
+    params: SearchLifelogsParams,
+    options: PaginationOptions = {}
+  ): Promise<SearchLifelogsResponse> {
+    const response = await this.loadLifelogs(
+      {
+        ...dateRangeParams(params.date_from, params.date_to),
+        timezone: params.timezone,
+        cursor: params.cursor,
+      },
+      options
+    );
+    const scanned = new Set<string>();
+    for (const entry of response.data.lifelogs) {
+      this.searchIndex.add(entry);
+      scanned.add(entry.id);
+    }
+    const nextCursor = response.meta?.lifelogs.nextCursor ?? null;
+
+    const allHits = this.searchIndex.search(params.query, { ids: scanned });
+    const offset = params.offset ?? 0;
+    const hits = allHits.slice(offset, offset + params.limit);
+    const lifelogs = hits.flatMap((hit) => {
+      const entry = this.searchIndex.get(hit.lifelogId);
+      return entry ? [entry] : [];
+    });
+
+    return {
+      data: { lifelogs, hits },
+      meta: {
+        lifelogs: { count: allHits.length, nextCursor },
+      },
+    };
+  }
+
+  /**
+   * Dates with recorded lifelogs, newest first, for resource listing and
+   * completion. Uses the cache when available and always includes the past
+   * week so a fresh install still has something to offer.
+   */
+  private async recentDates(days = RECENT_DAYS): Promise<string[]> {
+    const today = todayInZone(this.timezone);
+    const dates = Array.from({ length: 7 }, (_, i) => addDays(today, -i));
+
+    if (this.cache) {
+      const start = zonedTimeToUtc(addDays(today, -days), this.timezone);
+      for (const entry of await this.cache.query(start, new Date())) {
+        if (this.policy?.excludes(entry)) continue;
+        dates.push(dateInZone(new Date(entry.startTime), this.timezone));
+      }
+    }
+
+    return unique(dates).sort().reverse();
+  }
+
+  /**
+   * Most recent lifelogs for resource listing and completion. Errors yield
+   * an empty list so listing resources never fails.
+   */
+  private async recentLifelogs(): Promise<LifelogEntry[]> {
+    try {
+      const response = await this.getLifelogs({
+        limit: 10,
+        timezone: this.timezone,
+      });
+      return response.data.lifelogs;
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Most recent chats for resource listing and completion. Errors yield an
+   * empty list so listing resources never fails.
+   */
+  private async recentChats(): Promise<Chat[]> {
+    try {
+      const response = await this.getChats({ limit: 10 });
+      return response.data.chats;
+    } catch {
+      return [];
+    }
+  }
+
+  registerLimitlessResources(server: McpServer) {
+    // Resource for today's lifelogs
     server.resource(
-      "week-lifelogs",
-      "limitless://lifelogs/week",
+      "today-lifelogs",
+      "limitless://lifelogs/today",
       {
-        description: "All lifelog entries from this week (Monday to Sunday)",
+        description: "Today's lifelog entries from your Limitless AI pendant",
         mimeType: "text/markdown",
       },
       async () => {
         try {
-          // Calculate start of current week (Monday)
-          const today = new Date();
-          const dayOfWeek = today.getDay();
-          const mondayOffset = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-          const monday = new Date(today);
-          monday.setDate(today.getDate() + mondayOffset);
-          const mondayStr = monday.toISOString().split("T")[0];
-
-          const response = await this.getLifelogs({
-            date: mondayStr,
-            limit: 10,
-          });
+          const today = todayInZone(this.timezone);
+          const response = await this.loadLifelogs({ date: today });
 
           if (response.data.lifelogs.length === 0) {
             return {
               contents: [
                 {
-                  uri: "limitless://lifelogs/week",
-                  text: `No lifelog entries found for this week (starting ${mondayStr}).`,
+                  uri: "limitless://lifelogs/today",
+                  text: `No lifelog entries found for today (${today}).`,
                   mimeType: "text/plain",
                 },
               ],
             };
           }
 
-          let content = `# This Week's Lifelog Entries\n\n`;
-          content += `Week starting: ${mondayStr}\n\n`;
+          let content = `# Today's Lifelog Entries (${today})\n\n`;
           content += `Found ${response.data.lifelogs.length} entries:\n\n`;
 
           for (const entry of response.data.lifelogs) {
             content += `## ${entry.title}\n`;
             content += `**ID:** ${entry.id}\n`;
-            content += `**Time:** ${new Date(entry.startTime).toLocaleString()}\n`;
+            content += `**Time:** ${formatDateTime(entry.startTime, this.timezone)} - ${formatDateTime(entry.endTime, this.timezone)}\n`;
             if (entry.isStarred) {
               content += "**Status:** ⭐ Starred\n";
             }
@@ -289,7 +1312,7 @@ export class LimitlessClient {
           return {
             contents: [
               {
-                uri: "limitless://lifelogs/week",
+                uri: "limitless://lifelogs/today",
                 text: content,
                 mimeType: "text/markdown",
               },
@@ -299,8 +1322,8 @@ export class LimitlessClient {
           return {
             contents: [
               {
-                uri: "limitless://lifelogs/week",
-                text: `Error fetching this week's lifelogs: ${error instanceof Error ? error.message : "Unknown error"}`,
+                uri: "limitless://lifelogs/today",
+                text: `Error fetching today's lifelogs: ${error instanceof Error ? error.message : "Unknown error"}`,
                 mimeType: "text/plain",
               },
             ],
@@ -309,49 +1332,51 @@ export class LimitlessClient {
       }
     );
 
-    // Resource for starred/important lifelogs
+    // Resource for recent lifelogs (last 7 days)
     server.resource(
-      "starred-lifelogs",
-      "limitless://lifelogs/starred",
+      "recent-lifelogs",
+      "limitless://lifelogs/recent",
       {
-        description: "All starred/important lifelog entries",
+        description: "Recent lifelog entries from the past 7 days",
         mimeType: "text/markdown",
       },
       async () => {
         try {
-          const response = await this.getLifelogs({ limit: 10 });
+          // Today and the six days before it, in the configured timezone
+          const fromStr = addDays(todayInZone(this.timezone), -6);
 
-          // Filter for starred entries
-          const starredEntries = response.data.lifelogs.filter(
-            (entry) => entry.isStarred
-          );
+          const response = await this.loadLifelogs({
+            start_time: `${fromStr}T00:00:00`,
+            sort_direction: "desc",
+          });
 
-          if (starredEntries.length === 0) {
+          if (response.data.lifelogs.length === 0) {
             return {
               contents: [
                 {
-                  uri: "limitless://lifelogs/starred",
-                  text: "No starred lifelog entries found. Star important entries in your Limitless app to see them here.",
+                  uri: "limitless://lifelogs/recent",
+                  text: `No lifelog entries found in the past 7 days (since ${fromStr}).`,
                   mimeType: "text/plain",
                 },
               ],
             };
           }
 
-          let content = "# Starred Lifelog Entries\n\n";
-          content += `Found ${starredEntries.length} starred entries:\n\n`;
+          let content = "# Recent Lifelog Entries\n\n";
+          content += `Since: ${fromStr}\n\n`;
+          content += `Found ${response.data.lifelogs.length} recent entries:\n\n`;
 
-          for (const entry of starredEntries) {
-            content += `## ⭐ ${entry.title}\n`;
+          for (const entry of response.data.lifelogs) {
+            content += `## ${entry.title}\n`;
             content += `**ID:** ${entry.id}\n`;
-            content += `**Time:** ${new Date(entry.startTime).toLocaleString()}\n`;
+            content += `**Time:** ${formatDateTime(entry.startTime, this.timezone)}\n`;
             content += "\n";
           }
 
           return {
             contents: [
               {
-                uri: "limitless://lifelogs/starred",
+                uri: "limitless://lifelogs/recent",
                 text: content,
                 mimeType: "text/markdown",
               },
@@ -361,8 +1386,8 @@ export class LimitlessClient {
           return {
             contents: [
               {
-                uri: "limitless://lifelogs/starred",
-                text: `Error fetching starred lifelogs: ${error instanceof Error ? error.message : "Unknown error"}`,
+                uri: "limitless://lifelogs/recent",
+                text: `Error fetching recent lifelogs: ${error instanceof Error ? error.message : "Unknown error"}`,
                 mimeType: "text/plain",
               },
             ],
@@ -370,69 +1395,518 @@ export class LimitlessClient {
         }
       }
     );
-  }
-
-  registerLimitlessPrompts(server: McpServer) {
-    // Prompt to review today's activities
-    server.prompt(
-      "review-today",
-      "Review today's lifelog activities",
-      async () => {
-        const today = new Date().toISOString().split("T")[0];
-        return {
-          messages: [
-            {
-              role: "user",
-              content: {
-                type: "text",
-                text: `Please review my lifelog entries from today (${today}). Summarize the key conversations, topics discussed, and any important moments. Use the getLifelogs tool with today's date.`,
-              },
-            },
-          ],
-        };
-      }
-    );
 
-    // Prompt to search for specific topics
-    server.prompt(
-      "find-topic",
-      "Search for a specific topic in lifelogs",
+    // Resource for this week's lifelogs
+    server.resource(
+      "week-lifelogs",
+      "limitless://lifelogs/week",
       {
-        topic: z
-          .string()
-          .describe("The topic or keyword to search for in your lifelogs"),
+        description: "All lifelog entries from this week (Monday to Sunday)",
+        mimeType: "text/markdown",
       },
-      async ({ topic }) => {
-        return {
-          messages: [
-            {
-              role: "user",
-              content: {
-                type: "text",
-                text: `Search my lifelog entries for discussions about "${topic}". Use the searchLifelogs tool and provide a summary of what was discussed, when it was discussed, and any key insights.`,
+      async () => {
+        try {
+          // Start of the current week (Monday) in the configured timezone
+          const mondayStr = startOfWeek(todayInZone(this.timezone));
+
+          const response = await this.loadLifelogs({
+            start_time: `${mondayStr}T00:00:00`,
+            sort_direction: "asc",
+          });
+
+          if (response.data.lifelogs.length === 0) {
+            return {
+              contents: [
+                {
+                  uri: "limitless://lifelogs/week",
+                  text: `No lifelog entries found for this week (starting ${mondayStr}).`,
+                  mimeType: "text/plain",
+                },
+              ],
+            };
+          }
+
+          let content = `# This Week's Lifelog Entries\n\n`;
+          content += `Week starting: ${mondayStr}\n\n`;
+          content += `Found ${response.data.lifelogs.length} entries:\n\n`;
+
+          for (const entry of response.data.lifelogs) {
+            content += `## ${entry.title}\n`;
+            content += `**ID:** ${entry.id}\n`;
+            content += `**Time:** ${formatDateTime(entry.startTime, this.timezone)}\n`;
+            if (entry.isStarred) {
+              content += "**Status:** ⭐ Starred\n";
+            }
+            content += "\n";
+          }
+
+          return {
+            contents: [
+              {
+                uri: "limitless://lifelogs/week",
+                text: content,
+                mimeType: "text/markdown",
               },
-            },
-          ],
-        };
+            ],
+          };
+        } catch (error) {
+          return {
+            contents: [
+              {
+                uri: "limitless://lifelogs/week",
+                text: `Error fetching this week's lifelogs: ${error instanceof Error ? error.message : "Unknown error"}`,
+                mimeType: "text/plain",
+              },
+            ],
+          };
+        }
       }
     );
 
-    // Prompt to analyze recent patterns
-    server.prompt(
-      "analyze-week",
-      "Analyze patterns from the past week",
+    // Resource for starred/important lifelogs
+    server.resource(
+      "starred-lifelogs",
+      "limitless://lifelogs/starred",
+      {
+        description:
+          "All starred/important lifelog entries, newest first and grouped by month, with the key excerpt of each",
+        mimeType: "text/markdown",
+      },
       async () => {
-        const today = new Date();
-        const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
-        const weekAgoStr = weekAgo.toISOString().split("T")[0];
+        try {
+          const { lifelogs, truncated } = await this.getStarredLifelogs(
+            undefined,
+            undefined,
+            undefined,
+            { maxEntries: STARRED_MAX_ENTRIES }
+          );
+
+          if (lifelogs.length === 0) {
+            return {
+              contents: [
+                {
+                  uri: "limitless://lifelogs/starred",
+                  text: truncated
+                    ? "No starred lifelog entries found in the most recent history. Use the getStarredLifelogs tool with a date range to search further back."
+                    : "No starred lifelog entries found. Star important entries in your Limitless app to see them here.",
+                  mimeType: "text/plain",
+                },
+              ],
+            };
+          }
+
+          let content = formatStarredLifelogs(
+            buildStarredLifelogs(lifelogs, {
+              timeZone: this.timezone,
+              groupBy: "month",
+              truncated,
+            })
+          );
+          if (truncated) {
+            content +=
+              "\nMore starred entries may exist. Use the getStarredLifelogs tool with a date range to see them.\n";
+          }
+
+          return {
+            contents: [
+              {
+                uri: "limitless://lifelogs/starred",
+                text: content,
+                mimeType: "text/markdown",
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            contents: [
+              {
+                uri: "limitless://lifelogs/starred",
+                text: `Error fetching starred lifelogs: ${error instanceof Error ? error.message : "Unknown error"}`,
+                mimeType: "text/plain",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    // Resource templates for any day, ISO week or month
+    const ranges: {
+      name: string;
+      template: string;
+      variable: string;
+      description: string;
+      range: (value: string) => { start: string; end: string };
+      heading: (value: string) => string;
+      recent: () => Promise<string[]>;
+      maxEntries: number;
+    }[] = [
+      {
+        name: "date-lifelogs",
+        template: "limitless://lifelogs/date/{date}",
+        variable: "date",
+        description:
+          "All lifelog entries from a single day (YYYY-MM-DD) in the configured timezone",
+        range: (date) => {
+          if (!isValidDate(date)) {
+            throw new Error(`Invalid date: ${date} (expected YYYY-MM-DD)`);
+          }
+          return { start: date, end: date };
+        },
+        heading: (date) => `Lifelog Entries for ${date}`,
+        recent: () => this.recentDates(),
+        maxEntries: DEFAULT_MAX_ENTRIES,
+      },
+      {
+        name: "iso-week-lifelogs",
+        template: "limitless://lifelogs/week/{week}",
+        variable: "week",
+        description:
+          "All lifelog entries from an ISO week (YYYY-Www, Monday to Sunday)",
+        range: isoWeekRange,
+        heading: (week) => `Lifelog Entries for Week ${week}`,
+        recent: async () => unique((await this.recentDates()).map(isoWeek)),
+        maxEntries: 500,
+      },
+      {
+        name: "month-lifelogs",
+        template: "limitless://lifelogs/month/{month}",
+        variable: "month",
+        description: "All lifelog entries from a calendar month (YYYY-MM)",
+        range: monthRange,
+        heading: (month) => `Lifelog Entries for ${month}`,
+        recent: async () =>
+          unique((await this.recentDates()).map((date) => date.slice(0, 7))),
+        maxEntries: 1000,
+      },
+    ];
+
+    for (const resource of ranges) {
+      const uriFor = (value: string) =>
+        resource.template.replace(`{${resource.variable}}`, value);
+
+      server.resource(
+        resource.name,
+        new ResourceTemplate(resource.template, {
+          list: async () => ({
+            resources: (await resource.recent()).map((value) => ({
+              uri: uriFor(value),
+              name: resource.heading(value),
+              mimeType: "text/markdown",
+            })),
+          }),
+          complete: {
+            [resource.variable]: async (value) =>
+              (await resource.recent()).filter((option) =>
+                option.startsWith(value)
+              ),
+          },
+        }),
+        {
+          description: resource.description,
+          mimeType: "text/markdown",
+        },
+        async (uri, variables) => {
+          const value = String(variables[resource.variable]);
+          try {
+            const { start, end } = resource.range(value);
+            const response = await this.getLifelogsInRange(
+              start,
+              end,
+              undefined,
+              { maxEntries: resource.maxEntries }
+            );
+            const entries = response.data.lifelogs;
+
+            if (entries.length === 0) {
+              return {
+                contents: [
+                  {
+                    uri: uri.href,
+                    text: `No lifelog entries found for ${value} (${start} to ${end}).`,
+                    mimeType: "text/plain",
+                  },
+                ],
+              };
+            }
+
+            let content = formatLifelogList(
+              resource.heading(value),
+              entries,
+              this.timezone
+            );
+            if (isTruncated(response)) {
+              content += `Showing the first ${entries.length} entries.\n`;
+            }
+
+            return {
+              contents: [
+                {
+                  uri: uri.href,
+                  text: content,
+                  mimeType: "text/markdown",
+                },
+              ],
+            };
+          } catch (error) {
+            return {
+              contents: [
+                {
+                  uri: uri.href,
+                  text: `Error fetching lifelogs for ${value}: ${error instanceof Error ? error.message : "Unknown error"}`,
+                  mimeType: "text/plain",
+                },
+              ],
+            };
+          }
+        }
+      );
+    }
+
+    // Resource template for a single lifelog transcript
+    server.resource(
+      "lifelog",
+      new ResourceTemplate("limitless://lifelog/{id}", {
+        list: async () => ({
+          resources: (await this.recentLifelogs()).map((entry) => ({
+            uri: `limitless://lifelog/${entry.id}`,
+            name: entry.title,
+            description: formatDateTime(entry.startTime, this.timezone),
+            mimeType: "text/markdown",
+          })),
+        }),
+        complete: {
+          id: async (value) =>
+            (await this.recentLifelogs())
+              .map((entry) => entry.id)
+              .filter((id) => id.startsWith(value)),
+        },
+      }),
+      {
+        description:
+          "A single lifelog entry with its full transcript, by lifelog ID",
+        mimeType: "text/markdown",
+      },
+      async (uri, { id }) => {
+        const lifelogId = decodeURIComponent(String(id));
+        try {
+          const entry = await this.getLifelog(lifelogId);
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                text: formatLifelogEntry(entry, this.timezone),
+                mimeType: "text/markdown",
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                text: `Error fetching lifelog ${lifelogId}: ${error instanceof Error ? error.message : "Unknown error"}`,
+                mimeType: "text/plain",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    // Resources for the latest chats and daily insights
+    for (const [name, uri, heading, description, scheduled] of [
+      [
+        "recent-chats",
+        "limitless://chats/recent",
+        "Recent Chats",
+        "Your latest AI chats from the Limitless app",
+        undefined,
+      ],
+      [
+        "recent-insights",
+        "limitless://insights/recent",
+        "Recent Daily Insights",
+        "Your latest daily insights, the summaries the Limitless app writes on a schedule",
+        true,
+      ],
+    ] as const) {
+      server.resource(
+        name,
+        uri,
+        { description, mimeType: "text/markdown" },
+        async () => {
+          try {
+            const response = await this.getChats({
+              limit: 10,
+              is_scheduled: scheduled,
+            });
+
+            if (response.data.chats.length === 0) {
+              return {
+                contents: [
+                  {
+                    uri,
+                    text: `No ${heading.toLowerCase()} found.`,
+                    mimeType: "text/plain",
+                  },
+                ],
+              };
+            }
+
+            return {
+              contents: [
+                {
+                  uri,
+                  text: formatChatList(
+                    heading,
+                    response.data.chats,
+                    this.timezone
+                  ),
+                  mimeType: "text/markdown",
+                },
+              ],
+            };
+          } catch (error) {
+            return {
+              contents: [
+                {
+                  uri,
+                  text: `Error fetching ${heading.toLowerCase()}: ${error instanceof Error ? error.message : "Unknown error"}`,
+                  mimeType: "text/plain",
+                },
+              ],
+            };
+          }
+        }
+      );
+    }
+
+    // Resource template for a single chat
+    server.resource(
+      "chat",
+      new ResourceTemplate("limitless://chat/{id}", {
+        list: async () => ({
+          resources: (await this.recentChats()).map((chat) => ({
+            uri: `limitless://chat/${chat.id}`,
+            name: chat.summary || "Untitled chat",
+            description: formatDateTime(
+              chat.startedAt ?? chat.createdAt,
+              this.timezone
+            ),
+            mimeType: "text/markdown",
+          })),
+        }),
+        complete: {
+          id: async (value) =>
+            (await this.recentChats())
+              .map((chat) => chat.id)
+              .filter((id) => id.startsWith(value)),
+        },
+      }),
+      {
+        description:
+          "A single AI chat or daily insight with all of its messages, by chat ID",
+        mimeType: "text/markdown",
+      },
+      async (uri, { id }) => {
+        const chatId = decodeURIComponent(String(id));
+        try {
+          const chat = await this.getChat(chatId);
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                text: formatChat(chat, this.timezone),
+                mimeType: "text/markdown",
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                text: `Error fetching chat ${chatId}: ${error instanceof Error ? error.message : "Unknown error"}`,
+                mimeType: "text/plain",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    // Resource template for the digest of any day
+    server.resource(
+      "daily-digest",
+      new ResourceTemplate("limitless://digest/{date}", {
+        list: async () => ({
+          resources: (await this.recentDates()).map((date) => ({
+            uri: `limitless://digest/${date}`,
+            name: `Daily Digest for ${date}`,
+            mimeType: "text/markdown",
+          })),
+        }),
+        complete: {
+          date: async (value) =>
+            (await this.recentDates()).filter((date) => date.startsWith(value)),
+        },
+      }),
+      {
+        description:
+          "Statistics for a day (YYYY-MM-DD): recorded minutes, conversations, timeline, top speakers, topics, starred moments and the longest conversation",
+        mimeType: "text/markdown",
+      },
+      async (uri, { date }) => {
+        const day = String(date);
+        try {
+          const { digest, truncated } = await this.getDailyDigest(
+            day,
+            undefined,
+            { maxEntries: DIGEST_MAX_ENTRIES }
+          );
+          let content = formatDailyDigest(digest);
+          if (truncated) {
+            content += `\nOnly the first ${digest.lifelogCount} entries were included.\n`;
+          }
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                text: content,
+                mimeType: "text/markdown",
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                text: `Error building digest for ${day}: ${error instanceof Error ? error.message : "Unknown error"}`,
+                mimeType: "text/plain",
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
 
+  registerLimitlessPrompts(server: McpServer) {
+    // Prompt to review today's activities
+    server.prompt(
+      "review-today",
+      "Review today's lifelog activities",
+      async () => {
+        const today = todayInZone(this.timezone);
         return {
           messages: [
             {
               role: "user",
               content: {
                 type: "text",
-                text: `Analyze my lifelog entries from the past week (starting from ${weekAgoStr}). Identify recurring themes, topics I've discussed multiple times, and any patterns in my conversations or activities. Use getLifelogs with appropriate date filters.`,
+                text: `Please review my day (${today}). Call the generateDailyDigest tool with date ${today} and narrate its results: how much was recorded, the timeline, who I spoke with most, the topics discussed, starred moments and the longest conversation. Use the digest's figures as given rather than estimating your own. Use getLifelogEntry only for detail on a specific conversation.`,
               },
             },
           ],
@@ -440,114 +1914,990 @@ export class LimitlessClient {
       }
     );
 
-    // Prompt to compare activities between two time periods
+    // Prompt to search for specific topics
     server.prompt(
-      "compare-dates",
-      "Compare activities between two dates",
+      "find-topic",
+      "Search for a specific topic in lifelogs",
       {
-        date1: z.string().describe("First date to compare (YYYY-MM-DD format)"),
-        date2: z
+        topic: z
           .string()
-          .describe("Second date to compare (YYYY-MM-DD format)"),
+          .describe("The topic or keyword to search for in your lifelogs"),
       },
-      async ({ date1, date2 }) => {
+      async ({ topic }) => {
         return {
           messages: [
             {
               role: "user",
               content: {
                 type: "text",
-                text: `Compare my lifelog entries from ${date1} and ${date2}. Analyze the differences in activities, topics discussed, people I interacted with, and overall patterns. Use getLifelogs for both dates and provide a detailed comparison.`,
+                text: `Search my lifelog entries for discussions about "${topic}". Use the searchLifelogs tool and provide a summary of what was discussed, when it was discussed, and any key insights.`,
+              },
+            },
+          ],
+        };
+      }
+    );
+
+    // Prompt to analyze recent patterns
+    server.prompt(
+      "analyze-week",
+      "Analyze patterns from the past week",
+      async () => {
+        const weekAgoStr = addDays(todayInZone(this.timezone), -7);
+
+        return {
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: `Analyze my lifelog entries from the past week (starting from ${weekAgoStr}). Call the topicTrends tool with date_from ${weekAgoStr} and granularity "day" to find recurring themes, and note which topics are rising or declining compared to the week before. Use searchLifelogs or getLifelogs only to look into specific topics and patterns in my conversations or activities.`,
+              },
+            },
+          ],
+        };
+      }
+    );
+
+    // Prompt to compare activities between two time periods
+    server.prompt(
+      "compare-dates",
+      "Compare activities between two dates",
+      {
+        date1: z.string().describe("First date to compare (YYYY-MM-DD format)"),
+        date2: z
+          .string()
+          .describe("Second date to compare (YYYY-MM-DD format)"),
+      },
+      async ({ date1, date2 }) => {
+        return {
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: `Compare my lifelog entries from ${date1} and ${date2}. Call compareDateRanges with first_from ${date1} and second_from ${date2} for the differences in recorded time, conversations, people I interacted with only on one of the days, and new or dropped topics. Then use getLifelogs for either date where more detail on the activities helps, and explain the differences and overall patterns.`,
+              },
+            },
+          ],
+        };
+      }
+    );
+
+    // Prompt to extract key insights from a date range
+    server.prompt(
+      "extract-insights",
+      "Extract key insights from a date range",
+      {
+        start_date: z
+          .string()
+          .describe("Start date for insight extraction (YYYY-MM-DD format)"),
+        end_date: z
+          .string()
+          .optional()
+          .describe(
+            "End date for insight extraction (YYYY-MM-DD format, defaults to today)"
+          ),
+      },
+      async ({ start_date, end_date }) => {
+        const endDateStr = end_date || todayInZone(this.timezone);
+        return {
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: `Extract key insights from my lifelog entries between ${start_date} and ${endDateStr}. Focus on: 1) Important decisions made, 2) Recurring themes or concerns, 3) Notable interactions or relationships, 4) Progress on ongoing projects, 5) Action items or commitments. Use searchLifelogs and getLifelogs to gather this information, and extractActionItems for the action items and commitments.`,
+              },
+            },
+          ],
+        };
+      }
+    );
+  }
+
+  registerLimitlessTools(server: McpServer) {
+    // Tool to get lifelog entries
+    server.registerTool(
+      "getLifelogs",
+      {
+        description:
+          "Retrieve lifelog entries from your Limitless AI pendant. Access your recorded conversations, thoughts, and daily activities with flexible filtering options.",
+        inputSchema: {
+          date: z
+            .string()
+            .optional()
+            .describe(
+              "Filter entries by specific date in YYYY-MM-DD format (e.g., '2025-11-05'). If not specified, returns recent entries from the past 7 days."
+            ),
+          timezone: timeZoneParam
+            .optional()
+            .describe(
+              "IANA timezone for date filtering (e.g., 'America/Los_Angeles', 'Europe/London', 'Asia/Tokyo'). Defaults to the server's configured timezone."
+            ),
+          start_time: z
+            .string()
+            .optional()
+            .describe(
+              "Filter entries starting from this time (ISO 8601 format: '2025-11-05T14:30:00Z'). Use with end_time for precise time range queries."
+            ),
+          end_time: z
+            .string()
+            .optional()
+            .describe(
+              "Filter entries ending before this time (ISO 8601 format: '2025-11-05T18:00:00Z'). Use with start_time for precise time range queries."
+            ),
+          cursor: z
+            .string()
+            .optional()
+            .describe(
+              "Pagination cursor reported as nextCursor at the end of a previous response. Use this to continue where that response stopped."
+            ),
+          sort_direction: z
+            .enum(["asc", "desc"])
+            .optional()
+            .describe(
+              "Sort order for results: 'asc' for oldest first (chronological), 'desc' for newest first (reverse chronological). Defaults to 'desc'."
+            ),
+          limit: z
+            .number()
+            .min(1)
+            .max(10)
+            .optional()
+            .default(10)
+            .describe(
+              "Number of lifelog entries to fetch per API page (min: 1, max: 10). Defaults to 10. Pages are followed automatically up to max_entries."
+            ),
+          max_entries: z
+            .number()
+            .min(1)
+            .max(1000)
+            .optional()
+            .default(100)
+            .describe(
+              "Maximum total number of lifelog entries to return across all pages (min: 1, max: 1000). Defaults to 100. If more entries remain, a nextCursor is reported."
+            ),
+          account: mergedAccountParam,
+        },
+        outputSchema: LifelogListOutputSchema.shape,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      this.withCallNotices(async ({ account, max_entries, ...params }) => {
+        const timeZone =
+          params.timezone ?? this.forAccounts(account)[0].timezone;
+        const { response, accounts, cursors } = await this.loadAccountLifelogs(
+          account,
+          params,
+          { maxEntries: max_entries }
+        );
+        const structuredContent = lifelogListOutput(response, accounts);
+
+        if (response.data.lifelogs.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No lifelog entries found for the specified criteria.",
+              },
+            ],
+            structuredContent,
+          };
+        }
+
+        let formattedOutput = `Found ${response.data.lifelogs.length} lifelog entries`;
+        if (params.date) {
+          formattedOutput += ` for ${params.date}`;
+        }
+        formattedOutput += ":\n\n";
+
+        response.data.lifelogs.forEach((entry, i) => {
+          formattedOutput += `## ${entry.title}\n`;
+          formattedOutput += `**ID:** ${entry.id}\n`;
+          if (this.accounts.size > 1) {
+            formattedOutput += `**Account:** ${accounts[i]}\n`;
+          }
+          formattedOutput += `**Time:** ${formatDateTime(entry.startTime, timeZone)} - ${formatDateTime(entry.endTime, timeZone)}\n`;
+
+          if (entry.isStarred) {
+            formattedOutput += "⭐ **Starred**\n";
+          }
+
+          // Show summary of content
+          const headings = entry.contents
+            .filter((item) => item.type === "heading2")
+            .map((item) => `• ${item.content}`)
+            .join("\n");
+
+          if (headings) {
+            formattedOutput += `\n**Topics:**\n${headings}\n`;
+          }
+
+          formattedOutput += "\n---\n\n";
+        });
+
+        if (
+          response.meta &&
+          response.meta.lifelogs.count > response.data.lifelogs.length
+        ) {
+          formattedOutput += `💡 Showing ${response.data.lifelogs.length} of ${response.meta.lifelogs.count} total entries. Narrow the time range or raise max_entries to see more.\n`;
+        }
+        if (response.meta?.lifelogs.nextCursor) {
+          formattedOutput += `💡 More entries available. Pass cursor "${response.meta.lifelogs.nextCursor}" to continue (nextCursor).\n`;
+        } else {
+          formattedOutput += formatAccountCursors(cursors);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedOutput,
+            },
+          ],
+          structuredContent,
+        };
+      })
+    );
+
+    // Tool to get a specific lifelog entry
+    server.registerTool(
+      "getLifelogEntry",
+      {
+        description:
+          "Retrieve a specific lifelog entry by its ID. Get detailed information about a particular recorded moment from your Limitless AI pendant. Long transcripts are returned in chunks that fit a character or token budget, split between content items; the response says which page to request next.",
+        inputSchema: {
+          lifelog_id: z
+            .string()
+            .min(1)
+            .describe(
+              "The unique identifier of the lifelog entry to retrieve (e.g., 'lifelog_abc123xyz'). This ID is returned in the results from getLifelogs or searchLifelogs tools."
+            ),
+          format: TranscriptFormatSchema.optional()
+            .default("contents")
+            .describe(
+              "'contents' for the structured content items (headings and attributed quotes with times), 'markdown' for the raw markdown transcript, or 'both'. Defaults to 'contents', which falls back to the markdown when the entry has no content items."
+            ),
+          max_chars: z
+            .number()
+            .min(500)
+            .max(200000)
+            .optional()
+            .default(DEFAULT_TRANSCRIPT_CHARS)
+            .describe(
+              `Maximum characters of transcript per chunk (min: 500, max: 200000). Defaults to ${DEFAULT_TRANSCRIPT_CHARS}.`
+            ),
+          max_tokens: z
+            .number()
+            .min(100)
+            .max(50000)
+            .optional()
+            .describe(
+              `Maximum tokens of transcript per chunk, estimated at ${CHARS_PER_TOKEN} characters per token (min: 100, max: 50000). The smaller of max_chars and max_tokens applies.`
+            ),
+          page: z
+            .number()
+            .int()
+            .min(0)
+            .optional()
+            .default(0)
+            .describe(
+              "Index of the chunk to return, 0-based. Defaults to 0. Responses with more transcript remaining name the next page."
+            ),
+          offset: z
+            .number()
+            .int()
+            .min(0)
+            .optional()
+            .default(0)
+            .describe(
+              "Index of the content item (or markdown block) that chunks are counted from, 0-based. Defaults to 0. Use this to jump into a long transcript, e.g. to a contentIndex from searchLifelogs or getSpeakerUtterances."
+            ),
+          account: accountParam,
+        },
+        outputSchema: LifelogEntryOutputSchema.shape,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      this.withCallNotices(
+        async ({
+          lifelog_id,
+          format,
+          max_chars,
+          max_tokens,
+          page,
+          offset,
+          account,
+        }) => {
+          const client = this.forAccount(account);
+          const entry = await client.getLifelog(lifelog_id);
+          const chunk = chunkTranscript(
+            transcriptUnits(entry, format, (item) =>
+              formatContentItem(item, client.timezone)
+            ),
+            {
+              format,
+              maxChars: Math.min(
+                max_chars,
+                (max_tokens ?? Number.POSITIVE_INFINITY) * CHARS_PER_TOKEN
+              ),
+              offset,
+              page,
+            }
+          );
+
+          let formattedOutput = formatLifelogEntry(
+            entry,
+            client.timezone,
+            chunk
+          );
+          if (chunk.info.nextIndex !== null) {
+            formattedOutput += `💡 More transcript remains (items ${chunk.info.end + 1}-${chunk.info.totalItems}). Call getLifelogEntry with page ${chunk.info.nextIndex}${offset > 0 ? ` and offset ${offset}` : ""} (or offset ${chunk.info.end}) to continue.\n`;
+          }
+
+          const markdown = chunk.units
+            .filter((unit) => !unit.item)
+            .map((unit) => unit.text)
+            .join("\n\n");
+          const structuredContent: LifelogEntryOutput = {
+            lifelog: {
+              ...entry,
+              contents: chunk.units.flatMap((unit) =>
+                unit.item ? [unit.item] : []
+              ),
+              markdown: markdown || undefined,
+              topics: lifelogTopics(entry),
+            },
+            chunk: chunk.info,
+          };
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formattedOutput,
+              },
+            ],
+            structuredContent,
+          };
+        }
+      )
+    );
+
+    // Tool to search lifelog entries
+    server.registerTool(
+      "searchLifelogs",
+      {
+        description:
+          "Search through your lifelog entries from Limitless AI. Find specific conversations, topics, or moments by searching through the content and summaries of your recorded activities.",
+        inputSchema: {
+          query: z
+            .string()
+            .min(1)
+            .describe(
+              "Search query matched against lifelog titles, headings, and conversation content. Words are stemmed and ANDed by default (e.g., 'project meeting'). Supports \"quoted phrases\", OR, NOT, -term exclusions and parentheses (e.g., '\"budget review\" AND (Alice OR Bob) NOT draft'). Results are ranked by relevance. Search is case-insensitive."
+            ),
+          date_from: z
+            .string()
+            .optional()
+            .describe(
+              "Start date to limit search range in YYYY-MM-DD format (e.g., '2025-11-01'). Only entries from this date onwards will be searched. If omitted, searches all historical entries."
+            ),
+          date_to: z
+            .string()
+            .optional()
+            .describe(
+              "End date to limit search range in YYYY-MM-DD format (e.g., '2025-11-05'). Only entries up to this date will be searched. If omitted, searches up to present day."
+            ),
+          timezone: timeZoneParam
+            .optional()
+            .describe(
+              "IANA timezone for date range filtering (e.g., 'America/Los_Angeles', 'Europe/Paris', 'Asia/Singapore'). Affects interpretation of date_from and date_to. Defaults to the server's configured timezone."
+            ),
+          cursor: z
+            .string()
+            .optional()
+            .describe(
+              "Scan cursor from a previous search response (nextCursor). It continues scanning the entries beyond max_entries, which are ranked separately; use offset to page through the ranked matches of the entries already scanned."
+            ),
+          limit: z
+            .number()
+            .min(1)
+            .max(10)
+            .optional()
+            .default(10)
+            .describe(
+              "Maximum number of matching entries to return (minimum: 1, maximum: 10). Defaults to 10. For more matches, use offset."
+            ),
+          offset: z
+            .number()
+            .int()
+            .min(0)
+            .optional()
+            .describe(
+              "Number of ranked matches to skip, to page through them (nextOffset). Pass the same query, dates, cursor and max_entries as before so the same entries are ranked. Defaults to 0."
+            ),
+          max_entries: z
+            .number()
+            .min(1)
+            .max(1000)
+            .optional()
+            .default(100)
+            .describe(
+              "Maximum number of lifelog entries to scan and index from the date range (min: 1, max: 1000). Defaults to 100. If more entries remain, a nextCursor is reported."
+            ),
+          account: mergedAccountParam,
+        },
+        outputSchema: SearchLifelogsOutputSchema.shape,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      this.withCallNotices(async ({ account, max_entries, ...params }) => {
+        const timeZone =
+          params.timezone ?? this.forAccounts(account)[0].timezone;
+        const { response, accounts, cursors } =
+          await this.searchAccountLifelogs(account, params, {
+            maxEntries: max_entries,
+          });
+        const offset = params.offset ?? 0;
+        const total = response.meta?.lifelogs.count ?? 0;
+        const shown = offset + response.data.lifelogs.length;
+        const structuredContent: SearchLifelogsOutput = {
+          ...lifelogListOutput(response, accounts),
+          query: params.query,
+          hits: response.data.hits,
+          nextOffset: shown < total ? shown : null,
+        };
+
+        if (response.data.lifelogs.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No lifelog entries found matching "${params.query}".`,
+              },
+            ],
+            structuredContent,
+          };
+        }
+
+        let formattedOutput = `Found ${response.data.lifelogs.length} lifelog entries matching "${params.query}":\n\n`;
+
+        response.data.lifelogs.forEach((entry, i) => {
+          const hit = response.data.hits[i];
+          formattedOutput += `## ${entry.title}\n`;
+          formattedOutput += `**ID:** ${entry.id}\n`;
+          if (this.accounts.size > 1) {
+            formattedOutput += `**Account:** ${accounts[i]}\n`;
+          }
+          formattedOutput += `**Time:** ${formatDateTime(entry.startTime, timeZone)} - ${formatDateTime(entry.endTime, timeZone)}\n`;
+          formattedOutput += `**Score:** ${hit.score}\n`;
+
+          // Show highlighted excerpts with their position in the recording
+          const excerpts = hit.snippets.filter(
+            (snippet) => snippet.field !== "title"
+          );
+          if (excerpts.length > 0) {
+            formattedOutput += "\n**Matching excerpts:**\n";
+            for (const snippet of excerpts) {
+              const offset =
+                snippet.startOffsetMs !== undefined
+                  ? ` [${formatOffset(snippet.startOffsetMs)}]`
+                  : "";
+              if (snippet.field === "blockquote") {
+                const speaker = snippet.speakerName || "Unknown";
+                formattedOutput += `> **${speaker}**${offset}: ${snippet.text}\n`;
+              } else {
+                formattedOutput += `>${offset} ${snippet.text}\n`;
+              }
+            }
+          }
+
+          formattedOutput += "\n---\n\n";
+        });
+
+        if (response.data.lifelogs.length < total) {
+          formattedOutput += `💡 Showing matches ${offset + 1}-${shown} of ${total}.`;
+          if (structuredContent.nextOffset !== null) {
+            formattedOutput += ` Pass offset ${shown} with the same parameters for the next ones (nextOffset).`;
+          }
+          formattedOutput += "\n";
+        }
+        if (response.meta?.lifelogs.nextCursor) {
+          formattedOutput += `💡 More entries remain unsearched. Pass cursor "${response.meta.lifelogs.nextCursor}" to scan them (nextCursor).\n`;
+        } else {
+          formattedOutput += formatAccountCursors(cursors);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedOutput,
+            },
+          ],
+          structuredContent,
+        };
+      })
+    );
+
+    // Tool to list the people heard over a date range
+    server.tool(
+      "listSpeakers",
+      "List the speakers heard in your lifelogs over a date range, ranked by talk time. Shows how long each person spoke, how many times, and in how many conversations.",
+      {
+        date_from: z
+          .string()
+          .describe(
+            "Start date of the range in YYYY-MM-DD format (e.g., '2025-11-01')."
+          ),
+        date_to: z
+          .string()
+          .optional()
+          .describe(
+            "End date of the range in YYYY-MM-DD format (e.g., '2025-11-07'). Defaults to today."
+          ),
+        timezone: timeZoneParam
+          .optional()
+          .describe(
+            "IANA timezone for day boundaries (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
+          ),
+        max_entries: z
+          .number()
+          .min(1)
+          .max(1000)
+          .optional()
+          .default(200)
+          .describe(
+            "Maximum number of lifelog entries to scan (min: 1, max: 1000). Defaults to 200."
+          ),
+        account: accountParam,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      this.withCallNotices(
+        async ({ date_from, date_to, timezone, max_entries, account }) => {
+          const client = this.forAccount(account);
+          const timeZone = timezone ?? client.timezone;
+          const response = await client.getLifelogsInRange(
+            date_from,
+            date_to,
+            timezone,
+            { maxEntries: max_entries }
+          );
+          const speakers = summarizeSpeakers(response.data.lifelogs);
+          const range = `${date_from} to ${date_to ?? "today"}`;
+
+          if (speakers.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No named speakers found in lifelogs from ${range}.`,
+                },
+              ],
+            };
+          }
+
+          let formattedOutput = `Found ${speakers.length} speakers in ${response.data.lifelogs.length} lifelog entries from ${range}:\n\n`;
+          formattedOutput +=
+            "| Speaker | Talk time | Utterances | Conversations | Last heard |\n";
+          formattedOutput += "|---|---|---|---|---|\n";
+          for (const speaker of speakers) {
+            formattedOutput += `| ${speaker.speakerName} | ${formatDuration(speaker.talkTimeMs)} | ${speaker.utterances} | ${speaker.conversations} | ${formatDateTime(speaker.lastSeen, timeZone)} |\n`;
+          }
+
+          if (isTruncated(response)) {
+            formattedOutput += `\n💡 Only the first ${response.data.lifelogs.length} entries were scanned. Narrow the range or raise max_entries for complete totals.\n`;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formattedOutput,
+              },
+            ],
+          };
+        }
+      )
+    );
+
+    // Tool to fetch everything a person said over a date range
+    server.tool(
+      "getSpeakerUtterances",
+      "Retrieve everything a named person said in your lifelogs over a date range, with timestamps and the lifelog each quote came from. Useful for questions like 'what did Alice say this week'.",
+      {
+        speaker_name: z
+          .string()
+          .min(1)
+          .describe(
+            "Name of the speaker as it appears in your lifelogs (e.g., 'Alice'). Matching is case-insensitive and also matches full names containing it (e.g., 'Alice Smith')."
+          ),
+        date_from: z
+          .string()
+          .describe(
+            "Start date of the range in YYYY-MM-DD format (e.g., '2025-11-01')."
+          ),
+        date_to: z
+          .string()
+          .optional()
+          .describe(
+            "End date of the range in YYYY-MM-DD format (e.g., '2025-11-07'). Defaults to today."
+          ),
+        timezone: timeZoneParam
+          .optional()
+          .describe(
+            "IANA timezone for day boundaries (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
+          ),
+        limit: z
+          .number()
+          .min(1)
+          .max(500)
+          .optional()
+          .default(100)
+          .describe(
+            "Maximum number of utterances to return (min: 1, max: 500). Defaults to 100."
+          ),
+        max_entries: z
+          .number()
+          .min(1)
+          .max(1000)
+          .optional()
+          .default(200)
+          .describe(
+            "Maximum number of lifelog entries to scan (min: 1, max: 1000). Defaults to 200."
+          ),
+        account: accountParam,
+      },
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      this.withCallNotices(
+        async ({
+          speaker_name,
+          date_from,
+          date_to,
+          timezone,
+          limit,
+          max_entries,
+          account,
+        }) => {
+          const client = this.forAccount(account);
+          const timeZone = timezone ?? client.timezone;
+          const response = await client.getLifelogsInRange(
+            date_from,
+            date_to,
+            timezone,
+            { maxEntries: max_entries }
+          );
+          const utterances = findUtterances(
+            response.data.lifelogs,
+            speaker_name
+          );
+          const range = `${date_from} to ${date_to ?? "today"}`;
+
+          if (utterances.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No utterances by "${speaker_name}" found in lifelogs from ${range}.`,
+                },
+              ],
+            };
+          }
+
+          let formattedOutput = `Found ${utterances.length} utterances by "${speaker_name}" from ${range}:\n`;
+          let currentLifelog: string | undefined;
+          for (const utterance of utterances.slice(0, limit)) {
+            if (utterance.lifelogId !== currentLifelog) {
+              currentLifelog = utterance.lifelogId;
+              formattedOutput += `\n## ${utterance.lifelogTitle}\n`;
+              formattedOutput += `**ID:** ${utterance.lifelogId}\n\n`;
+            }
+            const offset =
+              utterance.startOffsetMs !== undefined
+                ? ` [${formatOffset(utterance.startOffsetMs)}]`
+                : "";
+            formattedOutput += `> **${utterance.speakerName}** ${formatDateTime(utterance.startTime, timeZone)}${offset}: ${utterance.content}\n\n`;
+          }
+
+          if (utterances.length > limit) {
+            formattedOutput += `💡 Showing ${limit} of ${utterances.length} utterances. Raise limit or narrow the range to see more.\n`;
+          }
+          if (isTruncated(response)) {
+            formattedOutput += `💡 Only the first ${response.data.lifelogs.length} entries were scanned. Narrow the range or raise max_entries for complete results.\n`;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formattedOutput,
               },
-            },
-          ],
-        };
-      }
+            ],
+          };
+        }
+      )
     );
 
-    // Prompt to extract key insights from a date range
-    server.prompt(
-      "extract-insights",
-      "Extract key insights from a date range",
+    // Tool to extract action items and commitments over a date range
+    server.tool(
+      "extractActionItems",
+      'Extract action items and commitments from your lifelogs over a date range using deterministic phrase heuristics (e.g., "I\'ll", "we need to", "remind me", "by Friday"). Returns each item with its owner, due-date hint, source lifelog ID and timestamp. The same range always yields the same items.',
       {
-        start_date: z
+        date_from: z
           .string()
-          .describe("Start date for insight extraction (YYYY-MM-DD format)"),
-        end_date: z
+          .describe(
+            "Start date of the range in YYYY-MM-DD format (e.g., '2025-11-01')."
+          ),
+        date_to: z
           .string()
           .optional()
           .describe(
-            "End date for insight extraction (YYYY-MM-DD format, defaults to today)"
+            "End date of the range in YYYY-MM-DD format (e.g., '2025-11-07'). Defaults to today."
+          ),
+        timezone: timeZoneParam
+          .optional()
+          .describe(
+            "IANA timezone for day boundaries and resolving relative deadlines like 'tomorrow' (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
+          ),
+        owner: z
+          .string()
+          .optional()
+          .describe(
+            "Only return items owned by this person (e.g., 'Alice'), or 'team' for shared obligations. Matching is case-insensitive."
+          ),
+        format: z
+          .enum(["markdown", "json"])
+          .optional()
+          .default("markdown")
+          .describe(
+            "Output format: 'markdown' for a readable list, 'json' for an array of items to pipe into a tracker. Defaults to 'markdown'."
+          ),
+        max_entries: z
+          .number()
+          .min(1)
+          .max(1000)
+          .optional()
+          .default(200)
+          .describe(
+            "Maximum number of lifelog entries to scan (min: 1, max: 1000). Defaults to 200."
           ),
+        account: accountParam,
       },
-      async ({ start_date, end_date }) => {
-        const endDateStr = end_date || new Date().toISOString().split("T")[0];
-        return {
-          messages: [
-            {
-              role: "user",
-              content: {
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      this.withCallNotices(
+        async ({
+          date_from,
+          date_to,
+          timezone,
+          owner,
+          format,
+          max_entries,
+          account,
+        }) => {
+          const client = this.forAccount(account);
+          const timeZone = timezone ?? client.timezone;
+          const response = await client.getLifelogsInRange(
+            date_from,
+            date_to,
+            timezone,
+            { maxEntries: max_entries }
+          );
+          const items = extractActionItems(
+            response.data.lifelogs,
+            timeZone
+          ).filter(
+            (item) =>
+              !owner || (item.owner && matchesSpeaker(item.owner, owner))
+          );
+          const range = `${date_from} to ${date_to ?? "today"}`;
+
+          if (format === "json") {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(items, null, 2),
+                },
+              ],
+            };
+          }
+
+          if (items.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No action items found in lifelogs from ${range}.`,
+                },
+              ],
+            };
+          }
+
+          let formattedOutput = `Found ${items.length} action items in lifelogs from ${range}:\n\n`;
+          for (const item of items) {
+            formattedOutput += `- [ ] ${item.text}\n`;
+            formattedOutput += `  - **Owner:** ${item.owner ?? "Unassigned"} (${item.kind})\n`;
+            if (item.dueHint) {
+              formattedOutput += `  - **Due:** ${item.dueDate ?? "?"} ("${item.dueHint}")\n`;
+            }
+            formattedOutput += `  - **Source:** ${item.lifelogTitle} (ID: ${item.lifelogId}) at ${formatDateTime(item.timestamp, timeZone)}\n`;
+          }
+
+          if (isTruncated(response)) {
+            formattedOutput += `\n💡 Only the first ${response.data.lifelogs.length} entries were scanned. Narrow the range or raise max_entries for complete results.\n`;
+          }
+
+          return {
+            content: [
+              {
                 type: "text",
-                text: `Extract key insights from my lifelog entries between ${start_date} and ${endDateStr}. Focus on: 1) Important decisions made, 2) Recurring themes or concerns, 3) Notable interactions or relationships, 4) Progress on ongoing projects, 5) Action items or commitments. Use searchLifelogs and getLifelogs to gather this information.`,
+                text: formattedOutput,
               },
+            ],
+          };
+        }
+      )
+    );
+
+    // Tool to compute a day's statistics for the model to narrate
+    server.registerTool(
+      "generateDailyDigest",
+      {
+        description:
+          "Compute a digest of one day's lifelogs: total recorded minutes, number of conversations, a timeline of titles with start and end times, top speakers by talk time, heading topics, starred moments and the longest conversation. All figures are computed from the lifelog contents, so they can be quoted as is.",
+        inputSchema: {
+          date: z
+            .string()
+            .optional()
+            .describe(
+              "Day to summarize in YYYY-MM-DD format (e.g., '2025-11-05'). Defaults to today."
+            ),
+          timezone: timeZoneParam
+            .optional()
+            .describe(
+              "IANA timezone for the day's boundaries and displayed times (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
+            ),
+          max_entries: z
+            .number()
+            .min(1)
+            .max(1000)
+            .optional()
+            .default(DIGEST_MAX_ENTRIES)
+            .describe(
+              `Maximum number of lifelog entries to include (min: 1, max: 1000). Defaults to ${DIGEST_MAX_ENTRIES}.`
+            ),
+          account: accountParam,
+        },
+        outputSchema: DailyDigestSchema.shape,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      this.withCallNotices(async ({ date, timezone, max_entries, account }) => {
+        const client = this.forAccount(account);
+        const timeZone = timezone ?? client.timezone;
+        const { digest, truncated } = await client.getDailyDigest(
+          date ?? todayInZone(timeZone),
+          timeZone,
+          { maxEntries: max_entries }
+        );
+
+        let formattedOutput =
+          digest.lifelogCount === 0
+            ? `No lifelog entries found for ${digest.date}.\n`
+            : formatDailyDigest(digest);
+        if (truncated) {
+          formattedOutput += `\n💡 Only the first ${digest.lifelogCount} entries were included. Raise max_entries for complete figures.\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedOutput,
             },
           ],
+          structuredContent: digest,
         };
-      }
+      })
     );
-  }
 
-  registerLimitlessTools(server: McpServer) {
-    // Tool to get lifelog entries
+    // Tool to lay out a date range as a timeline with gaps and overlaps
     server.tool(
-      "getLifelogs",
-      "Retrieve lifelog entries from your Limitless AI pendant. Access your recorded conversations, thoughts, and daily activities with flexible filtering options.",
+      "getTimeline",
+      "Merge lifelogs over a date range into a chronological timeline with idle gaps, overlapping recordings and per-hour activity. Useful for questions like 'when was I in meetings on Tuesday' and for spotting holes in recording coverage. Output as a Markdown table, JSON, an ASCII chart or a Mermaid gantt diagram.",
       {
-        date: z
-          .string()
-          .optional()
-          .describe(
-            "Filter entries by specific date in YYYY-MM-DD format (e.g., '2025-11-05'). If not specified, returns recent entries from the past 7 days."
-          ),
-        timezone: z
+        date_from: z
           .string()
-          .optional()
           .describe(
-            "IANA timezone for date filtering (e.g., 'America/Los_Angeles', 'Europe/London', 'Asia/Tokyo'). Defaults to UTC if not specified."
+            "Start date of the range in YYYY-MM-DD format (e.g., '2025-11-01')."
           ),
-        start_time: z
+        date_to: z
           .string()
           .optional()
           .describe(
-            "Filter entries starting from this time (ISO 8601 format: '2025-11-05T14:30:00Z'). Use with end_time for precise time range queries."
+            "End date of the range in YYYY-MM-DD format (e.g., '2025-11-07'). Defaults to today."
           ),
-        end_time: z
-          .string()
+        timezone: timeZoneParam
           .optional()
           .describe(
-            "Filter entries ending before this time (ISO 8601 format: '2025-11-05T18:00:00Z'). Use with start_time for precise time range queries."
+            "IANA timezone for day boundaries, hour buckets and displayed times (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
           ),
-        cursor: z
-          .string()
-          .optional()
+        format: TimelineFormatSchema.optional()
+          .default("markdown")
           .describe(
-            "Pagination cursor from previous response's meta.lifelogs.next_cursor field. Use this to retrieve the next page of results."
+            "Output format: 'markdown' for a table with hourly activity, 'json' for the full timeline, 'ascii' for a text chart, 'mermaid' for a gantt diagram. Defaults to 'markdown'."
           ),
-        sort_direction: z
-          .enum(["asc", "desc"])
+        min_gap_minutes: z
+          .number()
+          .min(1)
+          .max(1440)
           .optional()
+          .default(15)
           .describe(
-            "Sort order for results: 'asc' for oldest first (chronological), 'desc' for newest first (reverse chronological). Defaults to 'desc'."
+            "Shortest idle stretch between recordings reported as a gap, in minutes (min: 1, max: 1440). Defaults to 15."
           ),
-        limit: z
+        max_entries: z
           .number()
           .min(1)
-          .max(10)
+          .max(1000)
           .optional()
-          .default(10)
+          .default(200)
           .describe(
-            "Maximum number of lifelog entries to return per request (min: 1, max: 10). Defaults to 10. Use cursor parameter for additional pages."
+            "Maximum number of lifelog entries to place on the timeline (min: 1, max: 1000). Defaults to 200."
           ),
+        account: accountParam,
       },
       {
         readOnlyHint: true,
@@ -555,236 +2905,1129 @@ export class LimitlessClient {
         idempotentHint: true,
         openWorldHint: true,
       },
-      async (params) => {
-        const response = await this.getLifelogs(params);
+      this.withCallNotices(
+        async ({
+          date_from,
+          date_to,
+          timezone,
+          format,
+          min_gap_minutes,
+          max_entries,
+          account,
+        }) => {
+          const client = this.forAccount(account);
+          const timeZone = timezone ?? client.timezone;
+          const response = await client.getLifelogsInRange(
+            date_from,
+            date_to,
+            timeZone,
+            { maxEntries: max_entries }
+          );
+          const range = `${date_from} to ${date_to ?? "today"}`;
+
+          if (response.data.lifelogs.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No lifelog entries found from ${range}.`,
+                },
+              ],
+            };
+          }
+
+          const timeline = buildTimeline(
+            response.data.lifelogs,
+            timeZone,
+            min_gap_minutes
+          );
+          let formattedOutput = renderTimeline(timeline, format);
+          if (format !== "json") {
+            formattedOutput = `# Timeline from ${range}\n\n${formattedOutput}`;
+            if (isTruncated(response)) {
+              formattedOutput += `\n💡 Only the first ${response.data.lifelogs.length} entries are shown. Narrow the range or raise max_entries for a complete timeline.\n`;
+            }
+          }
 
-        if (response.data.lifelogs.length === 0) {
           return {
             content: [
               {
                 type: "text",
-                text: "No lifelog entries found for the specified criteria.",
+                text: formattedOutput,
               },
             ],
           };
         }
+      )
+    );
 
-        let formattedOutput = `Found ${response.data.lifelogs.length} lifelog entries`;
-        if (params.date) {
-          formattedOutput += ` for ${params.date}`;
+    // Tool to compute talk-time and turn-taking statistics
+    server.registerTool(
+      "analyzeConversation",
+      {
+        description:
+          "Analyze turn-taking in a single lifelog or across a date range: per-speaker talk time and share, turn counts, average turn length, words per minute, overlaps, interruptions and the longest monologue. Computed from speaker-attributed transcript timings, e.g. for 1:1 coaching.",
+        inputSchema: {
+          lifelog_id: z
+            .string()
+            .min(1)
+            .optional()
+            .describe(
+              "ID of a single lifelog to analyze (e.g., 'lifelog_abc123xyz'). Takes precedence over the date range."
+            ),
+          date_from: z
+            .string()
+            .optional()
+            .describe(
+              "Start date of the range in YYYY-MM-DD format (e.g., '2025-11-01'). Required unless lifelog_id is given."
+            ),
+          date_to: z
+            .string()
+            .optional()
+            .describe(
+              "End date of the range in YYYY-MM-DD format (e.g., '2025-11-07'). Defaults to today."
+            ),
+          timezone: timeZoneParam
+            .optional()
+            .describe(
+              "IANA timezone for day boundaries and displayed times (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
+            ),
+          max_entries: z
+            .number()
+            .min(1)
+            .max(1000)
+            .optional()
+            .default(200)
+            .describe(
+              "Maximum number of lifelog entries to analyze from a date range (min: 1, max: 1000). Defaults to 200."
+            ),
+          account: accountParam,
+        },
+        outputSchema: ConversationAnalysisSchema.shape,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      this.withCallNotices(
+        async ({
+          lifelog_id,
+          date_from,
+          date_to,
+          timezone,
+          max_entries,
+          account,
+        }) => {
+          const client = this.forAccount(account);
+          const timeZone = timezone ?? client.timezone;
+          let entries: LifelogEntry[];
+          let subject: string;
+          let truncated = false;
+          if (lifelog_id) {
+            const entry = await client.getLifelog(lifelog_id);
+            entries = [entry];
+            subject = `"${entry.title}"`;
+          } else if (date_from) {
+            const response = await client.getLifelogsInRange(
+              date_from,
+              date_to,
+              timeZone,
+              { maxEntries: max_entries }
+            );
+            entries = response.data.lifelogs;
+            subject = `lifelogs from ${date_from} to ${date_to ?? "today"}`;
+            truncated = isTruncated(response);
+          } else {
+            throw new Error(
+              "Either lifelog_id or date_from is required to analyze a conversation"
+            );
+          }
+
+          const analysis = analyzeConversation(entries);
+          let formattedOutput =
+            analysis.speakers.length === 0
+              ? `No speaker-attributed speech found in ${subject}.\n`
+              : formatConversationAnalysis(
+                  `Conversation Analysis: ${subject}`,
+                  analysis,
+                  timeZone
+                );
+          if (truncated) {
+            formattedOutput += `\n💡 Only the first ${entries.length} entries were analyzed. Narrow the range or raise max_entries for complete figures.\n`;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formattedOutput,
+              },
+            ],
+            structuredContent: analysis,
+          };
         }
-        formattedOutput += ":\n\n";
+      )
+    );
 
-        for (const entry of response.data.lifelogs) {
-          formattedOutput += `## ${entry.title}\n`;
-          formattedOutput += `**ID:** ${entry.id}\n`;
-          formattedOutput += `**Time:** ${new Date(entry.startTime).toLocaleString()} - ${new Date(entry.endTime).toLocaleString()}\n`;
+    // Tool to find recurring, rising and declining topics over a range
+    server.registerTool(
+      "topicTrends",
+      {
+        description:
+          "Find the recurring topics of a date range by paging through every lifelog in it. Terms and two-word phrases from titles, headings and content are ranked by TF-IDF with stopwords removed, and reported per day or week with counts. Topics rising or declining against the equally long period before the range are flagged.",
+        inputSchema: {
+          date_from: z
+            .string()
+            .describe(
+              "Start date of the range in YYYY-MM-DD format (e.g., '2025-11-01')."
+            ),
+          date_to: z
+            .string()
+            .optional()
+            .describe(
+              "End date of the range in YYYY-MM-DD format (e.g., '2025-11-30'). Defaults to today."
+            ),
+          timezone: timeZoneParam
+            .optional()
+            .describe(
+              "IANA timezone for day and week boundaries (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
+            ),
+          granularity: z
+            .enum(["day", "week"])
+            .optional()
+            .default("week")
+            .describe(
+              "Report top topics per 'day' or per ISO 'week'. Defaults to 'week'."
+            ),
+          top_n: z
+            .number()
+            .min(1)
+            .max(20)
+            .optional()
+            .default(5)
+            .describe(
+              "Number of topics listed per period and for rising and declining topics (min: 1, max: 20). Defaults to 5."
+            ),
+          compare_previous: z
+            .boolean()
+            .optional()
+            .default(true)
+            .describe(
+              "Compare against the equally long period before date_from to find rising and declining topics. Defaults to true."
+            ),
+          max_entries: z
+            .number()
+            .min(1)
+            .max(1000)
+            .optional()
+            .default(500)
+            .describe(
+              "Maximum number of lifelog entries to read from each period (min: 1, max: 1000). Defaults to 500."
+            ),
+          account: accountParam,
+        },
+        outputSchema: TopicTrendsSchema.shape,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      this.withCallNotices(
+        async ({
+          date_from,
+          date_to,
+          timezone,
+          granularity,
+          top_n,
+          compare_previous,
+          max_entries,
+          account,
+        }) => {
+          const client = this.forAccount(account);
+          const timeZone = timezone ?? client.timezone;
+          const to = date_to ?? todayInZone(timeZone);
+          if (!isValidDate(date_from) || !isValidDate(to) || to < date_from) {
+            throw new Error(
+              `Invalid date range ${date_from} to ${to}. Use YYYY-MM-DD dates with date_from on or before date_to.`
+            );
+          }
 
-          if (entry.isStarred) {
-            formattedOutput += "⭐ **Starred**\n";
+          const response = await client.getLifelogsInRange(
+            date_from,
+            to,
+            timeZone,
+            { maxEntries: max_entries }
+          );
+          let truncated = isTruncated(response);
+          let prior: Parameters<typeof topicTrends>[1]["prior"];
+          if (compare_previous) {
+            const days = daysBetween(date_from, to) + 1;
+            const priorFrom = addDays(date_from, -days);
+            const priorTo = addDays(date_from, -1);
+            const priorResponse = await client.getLifelogsInRange(
+              priorFrom,
+              priorTo,
+              timeZone,
+              { maxEntries: max_entries }
+            );
+            truncated ||= isTruncated(priorResponse);
+            prior = {
+              from: priorFrom,
+              to: priorTo,
+              entries: priorResponse.data.lifelogs,
+            };
           }
 
-          // Show summary of content
-          const headings = entry.contents
-            .filter((item) => item.type === "heading2")
-            .map((item) => `• ${item.content}`)
-            .join("\n");
+          const trends = topicTrends(response.data.lifelogs, {
+            from: date_from,
+            to,
+            timeZone,
+            granularity,
+            limit: top_n,
+            prior,
+          });
+          let formattedOutput =
+            trends.lifelogCount === 0
+              ? `No lifelog entries found from ${date_from} to ${to}.\n`
+              : formatTopicTrends(trends);
+          if (truncated) {
+            formattedOutput += `\n💡 Only the first ${max_entries} entries of a period were read. Narrow the range or raise max_entries for complete counts.\n`;
+          }
 
-          if (headings) {
-            formattedOutput += `\n**Topics:**\n${headings}\n`;
+          return {
+            content: [
+              {
+                type: "text",
+                text: formattedOutput,
+              },
+            ],
+            structuredContent: trends,
+          };
+        }
+      )
+    );
+
+    // Tool to diff two date ranges
+    server.registerTool(
+      "compareDateRanges",
+      {
+        description:
+          "Compare two date ranges by paging through every lifelog in each. Returns the computed difference in recorded minutes and conversation count, the speakers heard in only one of the ranges, and how the ranges' top topics overlap (Jaccard index) with the topics that are new in the second range and those dropped since the first. Ranges may differ in length, e.g. a week against the month before.",
+        inputSchema: {
+          first_from: z
+            .string()
+            .describe(
+              "Start date of the first range in YYYY-MM-DD format (e.g., '2025-10-01')."
+            ),
+          first_to: z
+            .string()
+            .optional()
+            .describe(
+              "End date of the first range in YYYY-MM-DD format. Defaults to first_from, comparing a single day."
+            ),
+          second_from: z
+            .string()
+            .describe(
+              "Start date of the second range in YYYY-MM-DD format (e.g., '2025-11-01')."
+            ),
+          second_to: z
+            .string()
+            .optional()
+            .describe(
+              "End date of the second range in YYYY-MM-DD format. Defaults to second_from, comparing a single day."
+            ),
+          timezone: timeZoneParam
+            .optional()
+            .describe(
+              "IANA timezone for day boundaries (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
+            ),
+          top_n: z
+            .number()
+            .min(1)
+            .max(50)
+            .optional()
+            .default(10)
+            .describe(
+              "Number of top topics taken from each range for the overlap (min: 1, max: 50). Defaults to 10."
+            ),
+          max_entries: z
+            .number()
+            .min(1)
+            .max(1000)
+            .optional()
+            .default(500)
+            .describe(
+              "Maximum number of lifelog entries to read from each range (min: 1, max: 1000). Defaults to 500."
+            ),
+          account: accountParam,
+        },
+        outputSchema: DateRangeComparisonSchema.shape,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      this.withCallNotices(
+        async ({
+          first_from,
+          first_to,
+          second_from,
+          second_to,
+          timezone,
+          top_n,
+          max_entries,
+          account,
+        }) => {
+          const client = this.forAccount(account);
+          const timeZone = timezone ?? client.timezone;
+          const ranges = [
+            { from: first_from, to: first_to ?? first_from },
+            { from: second_from, to: second_to ?? second_from },
+          ];
+          for (const { from, to } of ranges) {
+            if (!isValidDate(from) || !isValidDate(to) || to < from) {
+              throw new Error(
+                `Invalid date range ${from} to ${to}. Use YYYY-MM-DD dates with the start on or before the end.`
+              );
+            }
           }
 
-          formattedOutput += "\n---\n\n";
+          // Read one range after the other so cache syncs never overlap
+          let truncated = false;
+          const periods: Parameters<typeof compareDateRanges>[0][] = [];
+          for (const { from, to } of ranges) {
+            const response = await client.getLifelogsInRange(
+              from,
+              to,
+              timeZone,
+              { maxEntries: max_entries }
+            );
+            truncated ||= isTruncated(response);
+            periods.push({ from, to, entries: response.data.lifelogs });
+          }
+          const [first, second] = periods;
+
+          const comparison = compareDateRanges(first, second, timeZone, top_n);
+          let formattedOutput =
+            comparison.first.lifelogCount === 0 &&
+            comparison.second.lifelogCount === 0
+              ? `No lifelog entries found from ${first.from} to ${first.to} or from ${second.from} to ${second.to}.\n`
+              : formatDateRangeComparison(comparison);
+          if (truncated) {
+            formattedOutput += `\n💡 Only the first ${max_entries} entries of a range were read. Narrow the ranges or raise max_entries for complete counts.\n`;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formattedOutput,
+              },
+            ],
+            structuredContent: comparison,
+          };
         }
+      )
+    );
 
-        if (
-          response.meta &&
-          response.meta.lifelogs.count > response.data.lifelogs.length
-        ) {
-          formattedOutput += `💡 Showing ${response.data.lifelogs.length} of ${response.meta.lifelogs.count} total entries.\n`;
+    // Tool to list starred lifelogs over a date range
+    server.registerTool(
+      "getStarredLifelogs",
+      {
+        description:
+          "List your starred lifelog entries, newest first, over a date range or your whole history. Each entry comes with its heading topics and a key excerpt (its most substantial quote). Entries can be grouped by month. Uses the API's starred filter and pages through history until every starred entry in range is found or max_entries is reached.",
+        inputSchema: {
+          date_from: z
+            .string()
+            .optional()
+            .describe(
+              "Start date in YYYY-MM-DD format (e.g., '2025-01-01'). If not specified, searches from the beginning of your history."
+            ),
+          date_to: z
+            .string()
+            .optional()
+            .describe(
+              "End date in YYYY-MM-DD format (e.g., '2025-11-30'). Defaults to today."
+            ),
+          timezone: timeZoneParam
+            .optional()
+            .describe(
+              "IANA timezone for date and month boundaries (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
+            ),
+          group_by: z
+            .enum(["none", "month"])
+            .optional()
+            .default("none")
+            .describe(
+              "'month' to list entries under month headings, or 'none' for a flat list. Defaults to 'none'."
+            ),
+          max_entries: z
+            .number()
+            .min(1)
+            .max(1000)
+            .optional()
+            .default(STARRED_MAX_ENTRIES)
+            .describe(
+              `Maximum number of starred entries to return (min: 1, max: 1000). Defaults to ${STARRED_MAX_ENTRIES}.`
+            ),
+          account: accountParam,
+        },
+        outputSchema: StarredLifelogsSchema.shape,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      this.withCallNotices(
+        async ({
+          date_from,
+          date_to,
+          timezone,
+          group_by,
+          max_entries,
+          account,
+        }) => {
+          const client = this.forAccount(account);
+          const timeZone = timezone ?? client.timezone;
+          for (const date of [date_from, date_to]) {
+            if (date !== undefined && !isValidDate(date)) {
+              throw new Error(`Invalid date "${date}". Use YYYY-MM-DD.`);
+            }
+          }
+          if (date_from && date_to && date_to < date_from) {
+            throw new Error(
+              `Invalid date range ${date_from} to ${date_to}. date_from must be on or before date_to.`
+            );
+          }
+
+          const { lifelogs, truncated } = await client.getStarredLifelogs(
+            date_from,
+            date_to,
+            timeZone,
+            { maxEntries: max_entries }
+          );
+          const starred = buildStarredLifelogs(lifelogs, {
+            from: date_from,
+            to: date_to,
+            timeZone,
+            groupBy: group_by,
+            truncated,
+          });
+
+          let formattedOutput =
+            starred.total === 0
+              ? "No starred lifelog entries found for the specified range.\n"
+              : formatStarredLifelogs(starred);
+          if (truncated) {
+            formattedOutput +=
+              "\n💡 More starred entries may exist. Narrow the date range or raise max_entries to see them.\n";
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formattedOutput,
+              },
+            ],
+            structuredContent: starred,
+          };
+        }
+      )
+    );
+
+    // Tool to list AI chats and daily insights from the Limitless app
+    server.registerTool(
+      "listChats",
+      {
+        description:
+          "List your AI chats from the Limitless app, newest first, with their summaries, start times and message counts. Set scheduled to true to list only daily insights (the summaries the app writes on a schedule), or false to leave them out. Use getChat to read a chat's messages.",
+        inputSchema: {
+          scheduled: z
+            .boolean()
+            .optional()
+            .describe(
+              "true for daily insights only, false for chats you started only. Defaults to both."
+            ),
+          sort_direction: z
+            .enum(["asc", "desc"])
+            .optional()
+            .describe(
+              "Sort order for results: 'asc' for oldest first, 'desc' for newest first. Defaults to 'desc'."
+            ),
+          cursor: z
+            .string()
+            .optional()
+            .describe(
+              "Pagination cursor reported as nextCursor at the end of a previous response. Use this to continue where that response stopped."
+            ),
+          limit: z
+            .number()
+            .min(1)
+            .max(10)
+            .optional()
+            .default(10)
+            .describe(
+              "Number of chats to fetch per API page (min: 1, max: 10). Defaults to 10. Pages are followed automatically up to max_entries."
+            ),
+          max_entries: z
+            .number()
+            .min(1)
+            .max(1000)
+            .optional()
+            .default(50)
+            .describe(
+              "Maximum total number of chats to return across all pages (min: 1, max: 1000). Defaults to 50. If more chats remain, a nextCursor is reported."
+            ),
+          account: accountParam,
+        },
+        outputSchema: ChatListOutputSchema.shape,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      this.withCallNotices(
+        async ({ scheduled, max_entries, account, ...params }) => {
+          const client = this.forAccount(account);
+          const response = await client.getAllChats(
+            { ...params, is_scheduled: scheduled },
+            { maxEntries: max_entries }
+          );
+          const structuredContent = chatListOutput(response);
+
+          if (response.data.chats.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: "No chats found for the specified criteria.",
+                },
+              ],
+              structuredContent,
+            };
+          }
+
+          let formattedOutput = formatChatList(
+            scheduled ? "Daily Insights" : "Chats",
+            response.data.chats,
+            client.timezone
+          );
+          if (response.meta?.chats.nextCursor) {
+            formattedOutput += `💡 More chats available. Pass cursor "${response.meta.chats.nextCursor}" to continue (nextCursor).\n`;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formattedOutput,
+              },
+            ],
+            structuredContent,
+          };
         }
+      )
+    );
+
+    // Tool to read one chat with its messages
+    server.registerTool(
+      "getChat",
+      {
+        description:
+          "Retrieve an AI chat or daily insight from the Limitless app by its ID, with every message, who wrote it (you or the assistant) and when.",
+        inputSchema: {
+          chat_id: z
+            .string()
+            .min(1)
+            .describe(
+              "The unique identifier of the chat to retrieve, as returned by listChats."
+            ),
+          account: accountParam,
+        },
+        outputSchema: ChatOutputSchema.shape,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      this.withCallNotices(async ({ chat_id, account }) => {
+        const client = this.forAccount(account);
+        const chat = await client.getChat(chat_id);
+        const structuredContent: ChatOutput = { chat };
 
         return {
           content: [
             {
               type: "text",
-              text: formattedOutput,
+              text: formatChat(chat, client.timezone),
             },
           ],
+          structuredContent,
         };
-      }
+      })
     );
 
-    // Tool to get a specific lifelog entry
+    // Tool to export lifelogs as archivable files
     server.tool(
-      "getLifelogEntry",
-      "Retrieve a specific lifelog entry by its ID. Get detailed information about a particular recorded moment from your Limitless AI pendant.",
+      "exportLifelogs",
+      "Export lifelogs from a date range or a list of IDs as Markdown, normalized JSON, CSV (one row per content item), or SRT/WebVTT subtitles. The export is returned as an embedded resource, or written to the configured export directory.",
       {
-        lifelog_id: z
+        date_from: z
+          .string()
+          .optional()
+          .describe(
+            "Start date of the range to export in YYYY-MM-DD format (e.g., '2025-11-01'). Required unless ids is given."
+          ),
+        date_to: z
           .string()
+          .optional()
+          .describe(
+            "End date of the range to export in YYYY-MM-DD format (e.g., '2025-11-07'). Defaults to today."
+          ),
+        timezone: timeZoneParam
+          .optional()
+          .describe(
+            "IANA timezone for day boundaries (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
+          ),
+        ids: z
+          .array(z.string().min(1))
+          .optional()
+          .describe(
+            "Specific lifelog IDs to export, in order. Takes precedence over the date range."
+          ),
+        format: ExportFormatSchema.optional()
+          .default("markdown")
+          .describe(
+            "Export format: 'markdown', 'json', 'csv', 'srt' or 'vtt'. Subtitle formats use each item's recording offsets. Defaults to 'markdown'."
+          ),
+        destination: z
+          .enum(["inline", "file"])
+          .optional()
+          .default("inline")
+          .describe(
+            "'inline' returns the export as an embedded resource; 'file' writes it to the configured export directory. Defaults to 'inline'."
+          ),
+        max_entries: z
+          .number()
           .min(1)
+          .max(1000)
+          .optional()
+          .default(200)
           .describe(
-            "The unique identifier of the lifelog entry to retrieve (e.g., 'lifelog_abc123xyz'). This ID is returned in the results from getLifelogs or searchLifelogs tools."
+            "Maximum number of lifelog entries to export from a date range (min: 1, max: 1000). Defaults to 200."
           ),
+        account: accountParam,
       },
       {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
-      async ({ lifelog_id }) => {
-        const entry = await this.getLifelog(lifelog_id);
-
-        let formattedOutput = `## ${entry.title}\n\n`;
-        formattedOutput += `**ID:** ${entry.id}\n`;
-        formattedOutput += `**Time:** ${new Date(entry.startTime).toLocaleString()} - ${new Date(entry.endTime).toLocaleString()}\n`;
-        formattedOutput += `**Duration:** ${Math.round((new Date(entry.endTime).getTime() - new Date(entry.startTime).getTime()) / 60000)} minutes\n`;
-
-        if (entry.isStarred) {
-          formattedOutput += "⭐ **Starred**\n";
-        }
-
-        if (entry.updatedAt) {
-          formattedOutput += `**Last Updated:** ${new Date(entry.updatedAt).toLocaleString()}\n`;
-        }
-
-        formattedOutput += "\n### Content:\n\n";
+      this.withCallNotices(
+        async ({ format, destination, max_entries, account, ...source }) => {
+          const client = this.forAccount(account);
+          const exported = await client.exportLifelogs(source, format, {
+            maxEntries: max_entries,
+          });
 
-        // Format the content items
-        for (const item of entry.contents) {
-          if (item.type === "heading1") {
-            formattedOutput += `# ${item.content}\n\n`;
-          } else if (item.type === "heading2") {
-            formattedOutput += `## ${item.content}\n\n`;
-          } else if (item.type === "blockquote") {
-            const speaker = item.speakerName || "Unknown";
-            const time = item.startTime
-              ? new Date(item.startTime).toLocaleTimeString()
-              : "";
-            formattedOutput += `> **${speaker}** ${time}: ${item.content}\n\n`;
-          } else {
-            formattedOutput += `${item.content}\n\n`;
+          if (destination === "file") {
+            const path = await client.writeExport(exported);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Exported ${exported.count} lifelog entries as ${format} to ${path}`,
+                },
+              ],
+            };
           }
-        }
 
-        if (entry.markdown) {
-          formattedOutput += `\n### Full Markdown:\n\n${entry.markdown}\n`;
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Exported ${exported.count} lifelog entries as ${format} (${exported.filename}).`,
+              },
+              {
+                type: "resource",
+                resource: {
+                  uri: `limitless://exports/${exported.filename}`,
+                  mimeType: exported.mimeType,
+                  text: exported.content,
+                },
+              },
+            ],
+          };
         }
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: formattedOutput,
-            },
-          ],
-        };
-      }
+      )
     );
 
-    // Tool to search lifelog entries
+    // Tool to download the audio behind a lifelog or a moment in it
     server.tool(
-      "searchLifelogs",
-      "Search through your lifelog entries from Limitless AI. Find specific conversations, topics, or moments by searching through the content and summaries of your recorded activities.",
+      "getLifelogAudio",
+      "Download the pendant audio behind a lifelog, one of its content items (e.g. a single quote, using a contentIndex from getLifelogEntry, searchLifelogs or getSpeakerUtterances), or an explicit time window of up to 2 hours. The Ogg Opus audio is returned as an embedded blob resource, or saved to the configured audio directory.",
       {
-        query: z
+        lifelog_id: z
           .string()
           .min(1)
+          .optional()
           .describe(
-            "Search query text to find in lifelog titles, summaries, and conversation content. Supports keywords, names, topics (e.g., 'project meeting', 'John Smith', 'budget discussion'). Search is case-insensitive."
+            "ID of the lifelog whose audio to download. Required unless start_time and end_time are given."
           ),
-        date_from: z
-          .string()
+        content_index: z
+          .number()
+          .int()
+          .min(0)
           .optional()
           .describe(
-            "Start date to limit search range in YYYY-MM-DD format (e.g., '2025-11-01'). Only entries from this date onwards will be searched. If omitted, searches all historical entries."
+            "Index of a content item in the lifelog, 0-based; only that item's audio is downloaded. Requires lifelog_id."
           ),
-        date_to: z
-          .string()
+        padding_ms: z
+          .number()
+          .int()
+          .min(0)
+          .max(60000)
           .optional()
+          .default(0)
           .describe(
-            "End date to limit search range in YYYY-MM-DD format (e.g., '2025-11-05'). Only entries up to this date will be searched. If omitted, searches up to present day."
+            "Extra audio before and after a content item, in milliseconds, kept within the lifelog (min: 0, max: 60000). Defaults to 0."
           ),
-        timezone: z
+        start_time: z
           .string()
           .optional()
           .describe(
-            "IANA timezone for date range filtering (e.g., 'America/Los_Angeles', 'Europe/Paris', 'Asia/Singapore'). Affects interpretation of date_from and date_to. Defaults to UTC."
+            "Start of an explicit window, as an ISO 8601 date-time (e.g., '2025-11-05T09:30:00'). Times without an offset are read in the timezone."
           ),
-        cursor: z
+        end_time: z
           .string()
           .optional()
           .describe(
-            "Pagination cursor from previous search response. Use this to load more results beyond the limit. Found in meta.lifelogs.next_cursor of the previous response."
+            "End of an explicit window, as an ISO 8601 date-time (e.g., '2025-11-05T09:45:00'). At most 2 hours after start_time."
           ),
-        limit: z
-          .number()
-          .min(1)
-          .max(10)
+        timezone: timeZoneParam
+          .optional()
+          .describe(
+            "IANA timezone for start_time and end_time and displayed times (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
+          ),
+        destination: z
+          .enum(["inline", "file"])
           .optional()
-          .default(10)
+          .default("inline")
           .describe(
-            "Maximum number of matching entries to return (minimum: 1, maximum: 10). Defaults to 10. For more results, use the cursor parameter with subsequent requests."
+            "'inline' returns the audio as an embedded resource; 'file' saves it to the configured audio directory. Defaults to 'inline'."
           ),
+        account: accountParam,
       },
       {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
-      async (params) => {
-        const response = await this.searchLifelogs(params);
+      this.withCallNotices(
+        async ({
+          lifelog_id,
+          content_index,
+          padding_ms,
+          start_time,
+          end_time,
+          timezone,
+          destination,
+          account,
+        }) => {
+          const client = this.forAccount(account);
+          const timeZone = timezone ?? client.timezone;
+
+          let window: AudioWindow;
+          let label: string;
+          if (lifelog_id) {
+            const entry = await client.getLifelog(lifelog_id);
+            window = lifelogAudioWindow(entry, content_index, padding_ms);
+            label =
+              content_index === undefined
+                ? `"${entry.title}"`
+                : `item ${content_index} of "${entry.title}"`;
+          } else if (start_time && end_time) {
+            if (content_index !== undefined) {
+              throw new Error("content_index requires lifelog_id");
+            }
+            window = {
+              start: zonedTimeToUtc(start_time, timeZone),
+              end: zonedTimeToUtc(end_time, timeZone),
+            };
+            label = "the requested window";
+          } else {
+            throw new Error(
+              "Either lifelog_id or both start_time and end_time are required to download audio"
+            );
+          }
+          if (window.end.getTime() - window.start.getTime() > MAX_AUDIO_MS) {
+            throw new Error(
+              `The audio of ${label} is longer than 2 hours, the most one download can cover. Pass start_time and end_time to download it in parts, or a content_index for a single moment.`
+            );
+          }
+
+          const audio = await client.getLifelogAudio(window);
+          const filename = audioFilename(window, {
+            lifelogId: lifelog_id,
+            contentIndex: content_index,
+          });
+          const summary = `audio of ${label} (${dateInZone(window.start, timeZone)} ${formatTimeOfDay(window.start, timeZone)} to ${formatTimeOfDay(window.end, timeZone)} ${timeZone}, ${formatDuration(window.end.getTime() - window.start.getTime())}, ${formatBytes(audio.data.length)})`;
+
+          if (destination === "file") {
+            const path = await client.writeAudio(audio, filename);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Saved ${summary} to ${path}`,
+                },
+              ],
+            };
+          }
 
-        if (response.data.lifelogs.length === 0) {
           return {
             content: [
               {
                 type: "text",
-                text: `No lifelog entries found matching "${params.query}".`,
+                text: `Downloaded ${summary} as ${filename}.`,
+              },
+              {
+                type: "resource",
+                resource: {
+                  uri: `limitless://audio/${filename}`,
+                  mimeType: audio.mimeType,
+                  blob: audio.data.toString("base64"),
+                },
               },
             ],
           };
         }
+      )
+    );
 
-        let formattedOutput = `Found ${response.data.lifelogs.length} lifelog entries matching "${params.query}":\n\n`;
+    // Tool to warm the on-disk cache, only available when it is configured
+    if (this.cache) {
+      server.tool(
+        "syncLifelogs",
+        "Sync lifelog entries for a date range into the local on-disk cache. Only days that have not been synced since they settled (or for a week), plus recent activity, are fetched from the Limitless API unless force is set.",
+        {
+          date_from: z
+            .string()
+            .describe(
+              "First date to sync in YYYY-MM-DD format (e.g., '2025-11-01')."
+            ),
+          date_to: z
+            .string()
+            .optional()
+            .describe(
+              "Last date to sync in YYYY-MM-DD format (e.g., '2025-11-05'). Defaults to today."
+            ),
+          timezone: timeZoneParam
+            .optional()
+            .describe(
+              "IANA timezone used for day boundaries (e.g., 'America/Los_Angeles'). Defaults to the server's configured timezone."
+            ),
+          force: z
+            .boolean()
+            .optional()
+            .default(false)
+            .describe(
+              "Refetch the whole range even where it is already cached, e.g. to pick up titles or speakers edited or entries deleted in the Limitless app. Defaults to false."
+            ),
+          account: accountParam,
+        },
+        {
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+        this.withCallNotices(
+          async ({ date_from, date_to, timezone, force, account }) => {
+            const client = this.forAccount(account);
+            const timeZone = timezone ?? client.timezone;
+            const start = zonedTimeToUtc(date_from, timeZone);
+            const end = date_to
+              ? zonedTimeToUtc(addDays(date_to, 1), timeZone)
+              : new Date();
+            const result = await client.syncLifelogs(start, end, { force });
 
-        for (const entry of response.data.lifelogs) {
-          formattedOutput += `## ${entry.title}\n`;
-          formattedOutput += `**ID:** ${entry.id}\n`;
-          formattedOutput += `**Time:** ${new Date(entry.startTime).toLocaleString()} - ${new Date(entry.endTime).toLocaleString()}\n`;
+            let formattedOutput = `Synced lifelogs from ${date_from} to ${date_to ?? "now"}:\n\n`;
+            formattedOutput += `- **Windows fetched:** ${result.fetchedWindows}\n`;
+            formattedOutput += `- **Added:** ${result.added}\n`;
+            formattedOutput += `- **Updated:** ${result.updated}\n`;
+            formattedOutput += `- **Removed:** ${result.removed}\n`;
+            if (result.fetchedWindows === 0) {
+              formattedOutput +=
+                "\n💡 Everything in this range was already cached.\n";
+            }
 
-          // Show relevant excerpt from contents
-          const query = params.query.toLowerCase();
-          const matchingItems = entry.contents.filter((item) =>
-            item.content.toLowerCase().includes(query)
-          );
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: formattedOutput,
+                },
+              ],
+            };
+          }
+        )
+      );
+    }
 
-          if (matchingItems.length > 0) {
-            formattedOutput += "\n**Matching excerpts:**\n";
-            for (const item of matchingItems.slice(0, 3)) {
-              // Show up to 3 matches
-              if (item.type === "blockquote") {
-                const speaker = item.speakerName || "Unknown";
-                formattedOutput += `> **${speaker}**: ${item.content}\n`;
-              } else {
-                formattedOutput += `> ${item.content}\n`;
-              }
-            }
-            if (matchingItems.length > 3) {
-              formattedOutput += `> ... and ${matchingItems.length - 3} more matches\n`;
+    // Tools that change lifelogs, only available when writes are enabled
+    if (this.config.allowWrites) {
+      server.tool(
+        "starLifelog",
+        "Star or unstar a lifelog entry, e.g. to curate your starred moments after reviewing a day. Use dry_run to check which entry would change without changing it.",
+        {
+          lifelog_id: z
+            .string()
+            .min(1)
+            .describe(
+              "The unique identifier of the lifelog entry to star or unstar, as returned by getLifelogs or searchLifelogs."
+            ),
+          starred: z
+            .boolean()
+            .optional()
+            .default(true)
+            .describe("true to star the entry, false to unstar it."),
+          dry_run: z
+            .boolean()
+            .optional()
+            .default(false)
+            .describe(
+              "Report what would change without changing anything. Defaults to false."
+            ),
+          account: accountParam,
+        },
+        {
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+        this.withCallNotices(
+          async ({ lifelog_id, starred, dry_run, account }) => {
+            const client = this.forAccount(account);
+            // The cached copy may predate a change made elsewhere
+            const entry = await client.getLifelog(lifelog_id, { fresh: true });
+            const action = starred ? "star" : "unstar";
+            const described = `"${entry.title}" (${formatDateTime(entry.startTime, client.timezone)}, ID ${entry.id})`;
+
+            let formattedOutput: string;
+            if (Boolean(entry.isStarred) === starred) {
+              formattedOutput = `${described} is already ${starred ? "starred" : "unstarred"}. Nothing to change.
+`;
+            } else if (dry_run) {
+              formattedOutput = `🧪 Dry run: would ${action} ${described}. Nothing was changed.
+`;
+            } else {
+              await client.setLifelogStarred(entry.id, starred);
+              formattedOutput = `${starred ? "⭐ Starred" : "Unstarred"} ${described}.
+`;
             }
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: formattedOutput,
+                },
+              ],
+            };
           }
+        )
+      );
 
-          formattedOutput += "\n---\n\n";
-        }
+      server.tool(
+        "deleteLifelog",
+        "Permanently delete a lifelog entry from your Limitless account. This cannot be undone. Use dry_run to check which entry would be deleted first.",
+        {
+          lifelog_id: z
+            .string()
+            .min(1)
+            .describe(
+              "The unique identifier of the lifelog entry to delete, as returned by getLifelogs or searchLifelogs."
+            ),
+          dry_run: z
+            .boolean()
+            .optional()
+            .default(false)
+            .describe(
+              "Report what would be deleted without deleting anything. Defaults to false."
+            ),
+          account: accountParam,
+        },
+        {
+          readOnlyHint: false,
+          destructiveHint: true,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+        this.withCallNotices(async ({ lifelog_id, dry_run, account }) => {
+          const client = this.forAccount(account);
+          const entry = await client.getLifelog(lifelog_id, { fresh: true });
+          const described = `"${entry.title}" (${formatDateTime(entry.startTime, client.timezone)}, ID ${entry.id})`;
 
-        if (
-          response.meta &&
-          response.data.lifelogs.length < response.meta.lifelogs.count
-        ) {
-          formattedOutput += `💡 Showing ${response.data.lifelogs.length} of ${response.meta.lifelogs.count} matching entries.\n`;
+          let formattedOutput: string;
+          if (dry_run) {
+            formattedOutput = `🧪 Dry run: would permanently delete ${described}. Nothing was changed.
+`;
+          } else {
+            await client.deleteLifelog(entry.id);
+            formattedOutput = `🗑️ Deleted ${described}.
+`;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formattedOutput,
+              },
+            ],
+          };
+        })
+      );
+    }
+
+    // Tool to list the configured accounts, without their keys
+    server.tool(
+      "listAccounts",
+      "List the Limitless accounts this server is configured with. Pass an account name as the account parameter of other tools to query it instead of the default account.",
+      {},
+      {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+      async () => {
+        let formattedOutput = `Configured accounts (${this.accounts.size}):\n\n`;
+        for (const [name, client] of this.accounts) {
+          formattedOutput += `## ${name}${name === this.accountName ? " (default)" : ""}\n`;
+          formattedOutput += `**API:** ${client.baseUrl}\n`;
+          formattedOutput += `**Timezone:** ${client.timezone}\n`;
+          formattedOutput += `**Cache:** ${client.cache ? "enabled" : "disabled"}\n\n`;
+        }
+        if (this.accounts.size > 1) {
+          formattedOutput += `💡 Use account "${ALL_ACCOUNTS}" with getLifelogs or searchLifelogs to merge results from every account.\n`;
         }
 
         return {
@@ -799,3 +4042,593 @@ export class LimitlessClient {
     );
   }
 }
+
+/**
+ * Resolve list params to the absolute time window they cover, if any
+ */
+function lifelogWindow(
+  params: Partial<ListLifelogsParams>
+): { start: Date; end: Date } | undefined {
+  const timeZone = params.timezone ?? "UTC";
+  // Allow bare times ("09:00:00") relative to the requested date
+  const withDate = (time: string) =>
+    params.date && /^\d{2}:\d{2}/.test(time) ? `${params.date}T${time}` : time;
+
+  try {
+    if (params.start_time) {
+      return {
+        start: zonedTimeToUtc(withDate(params.start_time), timeZone),
+        end: params.end_time
+          ? zonedTimeToUtc(withDate(params.end_time), timeZone)
+          : new Date(),
+      };
+    }
+    if (params.date) {
+      return {
+        start: zonedTimeToUtc(params.date, timeZone),
+        end: zonedTimeToUtc(addDays(params.date, 1), timeZone),
+      };
+    }
+  } catch {
+    // Unparseable filters are passed through to the API untouched
+  }
+  return undefined;
+}
+
+/**
+ * Convert an inclusive YYYY-MM-DD date range into start/end time filters
+ */
+function dateRangeParams(
+  dateFrom?: string,
+  dateTo?: string
+): Pick<ListLifelogsParams, "start_time" | "end_time"> {
+  return {
+    start_time: dateFrom ? `${dateFrom}T00:00:00` : undefined,
+    end_time: dateTo ? `${dateTo}T23:59:59` : undefined,
+  };
+}
+
+/**
+ * Whether a multi-page response stopped before covering everything
+ */
+function isTruncated(response: ListLifelogsResponse): boolean {
+  return Boolean(
+    response.meta &&
+      (response.meta.lifelogs.nextCursor ||
+        response.meta.lifelogs.count > response.data.lifelogs.length)
+  );
+}
+
+/**
+ * Format a duration as a compact "1h 5m" / "3m 20s" string
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * Format a byte count as "512 B", "48 KB" or "3.2 MB"
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Format a millisecond offset into a recording as m:ss or h:mm:ss
+ */
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Heading2 topics of a lifelog, in order
+ */
+function lifelogTopics(entry: LifelogEntry): string[] {
+  return entry.contents
+    .filter((item) => item.type === "heading2")
+    .map((item) => item.content);
+}
+
+/**
+ * Structured tool output for a list of lifelogs, without their contents
+ */
+function lifelogListOutput(
+  response: ListLifelogsResponse,
+  accounts?: string[]
+): LifelogListOutput {
+  return {
+    lifelogs: response.data.lifelogs.map((entry, i) => ({
+      id: entry.id,
+      account: accounts?.[i],
+      title: entry.title,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      isStarred: entry.isStarred,
+      updatedAt: entry.updatedAt,
+      topics: lifelogTopics(entry),
+    })),
+    total: response.meta?.lifelogs.count ?? response.data.lifelogs.length,
+    nextCursor: response.meta?.lifelogs.nextCursor ?? null,
+  };
+}
+
+/**
+ * Structured tool output for a list of chats, without their messages
+ */
+function chatListOutput(response: ListChatsResponse): ChatListOutput {
+  return {
+    chats: response.data.chats.map((chat) => ({
+      id: chat.id,
+      summary: chat.summary,
+      createdAt: chat.createdAt,
+      startedAt: chat.startedAt,
+      messageCount: chat.messages.length,
+      lastMessageAt: chat.messages[chat.messages.length - 1]?.createdAt ?? null,
+    })),
+    total: response.data.chats.length,
+    nextCursor: response.meta?.chats.nextCursor ?? null,
+  };
+}
+
+/**
+ * Comma-separated counts of what was redacted, empty when nothing was
+ */
+function formatRedactionAudit(audit: RedactionAudit): string {
+  const labels: Record<keyof RedactionAudit, [string, string]> = {
+    email: ["email address", "email addresses"],
+    phone: ["phone number", "phone numbers"],
+    card: ["card number", "card numbers"],
+    ssn: ["SSN", "SSNs"],
+    iban: ["IBAN", "IBANs"],
+    address: ["street address", "street addresses"],
+    pattern: ["custom pattern match", "custom pattern matches"],
+    keyword: ["keyword", "keywords"],
+    speaker: ["speaker name", "speaker names"],
+    item: ["content item dropped", "content items dropped"],
+  };
+  return (Object.keys(labels) as (keyof RedactionAudit)[])
+    .filter((category) => audit[category])
+    .map((category) => {
+      const count = audit[category] ?? 0;
+      return `${count} ${labels[category][count === 1 ? 0 : 1]}`;
+    })
+    .join(", ");
+}
+
+/**
+ * Markdown rendering of a lifelog entry with one chunk of its transcript,
+ * the whole of its contents when no chunk is given
+ */
+function formatLifelogEntry(
+  entry: LifelogEntry,
+  timeZone: string,
+  chunk: TranscriptChunk = chunkTranscript(
+    transcriptUnits(entry, "contents", (item) =>
+      formatContentItem(item, timeZone)
+    ),
+    { format: "contents" }
+  )
+): string {
+  let output = `## ${entry.title}\n\n`;
+  output += `**ID:** ${entry.id}\n`;
+  output += `**Time:** ${formatDateTime(entry.startTime, timeZone)} - ${formatDateTime(entry.endTime, timeZone)}\n`;
+  output += `**Duration:** ${Math.round((new Date(entry.endTime).getTime() - new Date(entry.startTime).getTime()) / 60000)} minutes\n`;
+
+  if (entry.isStarred) {
+    output += "⭐ **Starred**\n";
+  }
+
+  if (entry.updatedAt) {
+    output += `**Last Updated:** ${formatDateTime(entry.updatedAt, timeZone)}\n`;
+  }
+
+  const { info, units } = chunk;
+  if (info.count > 1 || info.offset > 0) {
+    output += `**Chunk:** ${info.index + 1} of ${info.count} (items ${info.start + 1}-${info.end} of ${info.totalItems})\n`;
+  }
+
+  const items = units.filter((unit) => unit.item);
+  const blocks = units.filter((unit) => !unit.item);
+  if (items.length > 0) {
+    output += "\n### Content:\n\n";
+    output += items.map((unit) => `${unit.text}\n\n`).join("");
+  }
+  if (blocks.length > 0) {
+    const heading = {
+      contents: "Content",
+      markdown: "Markdown",
+      both: "Full Markdown",
+    };
+    output += `\n### ${heading[info.format]}:\n\n`;
+    output += blocks.map((unit) => `${unit.text}\n\n`).join("");
+  }
+
+  return output;
+}
+
+/**
+ * Markdown line for one content item of a transcript
+ */
+function formatContentItem(item: LifelogContentItem, timeZone: string): string {
+  if (item.type === "heading1") {
+    return `# ${item.content}`;
+  }
+  if (item.type === "heading2") {
+    return `## ${item.content}`;
+  }
+  if (item.type === "blockquote") {
+    const speaker = item.speakerName || "Unknown";
+    const time = item.startTime
+      ? formatTimeOfDay(item.startTime, timeZone)
+      : "";
+    return `> **${speaker}** ${time}: ${item.content}`;
+  }
+  return item.content;
+}
+
+/**
+ * Markdown rendering of a daily digest for the tool and resource
+ */
+function formatDailyDigest(digest: DailyDigest): string {
+  const timeZone = digest.timezone;
+  const span = (entry: { startTime: string; endTime: string }) =>
+    `${formatTimeOfDay(entry.startTime, timeZone)} - ${formatTimeOfDay(entry.endTime, timeZone)}`;
+
+  let output = `# Daily Digest for ${digest.date}\n\n`;
+  output += `- **Recorded:** ${formatMinutes(digest.totalMinutes)} across ${digest.lifelogCount} lifelogs\n`;
+  output += `- **Conversations:** ${digest.conversationCount}\n`;
+  if (digest.longestConversation) {
+    const longest = digest.longestConversation;
+    output += `- **Longest conversation:** ${longest.title} (${formatMinutes(longest.durationMinutes)}, ${span(longest)})\n`;
+  }
+
+  if (digest.timeline.length > 0) {
+    output += "\n## Timeline\n\n| Time | Title | Duration |\n|---|---|---|\n";
+    for (const entry of digest.timeline) {
+      output += `| ${span(entry)} | ${entry.isStarred ? "⭐ " : ""}${entry.title} | ${formatMinutes(entry.durationMinutes)} |\n`;
+    }
+  }
+
+  if (digest.topSpeakers.length > 0) {
+    output +=
+      "\n## Top Speakers\n\n| Speaker | Talk time | Utterances | Conversations |\n|---|---|---|---|\n";
+    for (const speaker of digest.topSpeakers) {
+      output += `| ${speaker.speakerName} | ${formatDuration(speaker.talkTimeMs)} | ${speaker.utterances} | ${speaker.conversations} |\n`;
+    }
+  }
+
+  if (digest.topics.length > 0) {
+    output += `\n## Topics\n\n${digest.topics.map((topic) => `• ${topic}`).join("\n")}\n`;
+  }
+
+  if (digest.starred.length > 0) {
+    output += "\n## Starred Moments\n\n";
+    for (const entry of digest.starred) {
+      output += `- ${formatTimeOfDay(entry.startTime, timeZone)} **${entry.title}** (${entry.lifelogId})\n`;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Markdown rendering of conversation analytics
+ */
+function formatConversationAnalysis(
+  heading: string,
+  analysis: ConversationAnalysis,
+  timeZone: string
+): string {
+  let output = `# ${heading}\n\n`;
+  output += `- **Lifelogs:** ${analysis.lifelogCount}\n`;
+  output += `- **Talk time:** ${formatDuration(analysis.totalTalkTimeMs)}\n`;
+  output += `- **Overlaps:** ${analysis.overlapCount} (${formatDuration(analysis.totalOverlapMs)})\n`;
+  output += `- **Interruptions:** ${analysis.interruptionCount}\n`;
+  const monologue = analysis.longestMonologue;
+  if (monologue && monologue.durationMs > 0) {
+    output += `- **Longest monologue:** ${monologue.speakerName}, ${formatDuration(monologue.durationMs)} (${monologue.words} words) in "${monologue.lifelogTitle}" at ${formatDateTime(monologue.startTime, timeZone)}\n`;
+  }
+
+  output +=
+    "\n| Speaker | Talk time | Share | Turns | Avg turn | Words/min | Interrupted others | Was interrupted |\n";
+  output += "|---|---|---|---|---|---|---|---|\n";
+  for (const speaker of analysis.speakers) {
+    output += `| ${speaker.speakerName} | ${formatDuration(speaker.talkTimeMs)} | ${speaker.talkTimePercent}% | ${speaker.turns} | ${formatDuration(speaker.averageTurnMs)} | ${speaker.wordsPerMinute ?? "-"} | ${speaker.interruptionsMade} | ${speaker.interruptionsReceived} |\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Markdown tables of topic trends
+ */
+function formatTopicTrends(trends: TopicTrends): string {
+  const list = (topics: { topic: string; count: number }[]) =>
+    topics.map((topic) => `${topic.topic} (${topic.count})`).join(", ") || "-";
+
+  let output = `# Topic Trends from ${trends.from} to ${trends.to}\n\n`;
+  output += `**Lifelogs:** ${trends.lifelogCount}\n\n`;
+  output += `**Top topics:** ${list(trends.overall)}\n\n`;
+
+  output += `## Top Topics by ${trends.granularity === "week" ? "Week" : "Day"}\n\n`;
+  output += "| Period | Lifelogs | Topics |\n|---|---|---|\n";
+  for (const period of trends.periods) {
+    output += `| ${period.period} | ${period.lifelogCount} | ${list(period.topics)} |\n`;
+  }
+
+  if (trends.prior) {
+    output += `\n## Changes vs. ${trends.prior.from} to ${trends.prior.to} (${trends.prior.lifelogCount} lifelogs)\n\n`;
+    if (trends.rising.length === 0 && trends.declining.length === 0) {
+      output += "No topics rose or declined noticeably.\n";
+    } else {
+      output += "| Topic | Trend | Mentions | Before |\n|---|---|---|---|\n";
+      for (const topic of trends.rising) {
+        output += `| ${topic.topic} | ↑ rising | ${topic.count} | ${topic.priorCount} |\n`;
+      }
+      for (const topic of trends.declining) {
+        output += `| ${topic.topic} | ↓ declining | ${topic.count} | ${topic.priorCount} |\n`;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Markdown rendering of a date range comparison
+ */
+function formatDateRangeComparison(comparison: DateRangeComparison): string {
+  const { first, second, topics } = comparison;
+  const label = (range: { from: string; to: string }) =>
+    range.from === range.to ? range.from : `${range.from} to ${range.to}`;
+  const change = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+  const list = (values: string[]) => values.join(", ") || "-";
+  const speakers = (values: SpeakerSummary[]) =>
+    values
+      .map(
+        (speaker) =>
+          `${speaker.speakerName} (${formatDuration(speaker.talkTimeMs)})`
+      )
+      .join(", ") || "-";
+
+  let output = `# ${label(first)} vs. ${label(second)}\n\n`;
+  output += `| | ${label(first)} | ${label(second)} | Change |\n|---|---|---|---|\n`;
+  output += `| Recorded | ${formatMinutes(first.recordedMinutes)} | ${formatMinutes(second.recordedMinutes)} | ${change(comparison.recordedMinutesChange)}m |\n`;
+  output += `| Conversations | ${first.conversationCount} | ${second.conversationCount} | ${change(comparison.conversationCountChange)} |\n`;
+  output += `| Lifelogs | ${first.lifelogCount} | ${second.lifelogCount} | ${change(second.lifelogCount - first.lifelogCount)} |\n`;
+  output += `| Speakers | ${first.speakerCount} | ${second.speakerCount} | ${change(second.speakerCount - first.speakerCount)} |\n`;
+
+  output += "\n## Speakers\n\n";
+  output += `- **In both:** ${list(comparison.sharedSpeakers)}\n`;
+  output += `- **Only in ${label(first)}:** ${speakers(comparison.speakersOnlyInFirst)}\n`;
+  output += `- **Only in ${label(second)}:** ${speakers(comparison.speakersOnlyInSecond)}\n`;
+
+  output += `\n## Topics\n\n**Overlap (Jaccard):** ${Math.round(topics.jaccard * 100)}%\n\n`;
+  output += `- **Shared:** ${list(topics.shared)}\n`;
+  output += `- **New:** ${list(topics.new)}\n`;
+  output += `- **Dropped:** ${list(topics.dropped)}\n`;
+
+  return output;
+}
+
+/**
+ * Markdown listing of starred lifelogs with their topics and key excerpts,
+ * under month headings when grouped by month
+ */
+function formatStarredLifelogs(starred: StarredLifelogs): string {
+  const timeZone = starred.timezone;
+  let output = "# Starred Lifelog Entries\n\n";
+  if (starred.from || starred.to) {
+    output += `**Range:** ${starred.from ?? "beginning"} to ${starred.to ?? "today"}\n`;
+  }
+  output += `**Starred:** ${starred.total}`;
+  if (starred.groupBy === "none" && starred.months.length > 1) {
+    output += ` (${starred.months.map((month) => `${month.month}: ${month.count}`).join(", ")})`;
+  }
+  output += "\n";
+
+  let month = "";
+  for (const moment of starred.moments) {
+    if (starred.groupBy === "month" && moment.month !== month) {
+      month = moment.month;
+      const count = starred.months.find((m) => m.month === month)?.count ?? 0;
+      output += `\n## ${month} (${count})\n`;
+    }
+    output += `\n${starred.groupBy === "month" ? "###" : "##"} ⭐ ${moment.title}\n`;
+    output += `**ID:** ${moment.lifelogId}\n`;
+    output += `**Time:** ${formatDateTime(moment.startTime, timeZone)} - ${formatDateTime(moment.endTime, timeZone)}\n`;
+    if (moment.topics.length > 0) {
+      output += `**Topics:** ${moment.topics.join(", ")}\n`;
+    }
+    if (moment.excerpt) {
+      const speaker = moment.excerpt.speakerName
+        ? `**${moment.excerpt.speakerName}:** `
+        : "";
+      output += `\n> ${speaker}${moment.excerpt.text}\n`;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Markdown listing of chats (summary, id, start and message count)
+ */
+function formatChatList(
+  heading: string,
+  chats: Chat[],
+  timeZone: string
+): string {
+  let content = `# ${heading}\n\n`;
+  content += `Found ${chats.length} chats:\n\n`;
+
+  for (const chat of chats) {
+    content += `## ${chat.summary || "Untitled chat"}\n`;
+    content += `**ID:** ${chat.id}\n`;
+    content += `**Started:** ${formatDateTime(chat.startedAt ?? chat.createdAt, timeZone)}\n`;
+    content += `**Messages:** ${chat.messages.length}`;
+    const last = chat.messages[chat.messages.length - 1];
+    if (last) {
+      content += ` (last ${formatDateTime(last.createdAt, timeZone)})`;
+    }
+    content += "\n\n";
+  }
+
+  return content;
+}
+
+/**
+ * Markdown transcript of a chat, one message per paragraph with its author
+ * and time
+ */
+function formatChat(chat: Chat, timeZone: string): string {
+  let content = `# ${chat.summary || "Untitled chat"}\n\n`;
+  content += `**ID:** ${chat.id}\n`;
+  content += `**Started:** ${formatDateTime(chat.startedAt ?? chat.createdAt, timeZone)}\n`;
+  content += `**Messages:** ${chat.messages.length}\n\n`;
+  content += "---\n\n";
+
+  for (const message of chat.messages) {
+    const author =
+      message.user.role === "assistant"
+        ? "Assistant"
+        : message.user.name || "You";
+    content += `**${author}** (${formatTimeOfDay(message.createdAt, timeZone)}):\n${message.text}\n\n`;
+  }
+
+  return content;
+}
+
+/**
+ * Markdown listing of lifelogs (title, id, time and star) for range
+ * resources
+ */
+function formatLifelogList(
+  heading: string,
+  entries: LifelogEntry[],
+  timeZone: string
+): string {
+  let content = `# ${heading}\n\n`;
+  content += `Found ${entries.length} entries:\n\n`;
+
+  for (const entry of entries) {
+    content += `## ${entry.title}\n`;
+    content += `**ID:** ${entry.id}\n`;
+    content += `**Time:** ${formatDateTime(entry.startTime, timeZone)} - ${formatDateTime(entry.endTime, timeZone)}\n`;
+    if (entry.isStarred) {
+      content += "**Status:** ⭐ Starred\n";
+    }
+    content += "\n";
+  }
+
+  return content;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Lifelogs from one or more accounts, tagged with the account each came
+ * from, plus the cursors of accounts that have more to fetch
+ */
+interface AccountResults<T extends ListLifelogsResponse> {
+  response: T;
+  accounts: string[];
+  cursors: { account: string; cursor: string }[];
+}
+
+/**
+ * Whether an API failure means it is unreachable or failing, rather than an
+ * answer such as a missing entry or an invalid key, so cached data may be
+ * served in its place
+ */
+function isUnavailable(error: unknown): boolean {
+  return (
+    error instanceof LimitlessNetworkError ||
+    (error instanceof LimitlessServerError && error.retryable)
+  );
+}
+
+/**
+ * A single account's response, tagged with its account
+ */
+function singleAccountResults<T extends ListLifelogsResponse>({
+  account,
+  response,
+}: {
+  account: string;
+  response: T;
+}): AccountResults<T> {
+  const cursor = response.meta?.lifelogs.nextCursor;
+  return {
+    response,
+    accounts: response.data.lifelogs.map(() => account),
+    cursors: cursor ? [{ account, cursor }] : [],
+  };
+}
+
+/**
+ * How many of `limit` rows account `index` of `count` may fetch for a
+ * merged response. Keeping the total within the limit means no fetched row
+ * is dropped, so every account resumes from its own cursor; each account
+ * still gets at least one.
+ */
+function accountShare(limit: number, count: number, index: number): number {
+  return Math.max(
+    1,
+    Math.floor(limit / count) + (index < limit % count ? 1 : 0)
+  );
+}
+
+/**
+ * Interleave the rows of per-account responses by `compare`, tagging each
+ * row with its account and collecting the cursors of accounts with more
+ * to fetch
+ */
+function mergeAccountRows<T extends ListLifelogsResponse, R>(
+  results: { account: string; response: T }[],
+  rowsOf: (response: T) => R[],
+  compare: (a: R, b: R) => number
+): { rows: R[]; accounts: string[]; cursors: AccountResults<T>["cursors"] } {
+  const tagged = results.flatMap(({ account, response }) =>
+    rowsOf(response).map((row) => ({ account, row }))
+  );
+  tagged.sort((a, b) => compare(a.row, b.row));
+  return {
+    rows: tagged.map(({ row }) => row),
+    accounts: tagged.map(({ account }) => account),
+    cursors: results.flatMap(({ account, response }) => {
+      const cursor = response.meta?.lifelogs.nextCursor;
+      return cursor ? [{ account, cursor }] : [];
+    }),
+  };
+}
+
+/**
+ * Hints to resume each account that stopped early in a merged response
+ */
+function formatAccountCursors(
+  cursors: { account: string; cursor: string }[]
+): string {
+  return cursors
+    .map(
+      ({ account, cursor }) =>
+        `💡 More entries available for account "${account}". Pass account "${account}" and cursor "${cursor}" to continue.\n`
+    )
+    .join("");
+}
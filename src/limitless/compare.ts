@@ -0,0 +1,90 @@
+import { addDays, toMinutes, zonedTimeToUtc } from "./dates.js";
+import { recordedMs } from "./digest.js";
+import { summarizeSpeakers } from "./speakers.js";
+import { compareTopics } from "./topics.js";
+import type {
+  DateRangeComparison,
+  DateRangeStats,
+  LifelogEntry,
+  SpeakerSummary,
+} from "./types.js";
+
+// Topics ranked per period before the two are compared
+const DEFAULT_TOP_TOPICS = 10;
+
+interface DateRange {
+  from: string;
+  to: string;
+  entries: LifelogEntry[];
+}
+
+/**
+ * Diff two inclusive date ranges: recorded minutes, conversations, who was
+ * only heard in one of them, and how their top topics overlap. Ranges may
+ * differ in length or overlap each other.
+ */
+export function compareDateRanges(
+  first: DateRange,
+  second: DateRange,
+  timeZone: string,
+  topTopics = DEFAULT_TOP_TOPICS
+): DateRangeComparison {
+  const firstSpeakers = summarizeSpeakers(first.entries);
+  const secondSpeakers = summarizeSpeakers(second.entries);
+  const names = (speakers: SpeakerSummary[]) =>
+    new Set(speakers.map((speaker) => speaker.speakerName));
+  const firstNames = names(firstSpeakers);
+  const secondNames = names(secondSpeakers);
+
+  const firstStats = rangeStats(first, timeZone, firstSpeakers.length);
+  const secondStats = rangeStats(second, timeZone, secondSpeakers.length);
+
+  return {
+    timezone: timeZone,
+    first: firstStats,
+    second: secondStats,
+    recordedMinutesChange:
+      secondStats.recordedMinutes - firstStats.recordedMinutes,
+    conversationCountChange:
+      secondStats.conversationCount - firstStats.conversationCount,
+    sharedSpeakers: firstSpeakers
+      .filter((speaker) => secondNames.has(speaker.speakerName))
+      .map((speaker) => speaker.speakerName),
+    speakersOnlyInFirst: firstSpeakers.filter(
+      (speaker) => !secondNames.has(speaker.speakerName)
+    ),
+    speakersOnlyInSecond: secondSpeakers.filter(
+      (speaker) => !firstNames.has(speaker.speakerName)
+    ),
+    topics: compareTopics(first.entries, second.entries, topTopics),
+  };
+}
+
+/**
+ * Totals for one range, with recordings clipped to its local day bounds
+ */
+function rangeStats(
+  range: DateRange,
+  timeZone: string,
+  speakerCount: number
+): DateRangeStats {
+  const rangeStart = zonedTimeToUtc(range.from, timeZone).getTime();
+  const rangeEnd = zonedTimeToUtc(addDays(range.to, 1), timeZone).getTime();
+  const intervals = range.entries.map((entry) => ({
+    start: Math.max(rangeStart, new Date(entry.startTime).getTime()),
+    end: Math.min(rangeEnd, new Date(entry.endTime).getTime()),
+  }));
+
+  return {
+    from: range.from,
+    to: range.to,
+    lifelogCount: range.entries.length,
+    recordedMinutes: toMinutes(recordedMs(intervals)),
+    conversationCount: range.entries.filter((entry) =>
+      entry.contents.some(
+        (item) => item.type === "blockquote" && Boolean(item.speakerName)
+      )
+    ).length,
+    speakerCount,
+  };
+}
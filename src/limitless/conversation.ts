@@ -0,0 +1,216 @@
+import type {
+  ConversationAnalysis,
+  LifelogContentItem,
+  LifelogEntry,
+  Monologue,
+  SpeakerTurnStats,
+} from "./types.js";
+
+interface Utterance {
+  speakerName: string;
+  words: number;
+  // Absolute times in ms, when the item carries offsets or timestamps
+  start?: number;
+  end?: number;
+}
+
+interface Turn {
+  speakerName: string;
+  words: number;
+  start?: number;
+  end?: number;
+  startTime: string;
+}
+
+/**
+ * Analyze turn-taking in lifelogs from their attributed blockquotes.
+ *
+ * A turn is a run of consecutive utterances by one speaker. An overlap is
+ * an utterance that starts before the speaker holding the floor has
+ * finished; it is an interruption when that speaker then stops first, and a
+ * backchannel ("mm-hm") otherwise. Overlaps are only looked for within a
+ * lifelog.
+ */
+export function analyzeConversation(
+  entries: LifelogEntry[]
+): ConversationAnalysis {
+  const stats = new Map<string, SpeakerTurnStats>();
+  const speaker = (speakerName: string) => {
+    let value = stats.get(speakerName);
+    if (!value) {
+      value = {
+        speakerName,
+        talkTimeMs: 0,
+        talkTimePercent: 0,
+        turns: 0,
+        averageTurnMs: 0,
+        words: 0,
+        wordsPerMinute: null,
+        interruptionsMade: 0,
+        interruptionsReceived: 0,
+        overlapMs: 0,
+      };
+      stats.set(speakerName, value);
+    }
+    return value;
+  };
+
+  let overlapCount = 0;
+  let totalOverlapMs = 0;
+  let interruptionCount = 0;
+  let longestMonologue: Monologue | null = null;
+
+  for (const entry of entries) {
+    const utterances = entry.contents.flatMap((item) =>
+      item.type === "blockquote" && item.speakerName
+        ? [toUtterance(entry, item, item.speakerName)]
+        : []
+    );
+    // Transcripts may list a short reply before the speech it overlaps, so
+    // fully timed conversations are replayed in the order speech started
+    if (utterances.every((utterance) => utterance.start !== undefined)) {
+      utterances.sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+    }
+
+    // The utterance holding the floor: the one that has run the longest
+    let floor: Utterance | undefined;
+    const turns: Turn[] = [];
+    for (const utterance of utterances) {
+      const current = speaker(utterance.speakerName);
+      current.words += utterance.words;
+      if (utterance.start !== undefined && utterance.end !== undefined) {
+        current.talkTimeMs += utterance.end - utterance.start;
+      }
+
+      const turn = turns[turns.length - 1];
+      if (turn && turn.speakerName === utterance.speakerName) {
+        turn.words += utterance.words;
+        turn.start ??= utterance.start;
+        if (utterance.end !== undefined) turn.end = utterance.end;
+      } else {
+        current.turns++;
+        turns.push({
+          speakerName: utterance.speakerName,
+          words: utterance.words,
+          start: utterance.start,
+          end: utterance.end,
+          startTime:
+            utterance.start !== undefined
+              ? new Date(utterance.start).toISOString()
+              : entry.startTime,
+        });
+      }
+
+      if (
+        floor?.end !== undefined &&
+        floor.speakerName !== utterance.speakerName &&
+        utterance.start !== undefined &&
+        utterance.end !== undefined &&
+        utterance.start < floor.end
+      ) {
+        const overlap = Math.min(floor.end, utterance.end) - utterance.start;
+        overlapCount++;
+        totalOverlapMs += overlap;
+        current.overlapMs += overlap;
+        if (utterance.end > floor.end) {
+          interruptionCount++;
+          current.interruptionsMade++;
+          speaker(floor.speakerName).interruptionsReceived++;
+        }
+      }
+      if (
+        utterance.end !== undefined &&
+        (floor?.end === undefined || utterance.end >= floor.end)
+      ) {
+        floor = utterance;
+      }
+    }
+
+    for (const turn of turns) {
+      const durationMs =
+        turn.start !== undefined && turn.end !== undefined
+          ? Math.max(0, turn.end - turn.start)
+          : 0;
+      if (!longestMonologue || durationMs > longestMonologue.durationMs) {
+        longestMonologue = {
+          speakerName: turn.speakerName,
+          lifelogId: entry.id,
+          lifelogTitle: entry.title,
+          startTime: turn.startTime,
+          durationMs,
+          words: turn.words,
+        };
+      }
+    }
+  }
+
+  const totalTalkTimeMs = [...stats.values()].reduce(
+    (total, value) => total + value.talkTimeMs,
+    0
+  );
+  const speakers = [...stats.values()]
+    .map((value) => ({
+      ...value,
+      talkTimePercent:
+        totalTalkTimeMs > 0
+          ? round((value.talkTimeMs / totalTalkTimeMs) * 100)
+          : 0,
+      averageTurnMs:
+        value.turns > 0 ? Math.round(value.talkTimeMs / value.turns) : 0,
+      wordsPerMinute:
+        value.talkTimeMs > 0
+          ? round(value.words / (value.talkTimeMs / 60000))
+          : null,
+    }))
+    .sort(
+      (a, b) =>
+        b.talkTimeMs - a.talkTimeMs ||
+        b.words - a.words ||
+        a.speakerName.localeCompare(b.speakerName)
+    );
+
+  return {
+    lifelogCount: entries.length,
+    totalTalkTimeMs,
+    speakers,
+    overlapCount,
+    totalOverlapMs,
+    interruptionCount,
+    longestMonologue,
+  };
+}
+
+/**
+ * Place an utterance on an absolute clock, preferring recording offsets
+ * from the lifelog's start over the item's own timestamps
+ */
+function toUtterance(
+  entry: LifelogEntry,
+  item: LifelogContentItem,
+  speakerName: string
+): Utterance {
+  const words = item.content.split(/\s+/).filter(Boolean).length;
+  if (item.startOffsetMs !== undefined && item.endOffsetMs !== undefined) {
+    const base = new Date(entry.startTime).getTime();
+    return {
+      speakerName,
+      words,
+      start: base + item.startOffsetMs,
+      end: base + Math.max(item.startOffsetMs, item.endOffsetMs),
+    };
+  }
+  if (item.startTime && item.endTime) {
+    const start = new Date(item.startTime).getTime();
+    return {
+      speakerName,
+      words,
+      start,
+      end: Math.max(start, new Date(item.endTime).getTime()),
+    };
+  }
+  return { speakerName, words };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
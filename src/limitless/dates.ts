@@ -0,0 +1,232 @@
+const LOCAL_DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Offset of a timezone from UTC at the given instant, in milliseconds
+ */
+export function timeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock date or date-time ("YYYY-MM-DD" or
+ * "YYYY-MM-DDTHH:mm[:ss]") in the given timezone to a UTC instant. Strings
+ * that already carry a "Z" or numeric offset are parsed as-is.
+ */
+export function zonedTimeToUtc(local: string, timeZone = "UTC"): Date {
+  const match = LOCAL_DATE_TIME.exec(local);
+  if (!match) {
+    const parsed = new Date(local);
+    if (Number.isNaN(parsed.getTime())) {
+      throw new Error(`Invalid date or time: ${local}`);
+    }
+    return parsed;
+  }
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second)
+  );
+
+  // Apply the offset at the guess, then correct once in case the guess and
+  // the result fall on different sides of a DST transition
+  const guess = wallClock - timeZoneOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - timeZoneOffsetMs(new Date(guess), timeZone));
+}
+
+/**
+ * Add whole calendar days to a YYYY-MM-DD date string
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .split("T")[0];
+}
+
+/**
+ * Whole calendar days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000
+  );
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant as seen in the given timezone
+ */
+export function dateInZone(instant: Date, timeZone = "UTC"): string {
+  const local = new Date(
+    instant.getTime() + timeZoneOffsetMs(instant, timeZone)
+  );
+  return local.toISOString().split("T")[0];
+}
+
+/**
+ * Wall-clock date and time (YYYY-MM-DDTHH:mm:ss) of an instant as seen in
+ * the given timezone
+ */
+export function localDateTime(instant: Date, timeZone = "UTC"): string {
+  const local = new Date(
+    instant.getTime() + timeZoneOffsetMs(instant, timeZone)
+  );
+  return local.toISOString().slice(0, 19);
+}
+
+/**
+ * Day of the week (0 = Sunday) of a YYYY-MM-DD date string
+ */
+export function dayOfWeek(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Whether a string names a timezone known to the runtime's IANA database
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Today's calendar date (YYYY-MM-DD) in the given timezone
+ */
+export function todayInZone(timeZone = "UTC", now = new Date()): string {
+  return dateInZone(now, timeZone);
+}
+
+/**
+ * Monday of the ISO week containing a YYYY-MM-DD date
+ */
+export function startOfWeek(date: string): string {
+  return addDays(date, -((dayOfWeek(date) + 6) % 7));
+}
+
+/**
+ * Format an instant as a readable date and time in the given timezone,
+ * e.g. "Jan 15, 2024, 9:00 AM PST"
+ */
+export function formatDateTime(time: string | Date, timeZone = "UTC"): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(new Date(time));
+}
+
+/**
+ * Format an instant as a time of day in the given timezone, e.g. "9:00:05 AM"
+ */
+export function formatTimeOfDay(time: string | Date, timeZone = "UTC"): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  }).format(new Date(time));
+}
+
+/**
+ * ISO 8601 week (YYYY-Www) containing a YYYY-MM-DD date. Weeks start on
+ * Monday and belong to the year of their Thursday.
+ */
+export function isoWeek(date: string): string {
+  const thursday = addDays(startOfWeek(date), 3);
+  const year = Number(thursday.slice(0, 4));
+  const dayOfYear =
+    (Date.parse(thursday) - Date.UTC(year, 0, 1)) / (24 * 60 * 60 * 1000);
+  const week = Math.floor(dayOfYear / 7) + 1;
+  return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * First and last calendar dates (Monday to Sunday) of an ISO week such as
+ * "2024-W03"
+ */
+export function isoWeekRange(week: string): { start: string; end: string } {
+  const match = /^(\d{4})-W(\d{2})$/.exec(week);
+  if (!match) {
+    throw new Error(`Invalid ISO week: ${week} (expected YYYY-Www)`);
+  }
+  const year = Number(match[1]);
+  const number = Number(match[2]);
+  // January 4th always falls in week 1
+  const start = addDays(startOfWeek(`${year}-01-04`), (number - 1) * 7);
+  if (number < 1 || isoWeek(start) !== week) {
+    throw new Error(`Invalid ISO week: ${week}`);
+  }
+  return { start, end: addDays(start, 6) };
+}
+
+/**
+ * First and last calendar dates of a month such as "2024-02"
+ */
+export function monthRange(month: string): { start: string; end: string } {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    throw new Error(`Invalid month: ${month} (expected YYYY-MM)`);
+  }
+  const lastDay = new Date(Date.UTC(Number(match[1]), Number(match[2]), 0));
+  return {
+    start: `${month}-01`,
+    end: lastDay.toISOString().split("T")[0],
+  };
+}
+
+/**
+ * Whether a string is a real calendar date in YYYY-MM-DD format
+ */
+export function isValidDate(date: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && addDays(date, 0) === date;
+}
+
+/**
+ * A duration in milliseconds, rounded to whole minutes
+ */
+export function toMinutes(ms: number): number {
+  return Math.round(ms / 60000);
+}
+
+/**
+ * Format whole minutes as "45m" or "1h 5m"
+ */
+export function formatMinutes(minutes: number): string {
+  return minutes >= 60
+    ? `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+    : `${minutes}m`;
+}
@@ -0,0 +1,107 @@
+import { addDays, toMinutes, zonedTimeToUtc } from "./dates.js";
+import { summarizeSpeakers } from "./speakers.js";
+import type {
+  DailyDigest,
+  DigestTimelineEntry,
+  LifelogEntry,
+} from "./types.js";
+
+// Speakers listed in a digest, ranked by talk time
+const DEFAULT_TOP_SPEAKERS = 5;
+
+/**
+ * Compute a digest of one day's lifelogs. Every figure is derived from the
+ * entries themselves; durations are clipped to the day so lifelogs running
+ * past midnight only count the part recorded on it.
+ */
+export function buildDailyDigest(
+  date: string,
+  timeZone: string,
+  entries: LifelogEntry[],
+  topSpeakers = DEFAULT_TOP_SPEAKERS
+): DailyDigest {
+  const dayStart = zonedTimeToUtc(date, timeZone).getTime();
+  const dayEnd = zonedTimeToUtc(addDays(date, 1), timeZone).getTime();
+  const clip = (entry: LifelogEntry) => ({
+    start: Math.max(dayStart, new Date(entry.startTime).getTime()),
+    end: Math.min(dayEnd, new Date(entry.endTime).getTime()),
+  });
+
+  const sorted = [...entries].sort(
+    (a, b) => a.startTime.localeCompare(b.startTime) || a.id.localeCompare(b.id)
+  );
+  const timeline = sorted.map((entry): DigestTimelineEntry => {
+    const { start, end } = clip(entry);
+    return {
+      lifelogId: entry.id,
+      title: entry.title,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      durationMinutes: toMinutes(Math.max(0, end - start)),
+      isStarred: entry.isStarred,
+    };
+  });
+
+  const conversations = sorted.filter((entry) =>
+    entry.contents.some(
+      (item) => item.type === "blockquote" && Boolean(item.speakerName)
+    )
+  );
+  let longestConversation: DigestTimelineEntry | null = null;
+  for (const entry of conversations) {
+    const candidate = timeline[sorted.indexOf(entry)];
+    if (
+      !longestConversation ||
+      candidate.durationMinutes > longestConversation.durationMinutes
+    ) {
+      longestConversation = candidate;
+    }
+  }
+
+  const topics: string[] = [];
+  for (const entry of sorted) {
+    for (const item of entry.contents) {
+      const topic = item.content.trim();
+      if (item.type === "heading2" && topic && !topics.includes(topic)) {
+        topics.push(topic);
+      }
+    }
+  }
+
+  return {
+    date,
+    timezone: timeZone,
+    totalMinutes: toMinutes(recordedMs(sorted.map(clip))),
+    lifelogCount: sorted.length,
+    conversationCount: conversations.length,
+    timeline,
+    topSpeakers: summarizeSpeakers(sorted, {
+      start: dayStart,
+      end: dayEnd,
+    }).slice(0, topSpeakers),
+    topics,
+    starred: timeline.filter((entry) => entry.isStarred),
+    longestConversation,
+  };
+}
+
+/**
+ * Length of the union of time intervals, so overlapping recordings are
+ * counted once
+ */
+export function recordedMs(
+  intervals: { start: number; end: number }[]
+): number {
+  let total = 0;
+  let coveredUntil = Number.NEGATIVE_INFINITY;
+  for (const { start, end } of [...intervals].sort(
+    (a, b) => a.start - b.start
+  )) {
+    const from = Math.max(start, coveredUntil);
+    if (end > from) {
+      total += end - from;
+      coveredUntil = end;
+    }
+  }
+  return total;
+}
@@ -0,0 +1,175 @@
+import axios, { AxiosHeaders } from "axios";
+
+import { LimitlessErrorSchema } from "./types.js";
+
+// Transport failures worth retrying; anything else without a response is
+// treated as permanent
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNABORTED",
+  "ECONNRESET",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ERR_NETWORK",
+  "ETIMEDOUT",
+]);
+
+/**
+ * Base class for every failure talking to the Limitless API
+ */
+export class LimitlessApiError extends Error {
+  /** HTTP status, when the API responded */
+  readonly status?: number;
+  /** Error code from the API response body or the transport */
+  readonly code?: string;
+  /** Whether repeating the same request may succeed */
+  readonly retryable: boolean;
+  /** Delay requested by the API's Retry-After header */
+  readonly retryAfterMs?: number;
+  /** The underlying axios or runtime error */
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    options: {
+      status?: number;
+      code?: string;
+      retryable?: boolean;
+      retryAfterMs?: number;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.code = options.code;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * 401 or 403: the API key is missing, invalid or lacks access
+ */
+export class LimitlessAuthError extends LimitlessApiError {}
+
+/**
+ * 404: the requested lifelog or endpoint does not exist
+ */
+export class LimitlessNotFoundError extends LimitlessApiError {}
+
+/**
+ * 429: too many requests, retryable after the advertised delay
+ */
+export class LimitlessRateLimitError extends LimitlessApiError {}
+
+/**
+ * 5xx: the API failed, usually transiently
+ */
+export class LimitlessServerError extends LimitlessApiError {}
+
+/**
+ * No response was received (timeouts, resets, DNS failures)
+ */
+export class LimitlessNetworkError extends LimitlessApiError {}
+
+/**
+ * The API responded with data that does not match the expected schema
+ */
+export class LimitlessValidationError extends LimitlessApiError {}
+
+/**
+ * Convert anything thrown by an API request into a LimitlessApiError,
+ * reading the API's error body and Retry-After header when present
+ */
+export function toLimitlessError(
+  error: unknown,
+  now = Date.now()
+): LimitlessApiError {
+  if (error instanceof LimitlessApiError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const response = error.response;
+    if (!response) {
+      const code = error.code;
+      return new LimitlessNetworkError(
+        `Limitless API error (unknown): ${error.message}`,
+        {
+          code,
+          retryable: code !== undefined && RETRYABLE_NETWORK_CODES.has(code),
+          cause: error,
+        }
+      );
+    }
+
+    const body = LimitlessErrorSchema.safeParse(response.data);
+    const message = body.success
+      ? body.data.message
+      : response.data?.message || error.message;
+    const status = response.status;
+    const options = {
+      status,
+      code: body.success ? body.data.error : error.code,
+      retryAfterMs: parseRetryAfter(
+        headerValue(response.headers, "retry-after"),
+        now
+      ),
+      cause: error,
+    };
+    const text = `Limitless API error (${status}): ${message}`;
+
+    if (status === 401 || status === 403) {
+      return new LimitlessAuthError(text, options);
+    }
+    if (status === 404) {
+      return new LimitlessNotFoundError(text, options);
+    }
+    if (status === 429) {
+      return new LimitlessRateLimitError(text, { ...options, retryable: true });
+    }
+    if (status >= 500) {
+      return new LimitlessServerError(text, {
+        ...options,
+        retryable: status !== 501,
+      });
+    }
+    return new LimitlessApiError(text, options);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new LimitlessApiError(`Limitless API error: ${message}`, {
+    cause: error,
+  });
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(
+  value: string | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function headerValue(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== "object") return undefined;
+  // AxiosHeaders looks names up case-insensitively; plain objects do not
+  const value =
+    headers instanceof AxiosHeaders
+      ? headers.get(name)
+      : Object.entries(headers).find(
+          ([key]) => key.toLowerCase() === name
+        )?.[1];
+  return value === undefined || value === null || value === false
+    ? undefined
+    : String(value);
+}
@@ -0,0 +1,239 @@
+import type {
+  ExportFormat,
+  LifelogContentItem,
+  LifelogEntry,
+} from "./types.js";
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: "text/markdown",
+  json: "application/json",
+  csv: "text/csv",
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  csv: "csv",
+  srt: "srt",
+  vtt: "vtt",
+};
+
+const CSV_COLUMNS = [
+  "lifelog_id",
+  "lifelog_title",
+  "index",
+  "type",
+  "speaker",
+  "start_time",
+  "end_time",
+  "start_offset_ms",
+  "end_offset_ms",
+  "content",
+];
+
+interface Cue {
+  startMs: number;
+  endMs: number;
+  speakerName?: string;
+  text: string;
+}
+
+export function exportMimeType(format: ExportFormat): string {
+  return MIME_TYPES[format];
+}
+
+export function exportExtension(format: ExportFormat): string {
+  return EXTENSIONS[format];
+}
+
+/**
+ * Render lifelog entries in the given export format
+ */
+export function renderExport(
+  entries: LifelogEntry[],
+  format: ExportFormat
+): string {
+  switch (format) {
+    case "markdown":
+      return renderMarkdown(entries);
+    case "json":
+      return renderJson(entries);
+    case "csv":
+      return renderCsv(entries);
+    case "srt":
+      return renderSrt(entries);
+    case "vtt":
+      return renderVtt(entries);
+  }
+}
+
+function renderMarkdown(entries: LifelogEntry[]): string {
+  return entries
+    .map((entry) => {
+      let output = `# ${entry.title}\n\n`;
+      output += `- **ID:** ${entry.id}\n`;
+      output += `- **Start:** ${entry.startTime}\n`;
+      output += `- **End:** ${entry.endTime}\n`;
+      if (entry.isStarred) {
+        output += "- **Starred:** yes\n";
+      }
+      if (entry.updatedAt) {
+        output += `- **Last Updated:** ${entry.updatedAt}\n`;
+      }
+      output += "\n";
+
+      for (const item of entry.contents) {
+        if (item.type === "heading1") {
+          output += `## ${item.content}\n\n`;
+        } else if (item.type === "heading2") {
+          output += `### ${item.content}\n\n`;
+        } else if (item.type === "blockquote") {
+          const speaker = item.speakerName || "Unknown";
+          const time = item.startTime ? ` (${item.startTime})` : "";
+          output += `> **${speaker}**${time}: ${item.content}\n\n`;
+        } else {
+          output += `${item.content}\n\n`;
+        }
+      }
+      return output.trimEnd();
+    })
+    .join("\n\n---\n\n")
+    .concat("\n");
+}
+
+function renderJson(entries: LifelogEntry[]): string {
+  const lifelogs = entries.map((entry) => ({
+    id: entry.id,
+    title: entry.title,
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+    isStarred: entry.isStarred ?? false,
+    updatedAt: entry.updatedAt ?? null,
+    contents: entry.contents.map((item) => ({
+      type: item.type,
+      content: item.content,
+      speakerName: item.speakerName ?? null,
+      startTime: item.startTime ?? null,
+      endTime: item.endTime ?? null,
+      startOffsetMs: item.startOffsetMs ?? null,
+      endOffsetMs: item.endOffsetMs ?? null,
+    })),
+  }));
+  return `${JSON.stringify({ lifelogs }, null, 2)}\n`;
+}
+
+function renderCsv(entries: LifelogEntry[]): string {
+  const rows = [CSV_COLUMNS.join(",")];
+  for (const entry of entries) {
+    entry.contents.forEach((item, index) => {
+      rows.push(
+        [
+          entry.id,
+          entry.title,
+          index,
+          item.type,
+          item.speakerName,
+          item.startTime,
+          item.endTime,
+          item.startOffsetMs,
+          item.endOffsetMs,
+          item.content,
+        ]
+          .map(csvField)
+          .join(",")
+      );
+    });
+  }
+  return `${rows.join("\r\n")}\r\n`;
+}
+
+function renderSrt(entries: LifelogEntry[]): string {
+  return collectCues(entries)
+    .map((cue, i) => {
+      const text = cue.speakerName
+        ? `${cue.speakerName}: ${cue.text}`
+        : cue.text;
+      return `${i + 1}\n${formatCueTime(cue.startMs, ",")} --> ${formatCueTime(cue.endMs, ",")}\n${text}\n`;
+    })
+    .join("\n");
+}
+
+function renderVtt(entries: LifelogEntry[]): string {
+  const cues = collectCues(entries).map((cue) => {
+    const text = cue.speakerName
+      ? `<v ${cue.speakerName}>${escapeVtt(cue.text)}`
+      : escapeVtt(cue.text);
+    return `${formatCueTime(cue.startMs, ".")} --> ${formatCueTime(cue.endMs, ".")}\n${text}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+/**
+ * Timed cues for every spoken or text item. Offsets are relative to each
+ * entry's recording, so they are shifted onto a shared timeline starting at
+ * the first exported entry.
+ */
+function collectCues(entries: LifelogEntry[]): Cue[] {
+  if (entries.length === 0) return [];
+  const base = Math.min(
+    ...entries.map((entry) => new Date(entry.startTime).getTime())
+  );
+
+  const cues: Cue[] = [];
+  for (const entry of entries) {
+    const entryStart = new Date(entry.startTime).getTime() - base;
+    for (const item of entry.contents) {
+      if (item.type !== "blockquote" && item.type !== "text") continue;
+      const timing = cueTiming(item, new Date(entry.startTime).getTime());
+      if (!timing) continue;
+      cues.push({
+        startMs: entryStart + timing.startMs,
+        endMs: entryStart + timing.endMs,
+        speakerName: item.speakerName,
+        text: item.content.replace(/\s*\n\s*/g, " "),
+      });
+    }
+  }
+  return cues.sort((a, b) => a.startMs - b.startMs);
+}
+
+function cueTiming(
+  item: LifelogContentItem,
+  entryStartMs: number
+): { startMs: number; endMs: number } | undefined {
+  if (item.startOffsetMs !== undefined && item.endOffsetMs !== undefined) {
+    return { startMs: item.startOffsetMs, endMs: item.endOffsetMs };
+  }
+  if (item.startTime && item.endTime) {
+    return {
+      startMs: new Date(item.startTime).getTime() - entryStartMs,
+      endMs: new Date(item.endTime).getTime() - entryStartMs,
+    };
+  }
+  return undefined;
+}
+
+function formatCueTime(ms: number, separator: "," | "."): string {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3600000);
+  const minutes = Math.floor((clamped % 3600000) / 60000);
+  const seconds = Math.floor((clamped % 60000) / 1000);
+  const millis = clamped % 1000;
+  const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
@@ -0,0 +1,151 @@
+import {
+  addDays,
+  dateInZone,
+  dayOfWeek,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "./dates.js";
+import { matchesSpeaker } from "./speakers.js";
+import type {
+  ExclusionRule,
+  ExclusionWindow,
+  LifelogEntry,
+  Weekday,
+} from "./types.js";
+
+// Indexed by dayOfWeek, 0 = Sunday
+const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Thrown when a lifelog asked for by ID is excluded by policy
+ */
+export class LifelogWithheldError extends Error {
+  constructor(readonly lifelogId: string) {
+    super(
+      `Lifelog ${lifelogId} is withheld by policy. Its contents are not available to this client.`
+    );
+    this.name = "LifelogWithheldError";
+  }
+}
+
+/**
+ * Decides which lifelogs are withheld from the MCP client. An entry is
+ * excluded when any rule matches it.
+ */
+export class ExclusionPolicy {
+  private rules: {
+    titleKeywords: RegExp[];
+    speakers: string[];
+    windows: ExclusionWindow[];
+    ids: Set<string>;
+    timeZone: string;
+  }[];
+
+  constructor(rules: ExclusionRule[], timeZone: string) {
+    this.rules = rules.map((rule) => {
+      const zone = rule.timezone ?? timeZone;
+      if (!isValidTimeZone(zone)) {
+        throw new Error(
+          `Invalid timezone "${zone}" in exclusion rule${rule.name ? ` "${rule.name}"` : ""}`
+        );
+      }
+      return {
+        titleKeywords: (rule.titleKeywords ?? []).map(
+          (keyword) =>
+            new RegExp(
+              `(?<![\\p{L}\\p{N}])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}])`,
+              "iu"
+            )
+        ),
+        speakers: rule.speakers ?? [],
+        windows: rule.windows ?? [],
+        ids: new Set(rule.ids),
+        timeZone: zone,
+      };
+    });
+  }
+
+  /**
+   * Whether any rule withholds the entry
+   */
+  excludes(entry: LifelogEntry): boolean {
+    return this.rules.some((rule) => {
+      if (rule.ids.size > 0 && !rule.ids.has(entry.id)) {
+        return false;
+      }
+      if (
+        rule.titleKeywords.length > 0 &&
+        !rule.titleKeywords.some((keyword) => keyword.test(entry.title))
+      ) {
+        return false;
+      }
+      if (
+        rule.speakers.length > 0 &&
+        !entry.contents.some(
+          (item) =>
+            item.speakerName &&
+            rule.speakers.some((speaker) =>
+              matchesSpeaker(item.speakerName as string, speaker)
+            )
+        )
+      ) {
+        return false;
+      }
+      if (
+        rule.windows.length > 0 &&
+        !rule.windows.some((window) =>
+          overlapsWindow(entry, window, rule.timeZone)
+        )
+      ) {
+        return false;
+      }
+      return true;
+    });
+  }
+}
+
+/**
+ * Whether a lifelog's recording overlaps any occurrence of a recurring
+ * window. Instantaneous lifelogs match when they fall inside one.
+ */
+export function overlapsWindow(
+  entry: Pick<LifelogEntry, "startTime" | "endTime">,
+  window: ExclusionWindow,
+  timeZone: string
+): boolean {
+  const start = new Date(entry.startTime).getTime();
+  const end = Math.max(new Date(entry.endTime).getTime(), start + 1);
+  const overnight = window.to <= window.from;
+
+  // Windows running past midnight may have started the day before
+  const lastDate = dateInZone(new Date(end), timeZone);
+  for (
+    let date = addDays(dateInZone(new Date(start), timeZone), -1);
+    date <= lastDate;
+    date = addDays(date, 1)
+  ) {
+    if (window.days && !window.days.includes(WEEKDAYS[dayOfWeek(date)])) {
+      continue;
+    }
+    const windowStart = localTime(date, window.from, timeZone);
+    const windowEnd = localTime(
+      overnight ? addDays(date, 1) : date,
+      window.to,
+      timeZone
+    );
+    if (start < windowEnd && end > windowStart) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function localTime(date: string, time: string, timeZone: string): number {
+  return time === "24:00"
+    ? zonedTimeToUtc(addDays(date, 1), timeZone).getTime()
+    : zonedTimeToUtc(`${date}T${time}`, timeZone).getTime();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
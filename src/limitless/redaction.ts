@@ -0,0 +1,359 @@
+import { createHash } from "node:crypto";
+import type {
+  LifelogContentItem,
+  LifelogEntry,
+  RedactionAudit,
+  RedactionConfig,
+  RedactionDetector,
+} from "./types.js";
+
+// Hex digits of the salted hash shown in hash mode and speaker pseudonyms
+const HASH_LENGTH = 8;
+const PSEUDONYM_LENGTH = 6;
+
+// The wearer is not a third party, so their label is never pseudonymized
+const WEARER = "You";
+
+type Category = keyof RedactionAudit;
+
+interface Rule {
+  category: Category;
+  label: string;
+  pattern: RegExp;
+  // Checks a candidate match, returning the part to redact or undefined
+  accept?: (match: string) => string | undefined;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  rule: Rule;
+}
+
+const STREET_SUFFIXES = [
+  "Street",
+  "St",
+  "Avenue",
+  "Ave",
+  "Road",
+  "Rd",
+  "Boulevard",
+  "Blvd",
+  "Lane",
+  "Ln",
+  "Drive",
+  "Dr",
+  "Court",
+  "Ct",
+  "Way",
+  "Place",
+  "Pl",
+  "Terrace",
+  "Parkway",
+  "Pkwy",
+  "Circle",
+  "Highway",
+  "Hwy",
+];
+
+// Long suffixes may be lowercase, as transcripts often write them
+const STREET_SUFFIX_PATTERN = STREET_SUFFIXES.map((suffix) =>
+  suffix.length > 3
+    ? `[${suffix[0]}${suffix[0].toLowerCase()}]${suffix.slice(1)}`
+    : suffix
+).join("|");
+
+// Detectors in order of precedence; where matches overlap the earlier wins
+const DETECTORS: Record<RedactionDetector, Rule> = {
+  card: {
+    category: "card",
+    label: "CARD",
+    pattern: /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g,
+    accept: (match) => {
+      const digits = match.replace(/\D/g, "");
+      return digits.length >= 13 && digits.length <= 19 && luhn(digits)
+        ? match
+        : undefined;
+    },
+  },
+  iban: {
+    category: "iban",
+    label: "IBAN",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}/g,
+    accept: (match) => {
+      // The pattern runs on into following capitals, so back off until the
+      // checksum holds
+      for (let end = match.length; end > 0; end--) {
+        const candidate = match.slice(0, end).trimEnd();
+        const compact = candidate.replace(/ /g, "");
+        if (compact.length < 15) return undefined;
+        if (ibanChecksum(compact)) return candidate;
+      }
+      return undefined;
+    },
+  },
+  ssn: {
+    category: "ssn",
+    label: "SSN",
+    pattern:
+      /(?<!\d)(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}(?!\d)/g,
+  },
+  email: {
+    category: "email",
+    label: "EMAIL",
+    pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  },
+  phone: {
+    category: "phone",
+    label: "PHONE",
+    pattern:
+      /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,4}\)[ .-]?|\d{2,4}[ .-])\d{3,4}[ .-]?\d{3,4}(?!\w)|(?<![\w+])\+?\d{10,15}(?!\w)/g,
+    accept: (match) => {
+      const digits = match.replace(/\D/g, "").length;
+      return digits >= 7 && digits <= 15 ? match : undefined;
+    },
+  },
+  address: {
+    category: "address",
+    label: "ADDRESS",
+    pattern: new RegExp(
+      `\\b\\d{1,5}\\s+(?:[A-Z][\\w'-]*\\s+){1,4}(?:${STREET_SUFFIX_PATTERN})\\b\\.?(?:,?\\s+(?:Apt|Apartment|Suite|Unit|#)\\.?\\s*\\w+)?`,
+      "g"
+    ),
+  },
+};
+
+/**
+ * Redacts personal data from lifelogs: built-in detectors, custom regular
+ * expressions and keywords, and speaker names. Entries are copied, never
+ * modified in place.
+ */
+export class LifelogRedactor {
+  private rules: Rule[];
+  private pseudonyms = new Map<string, string>();
+
+  constructor(private config: RedactionConfig) {
+    const detectors = new Set(config.detectors);
+    this.rules = [
+      ...(Object.keys(DETECTORS) as RedactionDetector[])
+        .filter((detector) => detectors.has(detector))
+        .map((detector) => DETECTORS[detector]),
+      ...config.patterns.map(
+        (pattern): Rule => ({
+          category: "pattern",
+          label: "REDACTED",
+          pattern: new RegExp(pattern, "gu"),
+        })
+      ),
+      ...config.keywords.map(
+        (keyword): Rule => ({
+          category: "keyword",
+          label: "REDACTED",
+          pattern: new RegExp(
+            `(?<![\\p{L}\\p{N}])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}])`,
+            "giu"
+          ),
+        })
+      ),
+    ];
+  }
+
+  /**
+   * Redact an entry's title, content items and markdown, adding what was
+   * redacted to `audit`
+   */
+  redact(entry: LifelogEntry, audit: RedactionAudit = {}): LifelogEntry {
+    const speakers = this.config.pseudonymizeSpeakers
+      ? [
+          ...new Set(
+            entry.contents.flatMap((item) =>
+              item.speakerName && item.speakerName !== WEARER
+                ? [item.speakerName]
+                : []
+            )
+          ),
+        ]
+      : [];
+    const text = (value: string) =>
+      this.mentions(
+        this.replace(value, this.spans(value), audit),
+        speakers,
+        audit
+      );
+
+    const contents: LifelogContentItem[] = [];
+    for (const item of entry.contents) {
+      const spans = this.spans(item.content);
+      if (this.config.mode === "drop-item" && spans.length > 0) {
+        count(audit, spans);
+        increment(audit, "item");
+        continue;
+      }
+      const redacted = { ...item };
+      redacted.content = this.mentions(
+        this.replace(item.content, spans, audit),
+        speakers,
+        audit
+      );
+      if (item.speakerName && speakers.includes(item.speakerName)) {
+        redacted.speakerName = this.pseudonym(item.speakerName);
+        increment(audit, "speaker");
+      }
+      contents.push(redacted);
+    }
+
+    let markdown = entry.markdown;
+    if (markdown !== undefined) {
+      markdown = markdown
+        .split("\n")
+        .flatMap((line) => {
+          const spans = this.spans(line);
+          if (this.config.mode === "drop-item" && spans.length > 0) {
+            count(audit, spans);
+            return [];
+          }
+          return [
+            this.mentions(this.replace(line, spans, audit), speakers, audit),
+          ];
+        })
+        .join("\n");
+    }
+
+    return {
+      ...entry,
+      // Titles cannot be dropped, so drop-item masks them instead
+      title: text(entry.title),
+      contents,
+      markdown,
+    };
+  }
+
+  /**
+   * Redact free text such as a chat message. There is no item to drop, so
+   * drop-item mode masks matches instead.
+   */
+  redactText(value: string, audit: RedactionAudit = {}): string {
+    return this.replace(value, this.spans(value), audit);
+  }
+
+  /**
+   * Non-overlapping matches of every rule in a text, in order of position
+   */
+  private spans(value: string): Span[] {
+    const spans: Span[] = [];
+    for (const rule of this.rules) {
+      for (const match of value.matchAll(rule.pattern)) {
+        if (!match[0]) continue;
+        const accepted = rule.accept ? rule.accept(match[0]) : match[0];
+        if (!accepted) continue;
+        const start = match.index ?? 0;
+        const end = start + accepted.length;
+        if (spans.some((span) => start < span.end && end > span.start)) {
+          continue;
+        }
+        spans.push({ start, end, rule });
+      }
+    }
+    return spans.sort((a, b) => a.start - b.start);
+  }
+
+  private replace(value: string, spans: Span[], audit: RedactionAudit): string {
+    let output = "";
+    let position = 0;
+    for (const { start, end, rule } of spans) {
+      const label =
+        this.config.mode === "hash"
+          ? `${rule.label}:${this.hash(value.slice(start, end)).slice(0, HASH_LENGTH)}`
+          : rule.label;
+      output += `${value.slice(position, start)}[${label}]`;
+      position = end;
+    }
+    count(audit, spans);
+    return output + value.slice(position);
+  }
+
+  /**
+   * Replace whole-word mentions of the given speakers with their pseudonyms
+   */
+  private mentions(
+    value: string,
+    speakers: string[],
+    audit: RedactionAudit
+  ): string {
+    let output = value;
+    for (const speaker of speakers) {
+      output = output.replace(
+        new RegExp(
+          `(?<![\\p{L}\\p{N}])${escapeRegExp(speaker)}(?![\\p{L}\\p{N}])`,
+          "gu"
+        ),
+        () => {
+          increment(audit, "speaker");
+          return this.pseudonym(speaker);
+        }
+      );
+    }
+    return output;
+  }
+
+  private pseudonym(speaker: string): string {
+    let pseudonym = this.pseudonyms.get(speaker);
+    if (!pseudonym) {
+      pseudonym = `Speaker ${this.hash(speaker.toLowerCase()).slice(0, PSEUDONYM_LENGTH)}`;
+      this.pseudonyms.set(speaker, pseudonym);
+    }
+    return pseudonym;
+  }
+
+  private hash(value: string): string {
+    return createHash("sha256")
+      .update(this.config.salt)
+      .update(value)
+      .digest("hex");
+  }
+}
+
+/**
+ * Whether a digit string passes the Luhn checksum used by card numbers
+ */
+export function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Whether a compact IBAN passes its ISO 13616 mod-97 checksum
+ */
+export function ibanChecksum(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function count(audit: RedactionAudit, spans: Span[]) {
+  for (const span of spans) {
+    increment(audit, span.rule.category);
+  }
+}
+
+function increment(audit: RedactionAudit, category: Category) {
+  audit[category] = (audit[category] ?? 0) + 1;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,109 @@
+import { type LimitlessApiError, toLimitlessError } from "./errors.js";
+
+export interface RetryOptions {
+  /** Retries after the first attempt; 0 disables retrying */
+  maxRetries: number;
+  /** Delay cap for the first retry, doubled on each later attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single delay, including Retry-After */
+  maxDelayMs: number;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between zero and
+ * baseDelayMs * 2^attempt, capped at maxDelayMs
+ */
+export function backoffDelay(
+  attempt: number,
+  options: RetryOptions,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt
+  );
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Run a request, retrying retryable failures with backoff. A Retry-After
+ * from the API takes precedence over the computed delay; if it exceeds
+ * maxDelayMs the error is thrown instead of waiting that long.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions,
+  hooks: {
+    sleep?: (ms: number) => Promise<void>;
+    random?: () => number;
+    onRetry?: (
+      error: LimitlessApiError,
+      attempt: number,
+      delayMs: number
+    ) => void;
+  } = {}
+): Promise<T> {
+  const sleep = hooks.sleep ?? delay;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (thrown) {
+      const error = toLimitlessError(thrown);
+      if (!error.retryable || attempt >= options.maxRetries) {
+        throw error;
+      }
+
+      const wait =
+        error.retryAfterMs ?? backoffDelay(attempt, options, hooks.random);
+      if (wait > options.maxDelayMs) {
+        throw error;
+      }
+      hooks.onRetry?.(error, attempt + 1, wait);
+      await sleep(wait);
+    }
+  }
+}
+
+/**
+ * Client-side rate limiter spacing requests so no more than `limit` start
+ * within any `intervalMs` window. Callers wait in FIFO order.
+ */
+export class RateLimiter {
+  private started: number[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private limit: number,
+    private intervalMs = 60000,
+    private now: () => number = Date.now,
+    private sleep: (ms: number) => Promise<void> = delay
+  ) {}
+
+  /**
+   * Wait until a request may start, then record it
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForSlot());
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
+
+  private async waitForSlot(): Promise<void> {
+    for (;;) {
+      const now = this.now();
+      this.started = this.started.filter(
+        (time) => now - time < this.intervalMs
+      );
+      if (this.started.length < this.limit) {
+        this.started.push(now);
+        return;
+      }
+      await this.sleep(this.started[0] + this.intervalMs - now);
+    }
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
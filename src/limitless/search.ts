@@ -0,0 +1,509 @@
+import type {
+  LifelogContentItem,
+  LifelogEntry,
+  SearchHit,
+  SearchSnippet,
+} from "./types.js";
+
+// BM25 tuning constants
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Field weights applied to term frequencies before ranking
+const TITLE_WEIGHT = 2;
+const HEADING_WEIGHT = 1.5;
+
+// Snippet shaping
+const MAX_SNIPPETS_PER_HIT = 3;
+const SNIPPET_CONTEXT_CHARS = 80;
+
+// Bare query words that carry no meaning on their own; they are still
+// indexed so that phrase queries containing them keep working
+const QUERY_STOPWORDS = new Set([
+  "a",
+  "about",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "for",
+  "from",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "the",
+  "to",
+  "was",
+  "were",
+  "with",
+]);
+
+// Field index used for an entry's title; content items use their array index
+const TITLE_FIELD = -1;
+
+// Entries kept in memory before the least recently indexed are evicted;
+// well above the most a single search scans
+const DEFAULT_MAX_INDEXED = 5000;
+
+interface Token {
+  term: string;
+  position: number;
+  start: number;
+  end: number;
+}
+
+interface Posting {
+  field: number;
+  position: number;
+}
+
+interface IndexedDocument {
+  length: number;
+  // Every term with postings for the entry, so removal skips the rest
+  terms: string[];
+}
+
+type QueryNode =
+  | { type: "term"; term: string }
+  | { type: "phrase"; terms: string[] }
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode };
+
+/**
+ * Light English suffix-stripping stemmer. It is intentionally conservative:
+ * it only needs to fold common inflections ("meetings", "planned",
+ * "discussing") onto the same index term.
+ */
+export function stem(word: string): string {
+  let token = word;
+  if (token.length <= 3 || /\d/.test(token)) {
+    return token;
+  }
+
+  if (token.endsWith("ies") && token.length > 4) {
+    token = `${token.slice(0, -3)}y`;
+  } else if (/(sses|xes|ches|shes|zes)$/.test(token)) {
+    token = token.slice(0, -2);
+  } else if (token.endsWith("s") && !/(ss|us|is)$/.test(token)) {
+    token = token.slice(0, -1);
+  }
+
+  for (const suffix of ["ing", "ed"]) {
+    const base = token.slice(0, -suffix.length);
+    if (token.endsWith(suffix) && base.length >= 3 && /[aeiouy]/.test(base)) {
+      token = base;
+      // Undouble trailing consonants left behind ("planning" -> "plan")
+      if (/([^aeiouylsz])\1$/.test(token)) {
+        token = token.slice(0, -1);
+      }
+      break;
+    }
+  }
+
+  if (token.endsWith("ly") && token.length > 5) {
+    token = token.slice(0, -2);
+  }
+
+  return token;
+}
+
+/**
+ * Split text into lowercase, stemmed tokens with their character offsets
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+  let position = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    tokens.push({
+      term: stem(match[0].toLowerCase().replace(/['’]/g, "")),
+      position: position++,
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Parse a search query into a boolean query tree.
+ *
+ * Supported syntax: bare words (implicitly ANDed), "quoted phrases",
+ * AND / OR / NOT operators (upper case), a leading "-" as shorthand for
+ * NOT, and parentheses for grouping.
+ */
+export function parseQuery(query: string): QueryNode {
+  const lexemes =
+    query.match(/"[^"]*"|\(|\)|-?[^\s()"]+/g)?.filter((l) => l !== "-") ?? [];
+  let index = 0;
+
+  function peek(): string | undefined {
+    return lexemes[index];
+  }
+
+  function parsePrimary(): QueryNode | null {
+    const lexeme = lexemes[index++];
+    if (lexeme === undefined) {
+      throw new Error("Invalid search query: unexpected end of query");
+    }
+    if (lexeme === "(") {
+      const node = parseOr();
+      if (lexemes[index++] !== ")") {
+        throw new Error("Invalid search query: missing closing parenthesis");
+      }
+      return node;
+    }
+    if (lexeme === ")") {
+      throw new Error("Invalid search query: unexpected ')'");
+    }
+    if (lexeme.startsWith('"')) {
+      return parseWord(lexeme.slice(1, -1));
+    }
+    if (lexeme.startsWith("-")) {
+      const child = parseWord(lexeme.slice(1));
+      return child ? { type: "not", child } : null;
+    }
+    return parseWord(lexeme, true);
+  }
+
+  function parseWord(word: string, skipStopwords = false): QueryNode | null {
+    if (skipStopwords && QUERY_STOPWORDS.has(word.toLowerCase())) {
+      return null;
+    }
+    const terms = tokenize(word).map((t) => t.term);
+    if (terms.length === 0) return null;
+    return terms.length === 1
+      ? { type: "term", term: terms[0] }
+      : { type: "phrase", terms };
+  }
+
+  function parseNot(): QueryNode | null {
+    if (peek() === "NOT") {
+      index++;
+      const child = parseNot();
+      return child ? { type: "not", child } : null;
+    }
+    return parsePrimary();
+  }
+
+  function parseAnd(): QueryNode | null {
+    const children: QueryNode[] = [];
+    while (index < lexemes.length && peek() !== "OR" && peek() !== ")") {
+      if (peek() === "AND") {
+        index++;
+        continue;
+      }
+      const node = parseNot();
+      if (node) children.push(node);
+    }
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  function parseOr(): QueryNode {
+    const children: QueryNode[] = [];
+    do {
+      if (peek() === "OR") index++;
+      const node = parseAnd();
+      if (node) children.push(node);
+    } while (peek() === "OR");
+    if (children.length === 0) {
+      throw new Error("Invalid search query: no searchable terms");
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  const root = parseOr();
+  if (index < lexemes.length) {
+    throw new Error(`Invalid search query: unexpected '${lexemes[index]}'`);
+  }
+  return root;
+}
+
+/**
+ * In-memory inverted index over lifelog titles, headings and content items
+ * with BM25 ranking. Entries can be added incrementally; re-adding an entry
+ * with the same id replaces its previous postings. Beyond `maxEntries` the
+ * least recently added entries are evicted.
+ */
+export class LifelogSearchIndex {
+  private entries = new Map<string, LifelogEntry>();
+  private postings = new Map<string, Map<string, Posting[]>>();
+  private documents = new Map<string, IndexedDocument>();
+  private totalLength = 0;
+
+  constructor(private maxEntries = DEFAULT_MAX_INDEXED) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(id: string): LifelogEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Add or replace an entry in the index
+   */
+  add(entry: LifelogEntry) {
+    const existing = this.entries.get(entry.id);
+    if (existing) {
+      if (existing.updatedAt && existing.updatedAt === entry.updatedAt) {
+        // Still in use, so move it to the back of the eviction order
+        this.entries.delete(entry.id);
+        this.entries.set(entry.id, existing);
+        return;
+      }
+      this.remove(entry.id);
+    }
+
+    this.entries.set(entry.id, entry);
+    const document: IndexedDocument = { length: 0, terms: [] };
+    const fields: [number, string][] = [
+      [TITLE_FIELD, entry.title],
+      ...entry.contents.map((item, i): [number, string] => [i, item.content]),
+    ];
+    for (const [field, text] of fields) {
+      for (const token of tokenize(text)) {
+        let docs = this.postings.get(token.term);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(token.term, docs);
+        }
+        let list = docs.get(entry.id);
+        if (!list) {
+          list = [];
+          docs.set(entry.id, list);
+          document.terms.push(token.term);
+        }
+        list.push({ field, position: token.position });
+        document.length++;
+      }
+    }
+    this.documents.set(entry.id, document);
+    this.totalLength += document.length;
+
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.remove(id);
+    }
+  }
+
+  /**
+   * Remove an entry and its postings from the index
+   */
+  remove(id: string) {
+    const document = this.documents.get(id);
+    if (!this.entries.delete(id) || !document) return;
+    for (const term of document.terms) {
+      const docs = this.postings.get(term);
+      docs?.delete(id);
+      if (docs?.size === 0) this.postings.delete(term);
+    }
+    this.totalLength -= document.length;
+    this.documents.delete(id);
+  }
+
+  /**
+   * Run a query and return hits ranked by BM25 score, optionally restricted
+   * to a set of entry ids
+   */
+  search(query: string, options: { ids?: Set<string> } = {}): SearchHit[] {
+    const root = parseQuery(query);
+    const universe = new Set(
+      options.ids
+        ? [...options.ids].filter((id) => this.entries.has(id))
+        : this.entries.keys()
+    );
+    const matched = this.evaluate(root, universe);
+    const positive = collectPositiveTerms(root);
+
+    const hits: SearchHit[] = [];
+    for (const id of matched) {
+      const entry = this.entries.get(id);
+      if (!entry) continue;
+      hits.push({
+        lifelogId: id,
+        score: this.score(id, positive),
+        snippets: this.snippets(entry, positive),
+      });
+    }
+
+    return hits.sort(
+      (a, b) => b.score - a.score || a.lifelogId.localeCompare(b.lifelogId)
+    );
+  }
+
+  private evaluate(node: QueryNode, universe: Set<string>): Set<string> {
+    switch (node.type) {
+      case "term":
+        return this.docsFor(node.term, universe);
+      case "phrase":
+        return this.phraseDocs(node.terms, universe);
+      case "and": {
+        let result = new Set(universe);
+        for (const child of node.children) {
+          const docs = this.evaluate(child, universe);
+          result = new Set([...result].filter((id) => docs.has(id)));
+        }
+        return result;
+      }
+      case "or": {
+        const result = new Set<string>();
+        for (const child of node.children) {
+          for (const id of this.evaluate(child, universe)) result.add(id);
+        }
+        return result;
+      }
+      case "not": {
+        const excluded = this.evaluate(node.child, universe);
+        return new Set([...universe].filter((id) => !excluded.has(id)));
+      }
+    }
+  }
+
+  private docsFor(term: string, universe: Set<string>): Set<string> {
+    const docs = this.postings.get(term);
+    if (!docs) return new Set();
+    return new Set([...docs.keys()].filter((id) => universe.has(id)));
+  }
+
+  private phraseDocs(terms: string[], universe: Set<string>): Set<string> {
+    const result = new Set<string>();
+    for (const id of this.docsFor(terms[0], universe)) {
+      if (this.phraseFields(id, terms).size > 0) result.add(id);
+    }
+    return result;
+  }
+
+  /**
+   * Fields of an entry in which the phrase occurs as consecutive tokens
+   */
+  private phraseFields(id: string, terms: string[]): Set<number> {
+    const fields = new Set<number>();
+    const lists = terms.map((term) => this.postings.get(term)?.get(id) ?? []);
+    const lookup = lists.map(
+      (list) => new Set(list.map((p) => `${p.field}:${p.position}`))
+    );
+    for (const start of lists[0]) {
+      const consecutive = lookup.every((set, offset) =>
+        set.has(`${start.field}:${start.position + offset}`)
+      );
+      if (consecutive) fields.add(start.field);
+    }
+    return fields;
+  }
+
+  private score(id: string, terms: string[]): number {
+    const entry = this.entries.get(id);
+    if (!entry) return 0;
+    const docCount = this.entries.size;
+    const avgLength = docCount > 0 ? this.totalLength / docCount : 0;
+    const length = this.documents.get(id)?.length ?? 0;
+    let score = 0;
+
+    for (const term of new Set(terms)) {
+      const docs = this.postings.get(term);
+      const postings = docs?.get(id);
+      if (!docs || !postings) continue;
+
+      const tf = postings.reduce(
+        (sum, p) => sum + fieldWeight(entry, p.field),
+        0
+      );
+      const idf = Math.log(
+        1 + (docCount - docs.size + 0.5) / (docs.size + 0.5)
+      );
+      const norm =
+        BM25_K1 * (1 - BM25_B + BM25_B * (length / (avgLength || 1)));
+      score += idf * ((tf * (BM25_K1 + 1)) / (tf + norm));
+    }
+
+    return Math.round(score * 1000) / 1000;
+  }
+
+  private snippets(entry: LifelogEntry, terms: string[]): SearchSnippet[] {
+    const termSet = new Set(terms);
+    const snippets: SearchSnippet[] = [];
+    const fields: [number, string, LifelogContentItem | undefined][] = [
+      [TITLE_FIELD, entry.title, undefined],
+      ...entry.contents.map((item, i): [number, string, LifelogContentItem] => [
+        i,
+        item.content,
+        item,
+      ]),
+    ];
+
+    for (const [field, text, item] of fields) {
+      const tokens = tokenize(text).filter((t) => termSet.has(t.term));
+      if (tokens.length === 0) continue;
+
+      snippets.push({
+        field: item ? item.type : "title",
+        contentIndex: item ? field : undefined,
+        text: highlight(text, tokens),
+        speakerName: item?.speakerName,
+        startTime: item?.startTime,
+        startOffsetMs: item?.startOffsetMs,
+        endOffsetMs: item?.endOffsetMs,
+      });
+      if (snippets.length >= MAX_SNIPPETS_PER_HIT) break;
+    }
+
+    return snippets;
+  }
+}
+
+function fieldWeight(entry: LifelogEntry, field: number): number {
+  if (field === TITLE_FIELD) return TITLE_WEIGHT;
+  const type = entry.contents[field]?.type;
+  return type === "heading1" || type === "heading2" ? HEADING_WEIGHT : 1;
+}
+
+/**
+ * Collect the terms that contribute to ranking and highlighting, skipping
+ * anything beneath a NOT
+ */
+function collectPositiveTerms(node: QueryNode): string[] {
+  switch (node.type) {
+    case "term":
+      return [node.term];
+    case "phrase":
+      return node.terms;
+    case "not":
+      return [];
+    default:
+      return node.children.flatMap(collectPositiveTerms);
+  }
+}
+
+/**
+ * Wrap matched tokens in **bold** and trim the text to a window around the
+ * first match
+ */
+function highlight(text: string, tokens: Token[]): string {
+  const windowStart = Math.max(0, tokens[0].start - SNIPPET_CONTEXT_CHARS);
+  const windowEnd = Math.min(
+    text.length,
+    tokens[tokens.length - 1].end + SNIPPET_CONTEXT_CHARS
+  );
+
+  let result = windowStart > 0 ? "…" : "";
+  let cursor = windowStart;
+  for (const token of tokens) {
+    if (token.start < cursor || token.end > windowEnd) continue;
+    result += `${text.slice(cursor, token.start)}**${text.slice(token.start, token.end)}**`;
+    cursor = token.end;
+  }
+  result += text.slice(cursor, windowEnd);
+  if (windowEnd < text.length) result += "…";
+  return result;
+}
@@ -0,0 +1,147 @@
+import type {
+  LifelogContentItem,
+  LifelogEntry,
+  SpeakerSummary,
+  SpeakerUtterance,
+} from "./types.js";
+
+/**
+ * Speaking time of a single blockquote in milliseconds, preferring the
+ * recording offsets and falling back to its wall-clock times
+ */
+export function itemDurationMs(item: LifelogContentItem): number {
+  if (item.startOffsetMs !== undefined && item.endOffsetMs !== undefined) {
+    return Math.max(0, item.endOffsetMs - item.startOffsetMs);
+  }
+  if (item.startTime && item.endTime) {
+    return Math.max(
+      0,
+      new Date(item.endTime).getTime() - new Date(item.startTime).getTime()
+    );
+  }
+  return 0;
+}
+
+/**
+ * Whether a speaker name matches a requested name, either exactly or as a
+ * whole-word part of it ("alice" matches "Alice Smith"), ignoring case
+ */
+export function matchesSpeaker(speakerName: string, query: string): boolean {
+  const name = speakerName.trim().toLowerCase();
+  const wanted = query.trim().toLowerCase();
+  if (!wanted) return false;
+  if (name === wanted) return true;
+  const words = name.split(/\s+/);
+  return wanted.split(/\s+/).every((word) => words.includes(word));
+}
+
+/**
+ * Speaking time of a blockquote that falls inside [start, end), for items
+ * whose position in the recording is known
+ */
+function clippedDurationMs(
+  entry: LifelogEntry,
+  item: LifelogContentItem,
+  window: { start: number; end: number }
+): number {
+  const start =
+    item.startOffsetMs !== undefined && item.endOffsetMs !== undefined
+      ? new Date(entry.startTime).getTime() + item.startOffsetMs
+      : item.startTime && item.endTime
+        ? new Date(item.startTime).getTime()
+        : undefined;
+  if (start === undefined) return 0;
+  const end = start + itemDurationMs(item);
+  return Math.max(0, Math.min(end, window.end) - Math.max(start, window.start));
+}
+
+/**
+ * Aggregate talk time, utterance and conversation counts per named speaker,
+ * ordered by talk time. With a window only talk time inside it is counted.
+ */
+export function summarizeSpeakers(
+  entries: LifelogEntry[],
+  window?: { start: number; end: number }
+): SpeakerSummary[] {
+  const speakers = new Map<
+    string,
+    SpeakerSummary & { lifelogIds: Set<string> }
+  >();
+
+  for (const entry of entries) {
+    for (const item of entry.contents) {
+      if (item.type !== "blockquote" || !item.speakerName) continue;
+      let summary = speakers.get(item.speakerName);
+      if (!summary) {
+        summary = {
+          speakerName: item.speakerName,
+          talkTimeMs: 0,
+          utterances: 0,
+          conversations: 0,
+          firstSeen: item.startTime ?? entry.startTime,
+          lastSeen: item.startTime ?? entry.startTime,
+          lifelogIds: new Set(),
+        };
+        speakers.set(item.speakerName, summary);
+      }
+      const seen = item.startTime ?? entry.startTime;
+      summary.talkTimeMs += window
+        ? clippedDurationMs(entry, item, window)
+        : itemDurationMs(item);
+      summary.utterances++;
+      summary.lifelogIds.add(entry.id);
+      if (timeOf(seen) < timeOf(summary.firstSeen)) summary.firstSeen = seen;
+      if (timeOf(seen) > timeOf(summary.lastSeen)) summary.lastSeen = seen;
+    }
+  }
+
+  return [...speakers.values()]
+    .map(({ lifelogIds, ...summary }) => ({
+      ...summary,
+      conversations: lifelogIds.size,
+    }))
+    .sort(
+      (a, b) =>
+        b.talkTimeMs - a.talkTimeMs ||
+        b.utterances - a.utterances ||
+        a.speakerName.localeCompare(b.speakerName)
+    );
+}
+
+/**
+ * Every blockquote said by the given speaker, in chronological order
+ */
+export function findUtterances(
+  entries: LifelogEntry[],
+  speakerName: string
+): SpeakerUtterance[] {
+  const utterances: SpeakerUtterance[] = [];
+
+  for (const entry of entries) {
+    entry.contents.forEach((item, contentIndex) => {
+      if (item.type !== "blockquote" || !item.speakerName) return;
+      if (!matchesSpeaker(item.speakerName, speakerName)) return;
+      utterances.push({
+        lifelogId: entry.id,
+        lifelogTitle: entry.title,
+        contentIndex,
+        speakerName: item.speakerName,
+        content: item.content,
+        startTime: item.startTime ?? entry.startTime,
+        endTime: item.endTime,
+        startOffsetMs: item.startOffsetMs,
+        endOffsetMs: item.endOffsetMs,
+      });
+    });
+  }
+
+  return utterances.sort(
+    (a, b) =>
+      timeOf(a.startTime) - timeOf(b.startTime) ||
+      a.contentIndex - b.contentIndex
+  );
+}
+
+function timeOf(time: string): number {
+  return new Date(time).getTime();
+}
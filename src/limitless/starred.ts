@@ -0,0 +1,112 @@
+import { dateInZone } from "./dates.js";
+import type {
+  LifelogEntry,
+  StarredExcerpt,
+  StarredLifelogs,
+  StarredMoment,
+} from "./types.js";
+
+// Excerpts longer than this are cut at a word boundary
+const MAX_EXCERPT_LENGTH = 280;
+
+/**
+ * Summarize starred lifelogs newest first, with the heading topics and key
+ * excerpt of each and the number starred per local month
+ */
+export function buildStarredLifelogs(
+  entries: LifelogEntry[],
+  options: {
+    from?: string;
+    to?: string;
+    timeZone: string;
+    groupBy: "none" | "month";
+    truncated?: boolean;
+  }
+): StarredLifelogs {
+  const moments = entries
+    .filter((entry) => entry.isStarred)
+    .sort(
+      (a, b) =>
+        new Date(b.startTime).getTime() - new Date(a.startTime).getTime() ||
+        a.id.localeCompare(b.id)
+    )
+    .map(
+      (entry): StarredMoment => ({
+        lifelogId: entry.id,
+        title: entry.title,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        month: dateInZone(new Date(entry.startTime), options.timeZone).slice(
+          0,
+          7
+        ),
+        topics: entry.contents
+          .filter((item) => item.type === "heading2")
+          .map((item) => item.content),
+        excerpt: keyExcerpt(entry),
+      })
+    );
+
+  const months = new Map<string, number>();
+  for (const moment of moments) {
+    months.set(moment.month, (months.get(moment.month) ?? 0) + 1);
+  }
+
+  return {
+    from: options.from ?? null,
+    to: options.to ?? null,
+    timezone: options.timeZone,
+    total: moments.length,
+    truncated: options.truncated ?? false,
+    groupBy: options.groupBy,
+    moments,
+    months: [...months.entries()]
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([month, count]) => ({ month, count })),
+  };
+}
+
+/**
+ * The passage that best represents a lifelog: its most substantial
+ * attributed utterance, or failing that its first non-heading text, or its
+ * first heading below the title
+ */
+export function keyExcerpt(entry: LifelogEntry): StarredExcerpt | null {
+  let best: { speakerName: string; text: string; words: number } | undefined;
+  for (const item of entry.contents) {
+    if (item.type !== "blockquote" || !item.speakerName) continue;
+    const text = item.content.trim();
+    const words = text.split(/\s+/).filter(Boolean).length;
+    if (!best || words > best.words) {
+      best = { speakerName: item.speakerName, text, words };
+    }
+  }
+  if (best && best.words > 0) {
+    return { speakerName: best.speakerName, text: clip(best.text) };
+  }
+
+  const fallback =
+    entry.contents.find(
+      (item) => !item.type.startsWith("heading") && item.content.trim()
+    ) ??
+    entry.contents.find(
+      (item) =>
+        item.type.startsWith("heading") &&
+        item.type !== "heading1" &&
+        item.content.trim()
+    );
+  return fallback
+    ? {
+        speakerName: fallback.speakerName ?? null,
+        text: clip(fallback.content),
+      }
+    : null;
+}
+
+function clip(text: string): string {
+  const trimmed = text.trim().replace(/\s+/g, " ");
+  if (trimmed.length <= MAX_EXCERPT_LENGTH) return trimmed;
+  const cut = trimmed.slice(0, MAX_EXCERPT_LENGTH - 1);
+  const space = cut.lastIndexOf(" ");
+  return `${space > MAX_EXCERPT_LENGTH / 2 ? cut.slice(0, space) : cut}…`;
+}
@@ -0,0 +1,288 @@
+import {
+  formatDateTime,
+  formatMinutes,
+  formatTimeOfDay,
+  localDateTime,
+  toMinutes,
+} from "./dates.js";
+import type {
+  LifelogEntry,
+  Timeline,
+  TimelineFormat,
+  TimelineHour,
+  TimelineInterval,
+  TimelineSegment,
+} from "./types.js";
+
+// Idle stretches shorter than this are not reported as gaps
+const DEFAULT_MIN_GAP_MINUTES = 15;
+
+// Every timezone offset is a multiple of 15 minutes, so slices this long
+// never straddle a local hour boundary
+const SLICE_MS = 15 * 60000;
+
+// Width of the bar area in ASCII charts
+const CHART_WIDTH = 60;
+const LABEL_WIDTH = 24;
+
+/**
+ * Merge lifelogs into a chronological timeline. Gaps are the idle stretches
+ * of at least `minGapMinutes` between recordings; overlaps are the spans
+ * where two lifelogs were recorded at once.
+ */
+export function buildTimeline(
+  entries: LifelogEntry[],
+  timeZone: string,
+  minGapMinutes = DEFAULT_MIN_GAP_MINUTES
+): Timeline {
+  const sorted = [...entries]
+    .map((entry) => ({
+      entry,
+      start: new Date(entry.startTime).getTime(),
+      end: Math.max(
+        new Date(entry.startTime).getTime(),
+        new Date(entry.endTime).getTime()
+      ),
+    }))
+    .sort((a, b) => a.start - b.start || a.entry.id.localeCompare(b.entry.id));
+
+  const overlaps: TimelineInterval[] = [];
+  const overlapping = new Map<string, string[]>(
+    sorted.map(({ entry }) => [entry.id, []])
+  );
+  sorted.forEach((a, i) => {
+    for (const b of sorted.slice(i + 1)) {
+      if (b.start >= a.end) break;
+      const end = Math.min(a.end, b.end);
+      overlaps.push(interval(b.start, end, [a.entry.id, b.entry.id]));
+      overlapping.get(a.entry.id)?.push(b.entry.id);
+      overlapping.get(b.entry.id)?.push(a.entry.id);
+    }
+  });
+
+  // Walk the union of recordings to find what is covered and what is idle
+  const covered: { start: number; end: number }[] = [];
+  const gaps: TimelineInterval[] = [];
+  let idleMs = 0;
+  let lastId = "";
+  for (const { entry, start, end } of sorted) {
+    const previous = covered[covered.length - 1];
+    if (previous && start <= previous.end) {
+      if (end > previous.end) {
+        previous.end = end;
+        lastId = entry.id;
+      }
+      continue;
+    }
+    if (previous) {
+      idleMs += start - previous.end;
+      if (start - previous.end >= minGapMinutes * 60000) {
+        gaps.push(interval(previous.end, start, [lastId, entry.id]));
+      }
+    }
+    covered.push({ start, end });
+    lastId = entry.id;
+  }
+
+  const segments = sorted.map(
+    ({ entry, start, end }): TimelineSegment => ({
+      lifelogId: entry.id,
+      title: entry.title,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      durationMinutes: toMinutes(end - start),
+      isStarred: entry.isStarred,
+      overlapsWith: overlapping.get(entry.id) ?? [],
+    })
+  );
+
+  return {
+    timezone: timeZone,
+    recordedMinutes: toMinutes(
+      covered.reduce((total, { start, end }) => total + end - start, 0)
+    ),
+    idleMinutes: toMinutes(idleMs),
+    segments,
+    gaps,
+    overlaps,
+    hours: hourlyActivity(sorted, covered, timeZone),
+  };
+}
+
+/**
+ * Render a timeline as a markdown table, JSON, an ASCII chart or a Mermaid
+ * gantt diagram
+ */
+export function renderTimeline(
+  timeline: Timeline,
+  format: TimelineFormat
+): string {
+  switch (format) {
+    case "markdown":
+      return renderMarkdown(timeline);
+    case "json":
+      return JSON.stringify(timeline, null, 2);
+    case "ascii":
+      return renderAscii(timeline);
+    case "mermaid":
+      return renderMermaid(timeline);
+  }
+}
+
+/**
+ * Recorded minutes and active lifelogs per local clock hour, in order
+ */
+function hourlyActivity(
+  sorted: { entry: LifelogEntry; start: number; end: number }[],
+  covered: { start: number; end: number }[],
+  timeZone: string
+): TimelineHour[] {
+  const hourOf = (time: number) =>
+    `${localDateTime(new Date(time), timeZone).slice(0, 13)}:00`;
+  const hours = new Map<string, { ms: number; ids: Set<string> }>();
+  const bucket = (hour: string) => {
+    let value = hours.get(hour);
+    if (!value) {
+      value = { ms: 0, ids: new Set() };
+      hours.set(hour, value);
+    }
+    return value;
+  };
+
+  // Split on 15-minute UTC boundaries so each piece falls in one local hour
+  const slices = (
+    start: number,
+    end: number,
+    visit: (from: number, to: number) => void
+  ) => {
+    for (let from = start; from < end; ) {
+      const to = Math.min(end, (Math.floor(from / SLICE_MS) + 1) * SLICE_MS);
+      visit(from, to);
+      from = to;
+    }
+  };
+  for (const { start, end } of covered) {
+    slices(start, end, (from, to) => {
+      bucket(hourOf(from)).ms += to - from;
+    });
+  }
+  for (const { entry, start, end } of sorted) {
+    slices(start, end, (from) => {
+      bucket(hourOf(from)).ids.add(entry.id);
+    });
+  }
+
+  return [...hours.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([hour, { ms, ids }]) => ({
+      hour,
+      recordedMinutes: toMinutes(ms),
+      lifelogCount: ids.size,
+    }));
+}
+
+function renderMarkdown(timeline: Timeline): string {
+  const timeZone = timeline.timezone;
+  const rows = [
+    ...timeline.segments.map((segment) => ({
+      start: new Date(segment.startTime).getTime(),
+      row: `| ${formatDateTime(segment.startTime, timeZone)} | ${formatTimeOfDay(segment.endTime, timeZone)} | ${formatMinutes(segment.durationMinutes)} | ${segment.isStarred ? "⭐ " : ""}${segment.title} | ${segment.lifelogId} | ${segment.overlapsWith.join(", ")} |`,
+    })),
+    ...timeline.gaps.map((gap) => ({
+      start: new Date(gap.startTime).getTime(),
+      row: `| ${formatDateTime(gap.startTime, timeZone)} | ${formatTimeOfDay(gap.endTime, timeZone)} | ${formatMinutes(gap.durationMinutes)} | _Idle_ | | |`,
+    })),
+  ].sort((a, b) => a.start - b.start);
+
+  let output = `**Recorded:** ${formatMinutes(timeline.recordedMinutes)} · **Idle:** ${formatMinutes(timeline.idleMinutes)} · **Gaps:** ${timeline.gaps.length} · **Overlaps:** ${timeline.overlaps.length}\n\n`;
+  output += "| Start | End | Duration | Activity | Lifelog | Overlaps |\n";
+  output += "|---|---|---|---|---|---|\n";
+  output += rows.map(({ row }) => row).join("\n");
+  output += "\n";
+
+  if (timeline.hours.length > 0) {
+    const busiest = Math.max(
+      ...timeline.hours.map((hour) => hour.recordedMinutes)
+    );
+    output +=
+      "\n## Activity by Hour\n\n| Hour | Recorded | Lifelogs | |\n|---|---|---|---|\n";
+    for (const hour of timeline.hours) {
+      output += `| ${hour.hour.replace("T", " ")} | ${formatMinutes(hour.recordedMinutes)} | ${hour.lifelogCount} | ${bar(hour.recordedMinutes, busiest, 20)} |\n`;
+    }
+  }
+
+  return output;
+}
+
+function renderAscii(timeline: Timeline): string {
+  if (timeline.segments.length === 0) return "";
+  const timeZone = timeline.timezone;
+  const start = Math.min(
+    ...timeline.segments.map((segment) => new Date(segment.startTime).getTime())
+  );
+  const end = Math.max(
+    ...timeline.segments.map((segment) => new Date(segment.endTime).getTime())
+  );
+  const span = Math.max(1, end - start);
+  const column = (time: number) =>
+    Math.min(
+      CHART_WIDTH - 1,
+      Math.floor(((time - start) / span) * CHART_WIDTH)
+    );
+
+  const from = formatDateTime(new Date(start), timeZone);
+  const to = formatDateTime(new Date(end), timeZone);
+  const lines = [
+    `${" ".repeat(LABEL_WIDTH + 2)}${from}${to.padStart(CHART_WIDTH - from.length)}`,
+  ];
+  for (const segment of timeline.segments) {
+    const first = column(new Date(segment.startTime).getTime());
+    const last = Math.max(first, column(new Date(segment.endTime).getTime()));
+    const cells = Array.from({ length: CHART_WIDTH }, (_, i) =>
+      i >= first && i <= last ? "#" : "."
+    ).join("");
+    const label =
+      segment.title.length > LABEL_WIDTH
+        ? `${segment.title.slice(0, LABEL_WIDTH - 1)}~`
+        : segment.title.padEnd(LABEL_WIDTH);
+    lines.push(
+      `${label} |${cells}| ${formatTimeOfDay(segment.startTime, timeZone)} (${formatMinutes(segment.durationMinutes)})`
+    );
+  }
+  return `\`\`\`\n${lines.join("\n")}\n\`\`\`\n`;
+}
+
+function renderMermaid(timeline: Timeline): string {
+  const lines = [
+    "gantt",
+    "  dateFormat YYYY-MM-DD HH:mm",
+    "  axisFormat %H:%M",
+  ];
+  let day = "";
+  timeline.segments.forEach((segment, i) => {
+    const start = localDateTime(new Date(segment.startTime), timeline.timezone);
+    if (start.slice(0, 10) !== day) {
+      day = start.slice(0, 10);
+      lines.push(`  section ${day}`);
+    }
+    // Colons, hashes and semicolons end a Mermaid task name early
+    const name = segment.title.replace(/[:#;]/g, " ").trim() || "Untitled";
+    lines.push(
+      `  ${name} :${segment.isStarred ? "crit, " : ""}s${i}, ${start.slice(0, 16).replace("T", " ")}, ${Math.max(1, segment.durationMinutes)}m`
+    );
+  });
+  return `\`\`\`mermaid\n${lines.join("\n")}\n\`\`\`\n`;
+}
+
+function interval(start: number, end: number, ids: string[]): TimelineInterval {
+  return {
+    startTime: new Date(start).toISOString(),
+    endTime: new Date(end).toISOString(),
+    durationMinutes: toMinutes(end - start),
+    lifelogIds: ids,
+  };
+}
+
+function bar(value: number, max: number, width: number): string {
+  return "█".repeat(max > 0 ? Math.round((value / max) * width) : 0);
+}
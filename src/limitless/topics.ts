@@ -0,0 +1,528 @@
+import { dateInZone, isoWeek } from "./dates.js";
+import { stem } from "./search.js";
+import type {
+  LifelogEntry,
+  TopicChange,
+  TopicComparison,
+  TopicCount,
+  TopicTrends,
+} from "./types.js";
+
+// Topics listed per period unless the caller asks for more
+const DEFAULT_TOP_TOPICS = 5;
+
+// Headings and titles summarize a conversation, so their words count double
+// towards a topic's score
+const HEADING_WEIGHT = 2;
+
+// A topic must be mentioned this often in a period to rise or decline
+const MIN_TREND_COUNT = 3;
+
+// Smoothed ratio beyond which a topic counts as rising (or, inverted,
+// declining)
+const TREND_RATIO = 2;
+
+// Candidates considered for rising and declining topics in each period
+const TREND_CANDIDATES = 50;
+
+// Function words and conversational filler that never make a topic
+const STOPWORDS = new Set([
+  "able",
+  "about",
+  "above",
+  "actually",
+  "after",
+  "again",
+  "against",
+  "ago",
+  "all",
+  "already",
+  "also",
+  "always",
+  "and",
+  "another",
+  "any",
+  "anyone",
+  "anything",
+  "anyway",
+  "are",
+  "around",
+  "back",
+  "basically",
+  "because",
+  "been",
+  "before",
+  "being",
+  "below",
+  "between",
+  "bit",
+  "both",
+  "but",
+  "called",
+  "can",
+  "cannot",
+  "come",
+  "could",
+  "day",
+  "did",
+  "didn",
+  "does",
+  "doesn",
+  "doing",
+  "don",
+  "done",
+  "down",
+  "during",
+  "each",
+  "else",
+  "even",
+  "ever",
+  "every",
+  "everything",
+  "few",
+  "for",
+  "from",
+  "further",
+  "get",
+  "getting",
+  "give",
+  "going",
+  "gonna",
+  "good",
+  "got",
+  "gotta",
+  "great",
+  "guess",
+  "had",
+  "has",
+  "have",
+  "having",
+  "her",
+  "here",
+  "hers",
+  "herself",
+  "hey",
+  "him",
+  "himself",
+  "his",
+  "hmm",
+  "how",
+  "into",
+  "isn",
+  "its",
+  "itself",
+  "just",
+  "keep",
+  "kind",
+  "know",
+  "last",
+  "let",
+  "like",
+  "little",
+  "look",
+  "lot",
+  "make",
+  "many",
+  "maybe",
+  "mean",
+  "mhm",
+  "might",
+  "more",
+  "most",
+  "much",
+  "must",
+  "myself",
+  "need",
+  "never",
+  "new",
+  "next",
+  "nice",
+  "not",
+  "now",
+  "off",
+  "oh",
+  "okay",
+  "once",
+  "one",
+  "only",
+  "other",
+  "our",
+  "ours",
+  "ourselves",
+  "out",
+  "over",
+  "own",
+  "pretty",
+  "probably",
+  "put",
+  "quite",
+  "really",
+  "right",
+  "said",
+  "same",
+  "say",
+  "see",
+  "she",
+  "should",
+  "some",
+  "something",
+  "start",
+  "still",
+  "stuff",
+  "such",
+  "sure",
+  "take",
+  "talk",
+  "tell",
+  "than",
+  "thank",
+  "thanks",
+  "that",
+  "the",
+  "their",
+  "theirs",
+  "them",
+  "themselves",
+  "then",
+  "there",
+  "these",
+  "they",
+  "thing",
+  "things",
+  "think",
+  "this",
+  "those",
+  "though",
+  "through",
+  "time",
+  "today",
+  "tomorrow",
+  "too",
+  "try",
+  "uh",
+  "uhm",
+  "um",
+  "umm",
+  "under",
+  "until",
+  "very",
+  "want",
+  "was",
+  "wasn",
+  "way",
+  "week",
+  "well",
+  "went",
+  "were",
+  "what",
+  "when",
+  "where",
+  "whether",
+  "which",
+  "while",
+  "who",
+  "whom",
+  "why",
+  "will",
+  "with",
+  "without",
+  "won",
+  "work",
+  "would",
+  "yeah",
+  "yep",
+  "yes",
+  "yesterday",
+  "yet",
+  "you",
+  "your",
+  "yours",
+  "yourself",
+  "yourselves",
+]);
+
+interface TermStats {
+  count: number;
+  weight: number;
+  // Surface forms seen for the term, so the most common one can be shown
+  forms: Map<string, number>;
+}
+
+interface RankedTopic extends TopicCount {
+  key: string;
+}
+
+const termCache = new WeakMap<LifelogEntry, Map<string, TermStats>>();
+
+/**
+ * Rank the topics of a set of lifelogs by TF-IDF. Terms are stemmed words
+ * and two-word phrases of adjacent content words; document frequencies come
+ * from `corpus`, which defaults to the lifelogs themselves. Single words are
+ * left out when a listed phrase already contains them.
+ */
+export function rankTopics(
+  entries: LifelogEntry[],
+  limit = DEFAULT_TOP_TOPICS,
+  corpus: LifelogEntry[] = entries
+): TopicCount[] {
+  return rank(entries, corpus, limit).map(({ key, ...topic }) => topic);
+}
+
+/**
+ * Top topics per day or ISO week of a range, plus topics rising and
+ * declining against the equally long `prior` period when one is given
+ */
+export function topicTrends(
+  entries: LifelogEntry[],
+  options: {
+    from: string;
+    to: string;
+    timeZone: string;
+    granularity: "day" | "week";
+    limit?: number;
+    prior?: { from: string; to: string; entries: LifelogEntry[] };
+  }
+): TopicTrends {
+  const limit = options.limit ?? DEFAULT_TOP_TOPICS;
+  const periodOf = (entry: LifelogEntry) => {
+    const date = dateInZone(new Date(entry.startTime), options.timeZone);
+    return options.granularity === "week" ? isoWeek(date) : date;
+  };
+
+  const groups = new Map<string, LifelogEntry[]>();
+  for (const entry of entries) {
+    const period = periodOf(entry);
+    groups.set(period, [...(groups.get(period) ?? []), entry]);
+  }
+  const periods = [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, group]) => ({
+      period,
+      lifelogCount: group.length,
+      topics: rankTopics(group, limit, entries),
+    }));
+
+  const rising: TopicChange[] = [];
+  const declining: TopicChange[] = [];
+  const prior = options.prior;
+  if (prior) {
+    const corpus = [...entries, ...prior.entries];
+    const current = aggregate(entries);
+    const before = aggregate(prior.entries);
+    const combined = aggregate(corpus);
+    const candidates = new Set(
+      [
+        ...rank(entries, corpus, TREND_CANDIDATES),
+        ...rank(prior.entries, corpus, TREND_CANDIDATES),
+      ].map((topic) => topic.key)
+    );
+
+    for (const key of candidates) {
+      const count = current.get(key)?.count ?? 0;
+      const priorCount = before.get(key)?.count ?? 0;
+      const change = round((count + 1) / (priorCount + 1));
+      const topic = {
+        topic: displayForm(combined.get(key) as TermStats),
+        count,
+        priorCount,
+        change,
+      };
+      if (count >= MIN_TREND_COUNT && change >= TREND_RATIO) {
+        rising.push(topic);
+      } else if (priorCount >= MIN_TREND_COUNT && change <= 1 / TREND_RATIO) {
+        declining.push(topic);
+      }
+    }
+    rising.sort(
+      (a, b) =>
+        b.change - a.change ||
+        b.count - a.count ||
+        a.topic.localeCompare(b.topic)
+    );
+    declining.sort(
+      (a, b) =>
+        a.change - b.change ||
+        b.priorCount - a.priorCount ||
+        a.topic.localeCompare(b.topic)
+    );
+  }
+
+  return {
+    granularity: options.granularity,
+    from: options.from,
+    to: options.to,
+    lifelogCount: entries.length,
+    overall: rankTopics(entries, limit * 2, entries),
+    periods,
+    prior: prior
+      ? {
+          from: prior.from,
+          to: prior.to,
+          lifelogCount: prior.entries.length,
+        }
+      : null,
+    rising: rising.slice(0, limit),
+    declining: declining.slice(0, limit),
+  };
+}
+
+/**
+ * Compare the top topics of two sets of lifelogs, ranked against their
+ * combined corpus. Overlap is the Jaccard index of the two topic lists;
+ * new topics are those only among the second's, dropped ones only among
+ * the first's.
+ */
+export function compareTopics(
+  first: LifelogEntry[],
+  second: LifelogEntry[],
+  limit = DEFAULT_TOP_TOPICS
+): TopicComparison {
+  const corpus = [...first, ...second];
+  const combined = aggregate(corpus);
+  const firstTopics = rank(first, corpus, limit);
+  const secondTopics = rank(second, corpus, limit);
+  const firstKeys = new Set(firstTopics.map((topic) => topic.key));
+  const secondKeys = new Set(secondTopics.map((topic) => topic.key));
+  const label = (key: string) => displayForm(combined.get(key) as TermStats);
+
+  const shared = [...firstKeys].filter((key) => secondKeys.has(key));
+  const union = new Set([...firstKeys, ...secondKeys]);
+  return {
+    first: firstTopics.map(({ key, ...topic }) => topic),
+    second: secondTopics.map(({ key, ...topic }) => topic),
+    jaccard: union.size > 0 ? round(shared.length / union.size) : 0,
+    shared: shared.map(label),
+    new: [...secondKeys].filter((key) => !firstKeys.has(key)).map(label),
+    dropped: [...firstKeys].filter((key) => !secondKeys.has(key)).map(label),
+  };
+}
+
+function rank(
+  entries: LifelogEntry[],
+  corpus: LifelogEntry[],
+  limit: number
+): RankedTopic[] {
+  const documentFrequency = new Map<string, number>();
+  for (const entry of corpus) {
+    for (const key of termsOf(entry).keys()) {
+      documentFrequency.set(key, (documentFrequency.get(key) ?? 0) + 1);
+    }
+  }
+  const idf = (key: string) =>
+    Math.log((1 + corpus.length) / (1 + (documentFrequency.get(key) ?? 0))) + 1;
+
+  const ranked = [...aggregate(entries).entries()]
+    // A phrase heard once is more likely a coincidence than a topic
+    .filter(([key, stats]) => !key.includes(" ") || stats.count >= 2)
+    .map(([key, stats]) => ({
+      key,
+      topic: displayForm(stats),
+      count: stats.count,
+      score: round(stats.weight * idf(key)),
+    }))
+    .sort(
+      (a, b) =>
+        b.score - a.score || b.count - a.count || a.topic.localeCompare(b.topic)
+    );
+
+  const selected: RankedTopic[] = [];
+  for (const topic of ranked) {
+    if (selected.length >= limit) break;
+    const words = topic.key.split(" ");
+    if (words.length > 1) {
+      for (let i = selected.length - 1; i >= 0; i--) {
+        if (words.includes(selected[i].key)) selected.splice(i, 1);
+      }
+    } else if (
+      selected.some((other) => other.key.split(" ").includes(topic.key))
+    ) {
+      continue;
+    }
+    selected.push(topic);
+  }
+  return selected;
+}
+
+function aggregate(entries: LifelogEntry[]): Map<string, TermStats> {
+  const totals = new Map<string, TermStats>();
+  for (const entry of entries) {
+    for (const [key, stats] of termsOf(entry)) {
+      const total = totals.get(key) ?? {
+        count: 0,
+        weight: 0,
+        forms: new Map(),
+      };
+      total.count += stats.count;
+      total.weight += stats.weight;
+      for (const [form, count] of stats.forms) {
+        total.forms.set(form, (total.forms.get(form) ?? 0) + count);
+      }
+      totals.set(key, total);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Words and two-word phrases of a lifelog's title, headings and content,
+ * keyed by their stems
+ */
+function termsOf(entry: LifelogEntry): Map<string, TermStats> {
+  const cached = termCache.get(entry);
+  if (cached) return cached;
+
+  const terms = new Map<string, TermStats>();
+  const add = (key: string, form: string, weight: number) => {
+    const stats = terms.get(key) ?? { count: 0, weight: 0, forms: new Map() };
+    stats.count++;
+    stats.weight += weight;
+    stats.forms.set(form, (stats.forms.get(form) ?? 0) + 1);
+    terms.set(key, stats);
+  };
+
+  const texts = [
+    { text: entry.title, weight: HEADING_WEIGHT },
+    ...entry.contents.map((item) => ({
+      text: item.content,
+      weight: item.type.startsWith("heading") ? HEADING_WEIGHT : 1,
+    })),
+  ];
+  for (const { text, weight } of texts) {
+    // Phrases never span punctuation or a stopword
+    for (const clause of text.split(/[.,;:!?()"“”\n]+/)) {
+      let previous: { key: string; form: string } | undefined;
+      for (const match of clause.matchAll(/[\p{L}\p{N}]+(?:['’]\p{L}+)?/gu)) {
+        const form = match[0].toLowerCase().replace(/['’]\p{L}+$/u, "");
+        if (form.length < 3 || /\d/.test(form) || STOPWORDS.has(form)) {
+          previous = undefined;
+          continue;
+        }
+        const key = stem(form);
+        add(key, form, weight);
+        if (previous && previous.key !== key) {
+          add(`${previous.key} ${key}`, `${previous.form} ${form}`, weight);
+        }
+        previous = { key, form };
+      }
+    }
+  }
+
+  termCache.set(entry, terms);
+  return terms;
+}
+
+function displayForm(stats: TermStats): string {
+  let best = "";
+  let bestCount = 0;
+  for (const [form, count] of stats.forms) {
+    if (count > bestCount) {
+      best = form;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
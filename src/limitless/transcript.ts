@@ -0,0 +1,112 @@
+import type {
+  LifelogContentItem,
+  LifelogEntry,
+  TranscriptChunkInfo,
+  TranscriptFormat,
+} from "./types.js";
+
+// Rough characters per token of English text, for token budgets
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * One content item or markdown block of a transcript, rendered as text
+ */
+export interface TranscriptUnit {
+  text: string;
+  // The content item it renders; absent for markdown blocks
+  item?: LifelogContentItem;
+}
+
+export interface TranscriptChunk {
+  info: TranscriptChunkInfo;
+  units: TranscriptUnit[];
+}
+
+/**
+ * Split a lifelog into transcript units: its content items rendered with
+ * `renderItem`, its markdown split into blank-line separated blocks, or
+ * the items followed by the blocks. Contents fall back to the markdown for
+ * lifelogs without content items.
+ */
+export function transcriptUnits(
+  entry: LifelogEntry,
+  format: TranscriptFormat,
+  renderItem: (item: LifelogContentItem) => string
+): TranscriptUnit[] {
+  const items = entry.contents.map((item) => ({
+    text: renderItem(item),
+    item,
+  }));
+  const blocks = (entry.markdown ?? "")
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((text) => ({ text }));
+
+  switch (format) {
+    case "contents":
+      return items.length > 0 ? items : blocks;
+    case "markdown":
+      return blocks;
+    case "both":
+      return [...items, ...blocks];
+  }
+}
+
+/**
+ * Pack transcript units from `offset` on into chunks of at most `maxChars`
+ * characters and return chunk `page`. Chunks only break between units, so a
+ * single unit longer than the budget makes up a chunk on its own.
+ */
+export function chunkTranscript(
+  units: TranscriptUnit[],
+  options: {
+    format: TranscriptFormat;
+    maxChars?: number;
+    offset?: number;
+    page?: number;
+  }
+): TranscriptChunk {
+  const maxChars = options.maxChars ?? Number.POSITIVE_INFINITY;
+  const offset = options.offset ?? 0;
+  const page = options.page ?? 0;
+  if (offset < 0 || (offset > 0 && offset >= units.length)) {
+    throw new Error(
+      `Offset ${offset} is out of range; the transcript has ${units.length} items.`
+    );
+  }
+
+  // Start index of every chunk
+  const starts = [offset];
+  let size = 0;
+  for (let i = offset; i < units.length; i++) {
+    const length = units[i].text.length;
+    if (i > starts[starts.length - 1] && size + length > maxChars) {
+      starts.push(i);
+      size = 0;
+    }
+    // Units are joined by a blank line
+    size += length + 2;
+  }
+
+  if (page < 0 || page >= starts.length) {
+    throw new Error(
+      `Page ${page} is out of range; the transcript has ${starts.length} chunk${starts.length === 1 ? "" : "s"} from offset ${offset}.`
+    );
+  }
+  const start = starts[page];
+  const end = page + 1 < starts.length ? starts[page + 1] : units.length;
+  return {
+    info: {
+      format: options.format,
+      index: page,
+      count: starts.length,
+      offset,
+      start,
+      end,
+      totalItems: units.length,
+      nextIndex: page + 1 < starts.length ? page + 1 : null,
+    },
+    units: units.slice(start, end),
+  };
+}
@@ -1,5 +1,227 @@
 import { z } from "zod";
 
+import { isValidTimeZone } from "./dates.js";
+
+/**
+ * How strictly API responses are validated
+ */
+export const ValidationModeSchema = z.enum(["strict", "lenient"]);
+
+export type ValidationMode = z.infer<typeof ValidationModeSchema>;
+
+/**
+ * A named Limitless account, e.g. "work" or "personal"
+ */
+export const AccountProfileSchema = z.object({
+  apiKey: z.string().min(1).describe("Limitless API key for this account."),
+  baseUrl: z
+    .string()
+    .url()
+    .optional()
+    .describe("Base URL for this account. Defaults to the top-level baseUrl."),
+  timezone: z
+    .string()
+    .optional()
+    .refine((timeZone) => !timeZone || isValidTimeZone(timeZone), {
+      message: "Invalid IANA timezone",
+    })
+    .describe(
+      "Default IANA timezone for this account. Defaults to the top-level timezone."
+    ),
+});
+
+export type AccountProfile = z.infer<typeof AccountProfileSchema>;
+
+/**
+ * Kinds of personal data the redaction layer detects on its own
+ */
+export const RedactionDetectorSchema = z.enum([
+  "email",
+  "phone",
+  "card",
+  "ssn",
+  "iban",
+  "address",
+]);
+
+export type RedactionDetector = z.infer<typeof RedactionDetectorSchema>;
+
+/**
+ * How redacted text is replaced: with a label, with a label and a short
+ * salted hash so equal values stay recognizable, or by dropping the whole
+ * content item
+ */
+export const RedactionModeSchema = z.enum(["mask", "hash", "drop-item"]);
+
+export type RedactionMode = z.infer<typeof RedactionModeSchema>;
+
+/**
+ * Redaction applied to lifelogs before any tool or resource formats them
+ */
+export const RedactionConfigSchema = z.object({
+  detectors: z
+    .array(RedactionDetectorSchema)
+    .optional()
+    .default(["email", "phone", "card", "ssn", "iban", "address"])
+    .describe(
+      "Built-in detectors to run: email, phone, card (Luhn-checked), ssn, iban (checksum-verified) and address (street addresses). Defaults to all of them."
+    ),
+  patterns: z
+    .array(
+      z.string().refine(
+        (pattern) => {
+          try {
+            new RegExp(pattern, "gu");
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: "Invalid regular expression" }
+      )
+    )
+    .optional()
+    .default([])
+    .describe(
+      "Additional regular expressions (JavaScript syntax, case-sensitive) whose matches are redacted."
+    ),
+  keywords: z
+    .array(z.string().min(1))
+    .optional()
+    .default([])
+    .describe(
+      "Words or phrases redacted wherever they appear as whole words, ignoring case."
+    ),
+  mode: RedactionModeSchema.optional()
+    .default("mask")
+    .describe(
+      "'mask' replaces matches with a label such as [EMAIL], 'hash' with the label and a short salted hash such as [EMAIL:3f2a9c1b], and 'drop-item' removes every content item (and markdown line) with a match. Defaults to 'mask'."
+    ),
+  pseudonymizeSpeakers: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Replace speaker names, and mentions of them in the text, with stable pseudonyms such as 'Speaker 4f1c2a'. 'You' is kept."
+    ),
+  salt: z
+    .string()
+    .optional()
+    .default("")
+    .describe(
+      "Salt for hashes and speaker pseudonyms, so they cannot be matched against other installations."
+    ),
+  allowAudio: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Allow getLifelogAudio while redaction is enabled. Audio cannot be redacted, so it carries everything the transcripts hide. Defaults to false, which refuses audio downloads."
+    ),
+});
+
+export type RedactionConfig = z.infer<typeof RedactionConfigSchema>;
+
+/**
+ * Number of redactions per detector, custom pattern and keyword, plus
+ * pseudonymized speaker names and dropped content items
+ */
+export type RedactionAudit = Partial<
+  Record<RedactionDetector | "pattern" | "keyword" | "speaker" | "item", number>
+>;
+
+export const WeekdaySchema = z.enum([
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+  "sun",
+]);
+
+export type Weekday = z.infer<typeof WeekdaySchema>;
+
+const TIME_OF_DAY = /^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+/**
+ * A recurring local time window. Windows whose end is not after their start
+ * run past midnight, and belong to the day they start on.
+ */
+export const ExclusionWindowSchema = z.object({
+  days: z
+    .array(WeekdaySchema)
+    .optional()
+    .describe("Days of the week the window applies to. Defaults to every day."),
+  from: z
+    .string()
+    .regex(TIME_OF_DAY, "Expected a time as HH:MM")
+    .optional()
+    .default("00:00")
+    .describe("Local start time as HH:MM. Defaults to 00:00."),
+  to: z
+    .string()
+    .regex(TIME_OF_DAY, "Expected a time as HH:MM")
+    .optional()
+    .default("24:00")
+    .describe("Local end time as HH:MM, exclusive. Defaults to 24:00."),
+});
+
+export type ExclusionWindow = z.infer<typeof ExclusionWindowSchema>;
+
+/**
+ * A rule withholding whole lifelogs from the MCP client. A rule matches when
+ * every condition it sets matches; a condition matches when any of its
+ * values does.
+ */
+export const ExclusionRuleSchema = z
+  .object({
+    name: z
+      .string()
+      .optional()
+      .describe("Label for the rule, for your own reference."),
+    titleKeywords: z
+      .array(z.string().min(1))
+      .optional()
+      .describe(
+        "Words or phrases matched as whole words in the title, ignoring case."
+      ),
+    speakers: z
+      .array(z.string().min(1))
+      .optional()
+      .describe(
+        "Speaker names matched against every speakerName in the transcript, ignoring case; 'alice' matches 'Alice Smith'."
+      ),
+    windows: z
+      .array(ExclusionWindowSchema)
+      .optional()
+      .describe(
+        "Day-of-week and time-of-day windows; lifelogs overlapping one match."
+      ),
+    ids: z.array(z.string().min(1)).optional().describe("Lifelog IDs."),
+    timezone: z
+      .string()
+      .optional()
+      .describe(
+        "IANA timezone the windows are read in. Defaults to the account's timezone."
+      ),
+  })
+  .refine(
+    (rule) =>
+      Boolean(
+        rule.titleKeywords?.length ||
+          rule.speakers?.length ||
+          rule.windows?.length ||
+          rule.ids?.length
+      ),
+    {
+      message:
+        "An exclusion rule needs at least one of titleKeywords, speakers, windows or ids",
+    }
+  );
+
+export type ExclusionRule = z.infer<typeof ExclusionRuleSchema>;
+
 /**
  * Configuration for the Limitless API client
  */
@@ -19,6 +241,124 @@ export const LimitlessConfigSchema = z
       .describe(
         "Base URL for Limitless API. Defaults to https://api.limitless.ai"
       ),
+    cacheDir: z
+      .string()
+      .optional()
+      .describe(
+        "Directory for the persistent lifelog cache. When set, lifelogs are stored on disk and only new or changed entries are fetched. If not provided, will use LIMITLESS_CACHE_DIR environment variable; caching is disabled when neither is set."
+      ),
+    exportDir: z
+      .string()
+      .optional()
+      .describe(
+        "Directory that exportLifelogs writes files to. If not provided, will use LIMITLESS_EXPORT_DIR environment variable; exports are only returned inline when neither is set."
+      ),
+    audioDir: z
+      .string()
+      .optional()
+      .describe(
+        "Directory that getLifelogAudio saves recordings to. If not provided, will use LIMITLESS_AUDIO_DIR environment variable; audio is only returned inline when neither is set."
+      ),
+    maxAudioBytes: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        "Largest audio download getLifelogAudio returns or saves, in bytes. Defaults to 10 MB."
+      ),
+    timezone: z
+      .string()
+      .optional()
+      .refine((timeZone) => !timeZone || isValidTimeZone(timeZone), {
+        message: "Invalid IANA timezone",
+      })
+      .describe(
+        "Default IANA timezone (e.g., 'America/Los_Angeles') for day and week boundaries, API date filters and displayed times. If not provided, will use LIMITLESS_TIMEZONE environment variable, then the server's local timezone."
+      ),
+    timeoutMs: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        "Timeout for each API request in milliseconds. Defaults to 30000."
+      ),
+    maxRetries: z
+      .number()
+      .int()
+      .min(0)
+      .max(10)
+      .optional()
+      .describe(
+        "How many times to retry requests that fail with 429, 5xx or a transient network error. Defaults to 3; 0 disables retries."
+      ),
+    retryBaseDelayMs: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        "Initial retry backoff in milliseconds, doubled on each attempt with random jitter. Defaults to 500."
+      ),
+    retryMaxDelayMs: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        "Longest single wait between retries in milliseconds, including Retry-After delays requested by the API. Defaults to 30000."
+      ),
+    validation: ValidationModeSchema.optional().describe(
+      "How API responses are checked against the expected schema. 'lenient' (default) treats unknown content types as text, repairs or skips malformed entries and reports the drift; 'strict' fails the request instead. If not provided, will use LIMITLESS_VALIDATION environment variable."
+    ),
+    accounts: z
+      .record(
+        z
+          .string()
+          .regex(
+            /^[\w.-]+$/,
+            "Account names may only use letters, digits, '.', '_' and '-'"
+          )
+          .refine(
+            (name) => name !== "all",
+            '"all" is reserved for querying every account'
+          ),
+        AccountProfileSchema
+      )
+      .optional()
+      .describe(
+        "Named account profiles (name → apiKey, baseUrl, timezone) for switching between several Limitless accounts, e.g. work and personal. Tools accept an account argument to pick one. If not provided, will use LIMITLESS_ACCOUNTS environment variable (JSON)."
+      ),
+    defaultAccount: z
+      .string()
+      .optional()
+      .describe(
+        "Account profile used when a tool call names none. Defaults to the top-level apiKey as account 'default', or else the first profile. If not provided, will use LIMITLESS_DEFAULT_ACCOUNT environment variable."
+      ),
+    requestsPerMinute: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        "Client-side limit on API requests started per minute. Defaults to 180."
+      ),
+    redaction: RedactionConfigSchema.optional().describe(
+      "Redact personal data (emails, phone and card numbers, addresses, custom patterns and keywords, speaker names) from lifelogs before they reach the MCP client. If not provided, will use LIMITLESS_REDACTION environment variable (JSON); redaction is disabled when neither is set."
+    ),
+    allowWrites: z
+      .boolean()
+      .optional()
+      .describe(
+        "Enable the tools that star, unstar and delete lifelogs. If not provided, will use LIMITLESS_ALLOW_WRITES environment variable ('true'); the server is read-only when neither is set."
+      ),
+    exclusions: z
+      .array(ExclusionRuleSchema)
+      .optional()
+      .describe(
+        "Rules withholding whole lifelogs (by title keyword, speaker, time window or ID) from every tool and resource. If not provided, will use LIMITLESS_EXCLUSIONS environment variable (JSON); nothing is withheld when neither is set."
+      ),
   })
   .default({});
 
@@ -55,6 +395,26 @@ export const LifelogEntrySchema = z.object({
 
 export type LifelogEntry = z.infer<typeof LifelogEntrySchema>;
 
+/**
+ * Lifelog metadata returned as structured tool output
+ */
+export const LifelogSummarySchema = LifelogEntrySchema.pick({
+  id: true,
+  title: true,
+  startTime: true,
+  endTime: true,
+  isStarred: true,
+  updatedAt: true,
+}).extend({
+  topics: z.array(z.string()).describe("Heading2 topics of the lifelog"),
+  account: z
+    .string()
+    .optional()
+    .describe("Account profile the lifelog came from"),
+});
+
+export type LifelogSummary = z.infer<typeof LifelogSummarySchema>;
+
 /**
  * Parameters for listing lifelogs
  */
@@ -65,6 +425,7 @@ export const ListLifelogsParamsSchema = z.object({
   end_time: z.string().optional(),
   cursor: z.string().optional(),
   sort_direction: z.enum(["asc", "desc"]).optional(),
+  is_starred: z.boolean().optional(),
   limit: z.number().min(1).max(10).default(10),
 });
 
@@ -81,6 +442,7 @@ export const ListLifelogsResponseSchema = z.object({
     .object({
       lifelogs: z.object({
         count: z.number(),
+        nextCursor: z.string().nullable().optional(),
       }),
     })
     .optional(),
@@ -88,6 +450,16 @@ export const ListLifelogsResponseSchema = z.object({
 
 export type ListLifelogsResponse = z.infer<typeof ListLifelogsResponseSchema>;
 
+/**
+ * Limits for following the API's next cursor across multiple pages
+ */
+export const PaginationOptionsSchema = z.object({
+  maxEntries: z.number().int().min(1).optional(),
+  timeBudgetMs: z.number().int().min(1).optional(),
+});
+
+export type PaginationOptions = z.infer<typeof PaginationOptionsSchema>;
+
 /**
  * Response for getting a single lifelog
  */
@@ -108,6 +480,85 @@ export const GetLifelogParamsSchema = z.object({
 
 export type GetLifelogParams = z.infer<typeof GetLifelogParamsSchema>;
 
+/**
+ * Who wrote a chat message: you, or the Limitless assistant
+ */
+export const ChatRoleSchema = z.enum(["user", "assistant"]);
+
+export type ChatRole = z.infer<typeof ChatRoleSchema>;
+
+/**
+ * Message within an AI chat
+ */
+export const ChatMessageSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  createdAt: z.string(),
+  user: z.object({
+    role: ChatRoleSchema,
+    name: z.string().nullable().optional(),
+  }),
+});
+
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+
+/**
+ * AI chat from the Limitless app. Daily insights are chats the app starts
+ * on a schedule.
+ */
+export const ChatSchema = z.object({
+  id: z.string(),
+  summary: z.string().nullable().optional(),
+  createdAt: z.string(),
+  startedAt: z.string().nullable().optional(),
+  visibility: z.string().optional(),
+  messages: z.array(ChatMessageSchema),
+});
+
+export type Chat = z.infer<typeof ChatSchema>;
+
+/**
+ * Parameters for listing chats
+ */
+export const ListChatsParamsSchema = z.object({
+  cursor: z.string().optional(),
+  sort_direction: z.enum(["asc", "desc"]).optional(),
+  is_scheduled: z.boolean().optional(),
+  limit: z.number().min(1).max(10).default(10),
+});
+
+export type ListChatsParams = z.infer<typeof ListChatsParamsSchema>;
+
+/**
+ * Response for listing chats
+ */
+export const ListChatsResponseSchema = z.object({
+  data: z.object({
+    chats: z.array(ChatSchema),
+  }),
+  meta: z
+    .object({
+      chats: z.object({
+        count: z.number(),
+        nextCursor: z.string().nullable().optional(),
+      }),
+    })
+    .optional(),
+});
+
+export type ListChatsResponse = z.infer<typeof ListChatsResponseSchema>;
+
+/**
+ * Response for getting a specific chat
+ */
+export const GetChatResponseSchema = z.object({
+  data: z.object({
+    chat: ChatSchema,
+  }),
+});
+
+export type GetChatResponse = z.infer<typeof GetChatResponseSchema>;
+
 /**
  * Limitless API error response
  */
@@ -129,6 +580,587 @@ export const SearchLifelogsParamsSchema = z.object({
   timezone: z.string().optional(),
   cursor: z.string().optional(),
   limit: z.number().min(1).max(10).default(10),
+  offset: z.number().int().min(0).optional(),
 });
 
 export type SearchLifelogsParams = z.infer<typeof SearchLifelogsParamsSchema>;
+
+/**
+ * A highlighted excerpt from a search hit, pointing at the content item it
+ * came from
+ */
+export const SearchSnippetSchema = z.object({
+  field: z.enum(["title", "heading1", "heading2", "blockquote", "text"]),
+  contentIndex: z.number().optional(),
+  text: z.string(),
+  speakerName: z.string().optional(),
+  startTime: z.string().optional(),
+  startOffsetMs: z.number().optional(),
+  endOffsetMs: z.number().optional(),
+});
+
+export type SearchSnippet = z.infer<typeof SearchSnippetSchema>;
+
+/**
+ * A ranked search result for a single lifelog entry
+ */
+export const SearchHitSchema = z.object({
+  lifelogId: z.string(),
+  score: z.number(),
+  snippets: z.array(SearchSnippetSchema),
+});
+
+export type SearchHit = z.infer<typeof SearchHitSchema>;
+
+/**
+ * Response for searching lifelogs: matching entries in rank order together
+ * with their hits
+ */
+export const SearchLifelogsResponseSchema = ListLifelogsResponseSchema.extend({
+  data: z.object({
+    lifelogs: z.array(LifelogEntrySchema),
+    hits: z.array(SearchHitSchema),
+  }),
+});
+
+export type SearchLifelogsResponse = z.infer<
+  typeof SearchLifelogsResponseSchema
+>;
+
+/**
+ * Outcome of an incremental cache sync
+ */
+export const CacheSyncResultSchema = z.object({
+  fetchedWindows: z.number(),
+  added: z.number(),
+  updated: z.number(),
+  removed: z.number(),
+});
+
+export type CacheSyncResult = z.infer<typeof CacheSyncResultSchema>;
+
+/**
+ * Aggregated speaking statistics for one speaker over a set of lifelogs
+ */
+export const SpeakerSummarySchema = z.object({
+  speakerName: z.string(),
+  talkTimeMs: z.number(),
+  utterances: z.number(),
+  conversations: z.number(),
+  firstSeen: z.string(),
+  lastSeen: z.string(),
+});
+
+export type SpeakerSummary = z.infer<typeof SpeakerSummarySchema>;
+
+/**
+ * A single blockquote said by a speaker, with where it came from
+ */
+export const SpeakerUtteranceSchema = z.object({
+  lifelogId: z.string(),
+  lifelogTitle: z.string(),
+  contentIndex: z.number(),
+  speakerName: z.string(),
+  content: z.string(),
+  startTime: z.string(),
+  endTime: z.string().optional(),
+  startOffsetMs: z.number().optional(),
+  endOffsetMs: z.number().optional(),
+});
+
+export type SpeakerUtterance = z.infer<typeof SpeakerUtteranceSchema>;
+
+/**
+ * An action item or commitment found in lifelog content
+ */
+export const ActionItemSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  kind: z.enum([
+    "assignment",
+    "commitment",
+    "reminder",
+    "request",
+    "obligation",
+    "explicit",
+  ]),
+  trigger: z.string(),
+  owner: z.string().optional(),
+  dueHint: z.string().optional(),
+  dueDate: z.string().optional(),
+  lifelogId: z.string(),
+  lifelogTitle: z.string(),
+  contentIndex: z.number(),
+  speakerName: z.string().optional(),
+  timestamp: z.string(),
+  startOffsetMs: z.number().optional(),
+});
+
+export type ActionItem = z.infer<typeof ActionItemSchema>;
+
+/**
+ * Formats lifelogs can be exported to
+ */
+export const ExportFormatSchema = z.enum([
+  "markdown",
+  "json",
+  "csv",
+  "srt",
+  "vtt",
+]);
+
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+/**
+ * A rendered lifelog export
+ */
+export const LifelogExportSchema = z.object({
+  filename: z.string(),
+  mimeType: z.string(),
+  content: z.string(),
+  count: z.number(),
+});
+
+export type LifelogExport = z.infer<typeof LifelogExportSchema>;
+
+/**
+ * Structured output of getLifelogs
+ */
+export const LifelogListOutputSchema = z.object({
+  lifelogs: z.array(LifelogSummarySchema),
+  total: z
+    .number()
+    .describe("Total number of entries matched, including any not returned"),
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe("Cursor to continue from, or null when everything was returned"),
+});
+
+export type LifelogListOutput = z.infer<typeof LifelogListOutputSchema>;
+
+/**
+ * Which parts of a lifelog's transcript are returned: the structured
+ * content items, the raw markdown, or both
+ */
+export const TranscriptFormatSchema = z.enum(["contents", "markdown", "both"]);
+
+export type TranscriptFormat = z.infer<typeof TranscriptFormatSchema>;
+
+/**
+ * Position of a transcript chunk within the whole transcript
+ */
+export const TranscriptChunkInfoSchema = z.object({
+  format: TranscriptFormatSchema,
+  index: z.number().describe("Chunk index, 0-based"),
+  count: z.number().describe("Number of chunks from `offset` on"),
+  offset: z.number().describe("Item the chunks were counted from"),
+  start: z.number().describe("First item in this chunk"),
+  end: z.number().describe("Item after the last one in this chunk"),
+  totalItems: z
+    .number()
+    .describe("Content items, then markdown blocks, in the transcript"),
+  nextIndex: z
+    .number()
+    .nullable()
+    .describe("Chunk index to request next, as `page`"),
+});
+
+export type TranscriptChunkInfo = z.infer<typeof TranscriptChunkInfoSchema>;
+
+/**
+ * Structured output of getLifelogEntry. The lifelog's contents and markdown
+ * are those of the returned chunk.
+ */
+export const LifelogEntryOutputSchema = z.object({
+  lifelog: LifelogEntrySchema.extend({
+    topics: z.array(z.string()).describe("Heading2 topics of the lifelog"),
+  }),
+  chunk: TranscriptChunkInfoSchema.optional(),
+});
+
+export type LifelogEntryOutput = z.infer<typeof LifelogEntryOutputSchema>;
+
+/**
+ * Structured output of searchLifelogs, with hits in the same order as
+ * lifelogs
+ */
+export const SearchLifelogsOutputSchema = LifelogListOutputSchema.extend({
+  query: z.string(),
+  hits: z.array(SearchHitSchema),
+  nextOffset: z
+    .number()
+    .nullable()
+    .describe(
+      "Offset of the next ranked hits among the scanned entries, or null when every hit was returned"
+    ),
+});
+
+export type SearchLifelogsOutput = z.infer<typeof SearchLifelogsOutputSchema>;
+
+/**
+ * A lifelog's place on a day's timeline
+ */
+export const DigestTimelineEntrySchema = z.object({
+  lifelogId: z.string(),
+  title: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  durationMinutes: z.number(),
+  isStarred: z.boolean(),
+});
+
+export type DigestTimelineEntry = z.infer<typeof DigestTimelineEntrySchema>;
+
+/**
+ * Statistics for one day computed from lifelog contents, returned as the
+ * structured output of generateDailyDigest
+ */
+export const DailyDigestSchema = z.object({
+  date: z.string().describe("Day of the digest (YYYY-MM-DD)"),
+  timezone: z.string().describe("IANA timezone the day was read in"),
+  totalMinutes: z
+    .number()
+    .describe(
+      "Minutes recorded on the day, counting overlapping lifelogs once"
+    ),
+  lifelogCount: z.number(),
+  conversationCount: z
+    .number()
+    .describe("Lifelogs with at least one attributed speaker"),
+  timeline: z.array(DigestTimelineEntrySchema),
+  topSpeakers: z.array(SpeakerSummarySchema),
+  topics: z.array(z.string()).describe("Heading2 topics in the order heard"),
+  starred: z.array(DigestTimelineEntrySchema),
+  longestConversation: DigestTimelineEntrySchema.nullable(),
+});
+
+export type DailyDigest = z.infer<typeof DailyDigestSchema>;
+
+/**
+ * Output formats of getTimeline
+ */
+export const TimelineFormatSchema = z.enum([
+  "markdown",
+  "json",
+  "ascii",
+  "mermaid",
+]);
+
+export type TimelineFormat = z.infer<typeof TimelineFormatSchema>;
+
+/**
+ * A lifelog on a timeline, with the lifelogs recorded at the same time
+ */
+export const TimelineSegmentSchema = z.object({
+  lifelogId: z.string(),
+  title: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  durationMinutes: z.number(),
+  isStarred: z.boolean(),
+  overlapsWith: z.array(z.string()),
+});
+
+export type TimelineSegment = z.infer<typeof TimelineSegmentSchema>;
+
+/**
+ * A stretch of a timeline without recordings, or recorded by several
+ * lifelogs at once
+ */
+export const TimelineIntervalSchema = z.object({
+  startTime: z.string(),
+  endTime: z.string(),
+  durationMinutes: z.number(),
+  lifelogIds: z.array(z.string()),
+});
+
+export type TimelineInterval = z.infer<typeof TimelineIntervalSchema>;
+
+/**
+ * Minutes recorded within one local clock hour
+ */
+export const TimelineHourSchema = z.object({
+  hour: z.string().describe("Local hour (YYYY-MM-DDTHH:00)"),
+  recordedMinutes: z.number(),
+  lifelogCount: z.number(),
+});
+
+export type TimelineHour = z.infer<typeof TimelineHourSchema>;
+
+/**
+ * Lifelogs merged into a chronological timeline with idle gaps, overlaps
+ * and per-hour activity
+ */
+export const TimelineSchema = z.object({
+  timezone: z.string(),
+  recordedMinutes: z
+    .number()
+    .describe("Minutes covered by recordings, counting overlaps once"),
+  idleMinutes: z
+    .number()
+    .describe("Minutes between the first and last recording not covered"),
+  segments: z.array(TimelineSegmentSchema),
+  gaps: z.array(TimelineIntervalSchema),
+  overlaps: z.array(TimelineIntervalSchema),
+  hours: z.array(TimelineHourSchema),
+});
+
+export type Timeline = z.infer<typeof TimelineSchema>;
+
+/**
+ * Turn-taking statistics for one speaker
+ */
+export const SpeakerTurnStatsSchema = z.object({
+  speakerName: z.string(),
+  talkTimeMs: z.number(),
+  talkTimePercent: z
+    .number()
+    .describe("Share of all attributed talk time, 0-100"),
+  turns: z.number().describe("Runs of consecutive utterances by this speaker"),
+  averageTurnMs: z.number(),
+  words: z.number(),
+  wordsPerMinute: z
+    .number()
+    .nullable()
+    .describe("Words per minute of talk time, null without timings"),
+  interruptionsMade: z.number(),
+  interruptionsReceived: z.number(),
+  overlapMs: z
+    .number()
+    .describe("Time this speaker started talking over someone else"),
+});
+
+export type SpeakerTurnStats = z.infer<typeof SpeakerTurnStatsSchema>;
+
+/**
+ * The longest uninterrupted run of speech by one speaker
+ */
+export const MonologueSchema = z.object({
+  speakerName: z.string(),
+  lifelogId: z.string(),
+  lifelogTitle: z.string(),
+  startTime: z.string(),
+  durationMs: z.number(),
+  words: z.number(),
+});
+
+export type Monologue = z.infer<typeof MonologueSchema>;
+
+/**
+ * Conversation analytics over one or more lifelogs, returned as the
+ * structured output of analyzeConversation
+ */
+export const ConversationAnalysisSchema = z.object({
+  lifelogCount: z.number(),
+  totalTalkTimeMs: z.number(),
+  speakers: z.array(SpeakerTurnStatsSchema),
+  overlapCount: z
+    .number()
+    .describe("Times a speaker started before the previous one finished"),
+  totalOverlapMs: z.number(),
+  interruptionCount: z
+    .number()
+    .describe("Overlaps after which the previous speaker stopped first"),
+  longestMonologue: MonologueSchema.nullable(),
+});
+
+export type ConversationAnalysis = z.infer<typeof ConversationAnalysisSchema>;
+
+/**
+ * A topic term or phrase ranked by TF-IDF
+ */
+export const TopicCountSchema = z.object({
+  topic: z.string(),
+  count: z.number().describe("Occurrences in headings and content"),
+  score: z.number().describe("TF-IDF score, comparable within one response"),
+});
+
+export type TopicCount = z.infer<typeof TopicCountSchema>;
+
+/**
+ * Top topics of one day or ISO week
+ */
+export const TopicPeriodSchema = z.object({
+  period: z.string().describe("YYYY-MM-DD day or YYYY-Www ISO week"),
+  lifelogCount: z.number(),
+  topics: z.array(TopicCountSchema),
+});
+
+export type TopicPeriod = z.infer<typeof TopicPeriodSchema>;
+
+/**
+ * A topic mentioned noticeably more or less than in the prior period
+ */
+export const TopicChangeSchema = z.object({
+  topic: z.string(),
+  count: z.number(),
+  priorCount: z.number(),
+  change: z
+    .number()
+    .describe("Smoothed ratio of count to prior count, (count+1)/(prior+1)"),
+});
+
+export type TopicChange = z.infer<typeof TopicChangeSchema>;
+
+/**
+ * Structured output of topicTrends
+ */
+export const TopicTrendsSchema = z.object({
+  granularity: z.enum(["day", "week"]),
+  from: z.string(),
+  to: z.string(),
+  lifelogCount: z.number(),
+  overall: z.array(TopicCountSchema),
+  periods: z.array(TopicPeriodSchema),
+  prior: z
+    .object({ from: z.string(), to: z.string(), lifelogCount: z.number() })
+    .nullable()
+    .describe("The equally long period before `from`, when compared"),
+  rising: z.array(TopicChangeSchema),
+  declining: z.array(TopicChangeSchema),
+});
+
+export type TopicTrends = z.infer<typeof TopicTrendsSchema>;
+
+/**
+ * The passage that best represents a starred lifelog
+ */
+export const StarredExcerptSchema = z.object({
+  speakerName: z.string().nullable(),
+  text: z.string(),
+});
+
+export type StarredExcerpt = z.infer<typeof StarredExcerptSchema>;
+
+/**
+ * A starred lifelog with its topics and key excerpt
+ */
+export const StarredMomentSchema = z.object({
+  lifelogId: z.string(),
+  title: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  month: z.string().describe("YYYY-MM month of the start, local time"),
+  topics: z.array(z.string()),
+  excerpt: StarredExcerptSchema.nullable(),
+});
+
+export type StarredMoment = z.infer<typeof StarredMomentSchema>;
+
+/**
+ * Number of starred lifelogs in one month
+ */
+export const StarredMonthSchema = z.object({
+  month: z.string(),
+  count: z.number(),
+});
+
+export type StarredMonth = z.infer<typeof StarredMonthSchema>;
+
+/**
+ * Structured output of getStarredLifelogs
+ */
+export const StarredLifelogsSchema = z.object({
+  from: z.string().nullable(),
+  to: z.string().nullable(),
+  timezone: z.string(),
+  total: z.number(),
+  truncated: z
+    .boolean()
+    .describe("Whether more starred lifelogs may exist beyond the budget"),
+  groupBy: z.enum(["none", "month"]),
+  moments: z.array(StarredMomentSchema).describe("Newest first"),
+  months: z.array(StarredMonthSchema).describe("Newest month first"),
+});
+
+export type StarredLifelogs = z.infer<typeof StarredLifelogsSchema>;
+
+/**
+ * Top topics of two periods and how much they overlap
+ */
+export const TopicComparisonSchema = z.object({
+  first: z.array(TopicCountSchema),
+  second: z.array(TopicCountSchema),
+  jaccard: z
+    .number()
+    .describe("Shared topics over all topics of either period, 0 to 1"),
+  shared: z.array(z.string()),
+  new: z.array(z.string()).describe("Topics only among the second period's"),
+  dropped: z.array(z.string()).describe("Topics only among the first period's"),
+});
+
+export type TopicComparison = z.infer<typeof TopicComparisonSchema>;
+
+/**
+ * Totals for one side of a date range comparison
+ */
+export const DateRangeStatsSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  lifelogCount: z.number(),
+  recordedMinutes: z
+    .number()
+    .describe("Minutes recorded in the range, overlaps counted once"),
+  conversationCount: z
+    .number()
+    .describe("Lifelogs with at least one attributed speaker"),
+  speakerCount: z.number(),
+});
+
+export type DateRangeStats = z.infer<typeof DateRangeStatsSchema>;
+
+/**
+ * Structured output of compareDateRanges
+ */
+export const DateRangeComparisonSchema = z.object({
+  timezone: z.string(),
+  first: DateRangeStatsSchema,
+  second: DateRangeStatsSchema,
+  recordedMinutesChange: z.number().describe("Second minus first"),
+  conversationCountChange: z.number().describe("Second minus first"),
+  sharedSpeakers: z.array(z.string()),
+  speakersOnlyInFirst: z.array(SpeakerSummarySchema),
+  speakersOnlyInSecond: z.array(SpeakerSummarySchema),
+  topics: TopicComparisonSchema,
+});
+
+export type DateRangeComparison = z.infer<typeof DateRangeComparisonSchema>;
+
+/**
+ * Summary of a chat as returned by listChats
+ */
+export const ChatSummarySchema = ChatSchema.pick({
+  id: true,
+  summary: true,
+  createdAt: true,
+  startedAt: true,
+}).extend({
+  messageCount: z.number(),
+  lastMessageAt: z.string().nullable(),
+});
+
+export type ChatSummary = z.infer<typeof ChatSummarySchema>;
+
+/**
+ * Structured output of listChats
+ */
+export const ChatListOutputSchema = z.object({
+  chats: z.array(ChatSummarySchema),
+  total: z.number().describe("Number of chats returned"),
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe("Cursor for the next page, or null when there is none"),
+});
+
+export type ChatListOutput = z.infer<typeof ChatListOutputSchema>;
+
+/**
+ * Structured output of getChat
+ */
+export const ChatOutputSchema = z.object({
+  chat: ChatSchema,
+});
+
+export type ChatOutput = z.infer<typeof ChatOutputSchema>;
@@ -0,0 +1,297 @@
+import { z } from "zod";
+
+import { LimitlessValidationError } from "./errors.js";
+import {
+  type Chat,
+  ChatMessageSchema,
+  ChatSchema,
+  type GetChatResponse,
+  GetChatResponseSchema,
+  type GetLifelogResponse,
+  GetLifelogResponseSchema,
+  LifelogContentItemSchema,
+  type LifelogEntry,
+  LifelogEntrySchema,
+  type ListChatsResponse,
+  ListChatsResponseSchema,
+  type ListLifelogsResponse,
+  ListLifelogsResponseSchema,
+  type ValidationMode,
+} from "./types.js";
+
+const CONTENT_TYPES: readonly string[] =
+  LifelogContentItemSchema.shape.type.options;
+
+/**
+ * A validated API response and the schema drift tolerated to produce it
+ */
+export interface Validated<T> {
+  value: T;
+  warnings: string[];
+}
+
+/**
+ * Validate a list lifelogs response. Lenient mode repairs or skips entries
+ * that do not match the schema; strict mode throws on any mismatch.
+ */
+export function validateListLifelogsResponse(
+  data: unknown,
+  mode: ValidationMode
+): Validated<ListLifelogsResponse> {
+  if (mode === "strict") {
+    return {
+      value: parseStrict(ListLifelogsResponseSchema, data),
+      warnings: [],
+    };
+  }
+
+  // Only the envelope has to be intact; entries are checked one by one
+  const envelope = ListLifelogsResponseSchema.extend({
+    data: z.object({ lifelogs: z.array(z.unknown()) }),
+  });
+  const parsed = envelope.safeParse(data);
+  if (!parsed.success) {
+    throw validationError(parsed.error);
+  }
+
+  const warnings: string[] = [];
+  const lifelogs: LifelogEntry[] = [];
+  parsed.data.data.lifelogs.forEach((entry, i) => {
+    const repaired = repairEntry(entry, `data.lifelogs[${i}]`, warnings);
+    if (repaired) lifelogs.push(repaired);
+  });
+
+  return {
+    value: { data: { lifelogs }, meta: parsed.data.meta },
+    warnings,
+  };
+}
+
+/**
+ * Validate a single lifelog response with the same modes as
+ * validateListLifelogsResponse. Lenient mode only throws when the entry
+ * cannot be repaired.
+ */
+export function validateLifelogResponse(
+  data: unknown,
+  mode: ValidationMode
+): Validated<GetLifelogResponse> {
+  if (mode === "strict") {
+    return { value: parseStrict(GetLifelogResponseSchema, data), warnings: [] };
+  }
+
+  const warnings: string[] = [];
+  const raw = (data as { data?: { lifelog?: unknown } } | undefined)?.data
+    ?.lifelog;
+  const lifelog = repairEntry(raw, "data.lifelog", warnings, true);
+  return { value: { data: { lifelog: lifelog as LifelogEntry } }, warnings };
+}
+
+/**
+ * Validate a list chats response with the same modes as
+ * validateListLifelogsResponse
+ */
+export function validateListChatsResponse(
+  data: unknown,
+  mode: ValidationMode
+): Validated<ListChatsResponse> {
+  if (mode === "strict") {
+    return { value: parseStrict(ListChatsResponseSchema, data), warnings: [] };
+  }
+
+  const envelope = ListChatsResponseSchema.extend({
+    data: z.object({ chats: z.array(z.unknown()) }),
+  });
+  const parsed = envelope.safeParse(data);
+  if (!parsed.success) {
+    throw validationError(parsed.error);
+  }
+
+  const warnings: string[] = [];
+  const chats: Chat[] = [];
+  parsed.data.data.chats.forEach((chat, i) => {
+    const repaired = repairChat(chat, `data.chats[${i}]`, warnings);
+    if (repaired) chats.push(repaired);
+  });
+
+  return { value: { data: { chats }, meta: parsed.data.meta }, warnings };
+}
+
+/**
+ * Validate a single chat response; lenient mode only throws when the chat
+ * cannot be repaired
+ */
+export function validateChatResponse(
+  data: unknown,
+  mode: ValidationMode
+): Validated<GetChatResponse> {
+  if (mode === "strict") {
+    return { value: parseStrict(GetChatResponseSchema, data), warnings: [] };
+  }
+
+  const warnings: string[] = [];
+  const raw = (data as { data?: { chat?: unknown } } | undefined)?.data?.chat;
+  const chat = repairChat(raw, "data.chat", warnings, true);
+  return { value: { data: { chat: chat as Chat } }, warnings };
+}
+
+function parseStrict<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  data: unknown
+): T {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw validationError(parsed.error);
+  }
+  return parsed.data;
+}
+
+/**
+ * Coerce unknown content types to text and fill fields the formatting code
+ * relies on, recording each change. Entries that still fail are skipped, or
+ * rejected when `required`.
+ */
+function repairEntry(
+  raw: unknown,
+  path: string,
+  warnings: string[],
+  required = false
+): LifelogEntry | undefined {
+  if (!isRecord(raw)) {
+    if (required) {
+      throw new LimitlessValidationError(
+        `Limitless API response did not match the expected schema: ${path}: expected a lifelog object`
+      );
+    }
+    warnings.push(`${path}: expected a lifelog object; entry skipped`);
+    return undefined;
+  }
+
+  // Repairs are only reported for entries that are kept
+  const reported = warnings.length;
+  const entry: Record<string, unknown> = { ...raw };
+  if (typeof entry.title !== "string") {
+    warnings.push(`${path}.title: missing; using "Untitled"`);
+    entry.title = "Untitled";
+  }
+  if (
+    typeof entry.endTime !== "string" &&
+    typeof entry.startTime === "string"
+  ) {
+    warnings.push(`${path}.endTime: missing; using startTime`);
+    entry.endTime = entry.startTime;
+  }
+  if (!Array.isArray(entry.contents)) {
+    warnings.push(`${path}.contents: missing; using an empty list`);
+    entry.contents = [];
+  }
+  entry.contents = (entry.contents as unknown[]).map((item, i) => {
+    if (!isRecord(item)) return item;
+    const itemPath = `${path}.contents[${i}]`;
+    const repaired = { ...item };
+    if (
+      typeof repaired.type !== "string" ||
+      !CONTENT_TYPES.includes(repaired.type)
+    ) {
+      warnings.push(
+        `${itemPath}.type: unknown content type ${JSON.stringify(repaired.type)}; treated as text`
+      );
+      repaired.type = "text";
+    }
+    if (typeof repaired.content !== "string") {
+      warnings.push(`${itemPath}.content: missing; using an empty string`);
+      repaired.content = "";
+    }
+    return repaired;
+  });
+
+  const parsed = LifelogEntrySchema.safeParse(entry);
+  if (parsed.success) {
+    return parsed.data;
+  }
+  if (required) {
+    throw validationError(parsed.error, path);
+  }
+  warnings.splice(reported);
+  warnings.push(`${describeIssues(parsed.error, path)}; entry skipped`);
+  return undefined;
+}
+
+/**
+ * Skip chat messages that do not match the schema, recording each one.
+ * Chats that still fail are skipped, or rejected when `required`.
+ */
+function repairChat(
+  raw: unknown,
+  path: string,
+  warnings: string[],
+  required = false
+): Chat | undefined {
+  if (!isRecord(raw)) {
+    if (required) {
+      throw new LimitlessValidationError(
+        `Limitless API response did not match the expected schema: ${path}: expected a chat object`
+      );
+    }
+    warnings.push(`${path}: expected a chat object; chat skipped`);
+    return undefined;
+  }
+
+  const reported = warnings.length;
+  const chat: Record<string, unknown> = { ...raw };
+  if (!Array.isArray(chat.messages)) {
+    warnings.push(`${path}.messages: missing; using an empty list`);
+    chat.messages = [];
+  }
+  chat.messages = (chat.messages as unknown[]).filter((message, i) => {
+    const parsed = ChatMessageSchema.safeParse(message);
+    if (!parsed.success) {
+      warnings.push(
+        `${describeIssues(parsed.error, `${path}.messages[${i}]`)}; message skipped`
+      );
+    }
+    return parsed.success;
+  });
+
+  const parsed = ChatSchema.safeParse(chat);
+  if (parsed.success) {
+    return parsed.data;
+  }
+  if (required) {
+    throw validationError(parsed.error, path);
+  }
+  warnings.splice(reported);
+  warnings.push(`${describeIssues(parsed.error, path)}; chat skipped`);
+  return undefined;
+}
+
+function validationError(
+  error: z.ZodError,
+  prefix?: string
+): LimitlessValidationError {
+  return new LimitlessValidationError(
+    `Limitless API response did not match the expected schema: ${describeIssues(error, prefix)}`
+  );
+}
+
+function describeIssues(error: z.ZodError, prefix?: string): string {
+  return error.issues
+    .map((issue) => `${formatPath(issue.path, prefix)}: ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Render a zod issue path as a property path, e.g. data.lifelogs[0].title
+ */
+function formatPath(path: (string | number)[], prefix = ""): string {
+  let output = prefix;
+  for (const part of path) {
+    output +=
+      typeof part === "number" ? `[${part}]` : output ? `.${part}` : part;
+  }
+  return output || "(root)";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import { extractActionItems, findDueHint } from "../src/limitless/actions.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+describe("actions", () => {
+	describe("findDueHint", () => {
+		// 2024-01-17 is a Wednesday
+		const base = "2024-01-17";
+
+		it("should resolve relative deadlines against the base date", () => {
+			expect(findDueHint("Send it by Friday.", base)).toEqual({
+				dueHint: "by Friday",
+				dueDate: "2024-01-19",
+			});
+			expect(findDueHint("Ship it next Wednesday", base)?.dueDate).toBe(
+				"2024-01-31",
+			);
+			expect(findDueHint("Do it tomorrow", base)?.dueDate).toBe("2024-01-18");
+			expect(findDueHint("Done by end of week", base)?.dueDate).toBe(
+				"2024-01-19",
+			);
+			expect(findDueHint("Start next week", base)?.dueDate).toBe("2024-01-22");
+			expect(findDueHint("Wrap up by end of month", base)?.dueDate).toBe(
+				"2024-01-31",
+			);
+		});
+
+		it("should resolve explicit dates", () => {
+			expect(findDueHint("Due 2024-02-01", base)?.dueDate).toBe("2024-02-01");
+			expect(findDueHint("by Jan 5th", base)?.dueDate).toBe("2025-01-05");
+			expect(findDueHint("on March 3", base)?.dueDate).toBe("2024-03-03");
+			expect(findDueHint("before Sept. 9", base)?.dueDate).toBe("2024-09-09");
+		});
+
+		it("should return undefined without a deadline", () => {
+			expect(findDueHint("Sounds good", base)).toBeUndefined();
+		});
+
+		it("should only read whole month names as dates", () => {
+			expect(findDueHint("We need to decide 3 options", base)).toBeUndefined();
+			expect(findDueHint("Ask Marco 2 questions", base)).toBeUndefined();
+			expect(findDueHint("Junior 4 will lead", base)).toBeUndefined();
+		});
+	});
+
+	describe("extractActionItems", () => {
+		const entry: LifelogEntry = {
+			id: "sync",
+			title: "Weekly sync",
+			startTime: "2024-01-17T16:00:00Z",
+			endTime: "2024-01-17T17:00:00Z",
+			isStarred: false,
+			contents: [
+				{ content: "Weekly sync", type: "heading1" },
+				{
+					content: "Great progress. I'll send the notes by Friday.",
+					type: "blockquote",
+					speakerName: "Alice",
+					startTime: "2024-01-17T16:05:00Z",
+					startOffsetMs: 300000,
+				},
+				{
+					content: "Bob will update the roadmap tomorrow.",
+					type: "blockquote",
+					speakerName: "Alice",
+					startTime: "2024-01-17T16:06:00Z",
+				},
+				{
+					content: "Could you review my PR? We need to fix the build.",
+					type: "blockquote",
+					speakerName: "Bob",
+					startTime: "2024-01-17T16:07:00Z",
+				},
+				{
+					content: "Remind me to book the room.",
+					type: "blockquote",
+					speakerName: "Bob",
+					startTime: "2024-01-17T16:08:00Z",
+				},
+				{
+					content: "I was ill last week.",
+					type: "blockquote",
+					speakerName: "Bob",
+					startTime: "2024-01-17T16:09:00Z",
+				},
+			],
+		};
+
+		it("should extract owners, kinds and due dates deterministically", () => {
+			const items = extractActionItems([entry]);
+
+			expect(
+				items.map(({ text, kind, owner, dueDate }) => ({
+					text,
+					kind,
+					owner,
+					dueDate,
+				})),
+			).toEqual([
+				{
+					text: "I'll send the notes by Friday.",
+					kind: "commitment",
+					owner: "Alice",
+					dueDate: "2024-01-19",
+				},
+				{
+					text: "Bob will update the roadmap tomorrow.",
+					kind: "assignment",
+					owner: "Bob",
+					dueDate: "2024-01-18",
+				},
+				{
+					text: "Could you review my PR?",
+					kind: "request",
+					owner: "Alice",
+					dueDate: undefined,
+				},
+				{
+					text: "We need to fix the build.",
+					kind: "obligation",
+					owner: "team",
+					dueDate: undefined,
+				},
+				{
+					text: "Remind me to book the room.",
+					kind: "reminder",
+					owner: "Bob",
+					dueDate: undefined,
+				},
+			]);
+			expect(extractActionItems([entry])).toEqual(items);
+		});
+
+		it("should accept curly apostrophes", () => {
+			const items = extractActionItems([
+				{
+					...entry,
+					contents: [
+						{
+							content: "I’ll send the notes. Let’s ship it. Bob’ll test it.",
+							type: "blockquote",
+							speakerName: "Alice",
+						},
+						{ content: "Sure.", type: "blockquote", speakerName: "Bob" },
+					],
+				},
+			]);
+
+			expect(items.map(({ kind, owner }) => ({ kind, owner }))).toEqual([
+				{ kind: "commitment", owner: "Alice" },
+				{ kind: "obligation", owner: "team" },
+				{ kind: "assignment", owner: "Bob" },
+			]);
+		});
+
+		it("should point each item back at its source", () => {
+			const [first] = extractActionItems([entry]);
+
+			expect(first).toMatchObject({
+				id: "sync:1:1",
+				lifelogId: "sync",
+				lifelogTitle: "Weekly sync",
+				contentIndex: 1,
+				speakerName: "Alice",
+				timestamp: "2024-01-17T16:05:00Z",
+				startOffsetMs: 300000,
+				trigger: "i'll",
+				dueHint: "by Friday",
+			});
+		});
+
+		it("should resolve relative deadlines in the given timezone", () => {
+			const late: LifelogEntry = {
+				...entry,
+				contents: [
+					{
+						content: "I'll call them tomorrow.",
+						type: "blockquote",
+						speakerName: "Alice",
+						startTime: "2024-01-18T03:00:00Z",
+					},
+				],
+			};
+
+			expect(extractActionItems([late])[0].dueDate).toBe("2024-01-19");
+			expect(
+				extractActionItems([late], "America/Los_Angeles")[0].dueDate,
+			).toBe("2024-01-18");
+		});
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+	audioFilename,
+	lifelogAudioWindow,
+	validateAudioWindow,
+} from "../src/limitless/audio.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const entry: LifelogEntry = {
+	id: "entry_1",
+	title: "Standup",
+	startTime: "2024-01-15T09:00:00Z",
+	endTime: "2024-01-15T09:30:00Z",
+	isStarred: false,
+	contents: [
+		{ content: "Standup", type: "heading1" },
+		{
+			content: "Shipped it",
+			type: "blockquote",
+			speakerName: "Bob",
+			startTime: "2024-01-15T09:05:00Z",
+			endTime: "2024-01-15T09:05:10Z",
+		},
+		{
+			content: "Nice",
+			type: "blockquote",
+			speakerName: "Alice",
+			startOffsetMs: 29 * 60 * 1000,
+			endOffsetMs: 29 * 60 * 1000 + 5000,
+		},
+	],
+};
+
+describe("lifelogAudioWindow", () => {
+	it("should cover the whole lifelog without a content index", () => {
+		const window = lifelogAudioWindow(entry);
+
+		expect(window.start.toISOString()).toBe("2024-01-15T09:00:00.000Z");
+		expect(window.end.toISOString()).toBe("2024-01-15T09:30:00.000Z");
+	});
+
+	it("should use an item's times, padded", () => {
+		const window = lifelogAudioWindow(entry, 1, 2000);
+
+		expect(window.start.toISOString()).toBe("2024-01-15T09:04:58.000Z");
+		expect(window.end.toISOString()).toBe("2024-01-15T09:05:12.000Z");
+	});
+
+	it("should fall back to offsets and stay within the lifelog", () => {
+		const window = lifelogAudioWindow(entry, 2, 60000);
+
+		expect(window.start.toISOString()).toBe("2024-01-15T09:28:00.000Z");
+		expect(window.end.toISOString()).toBe("2024-01-15T09:30:00.000Z");
+	});
+
+	it("should reject items out of range or without times", () => {
+		expect(() => lifelogAudioWindow(entry, 3)).toThrow(
+			"Content item 3 is out of range; lifelog entry_1 has 3 items.",
+		);
+		expect(() => lifelogAudioWindow(entry, 0)).toThrow("has no recording times");
+	});
+});
+
+describe("validateAudioWindow", () => {
+	it("should reject empty, inverted and overlong windows", () => {
+		const at = (time: string) => new Date(`2024-01-15T${time}Z`);
+
+		expect(() => validateAudioWindow({ start: at("09:00:00"), end: at("11:00:00") })).not.toThrow();
+		expect(() => validateAudioWindow({ start: at("09:00:00"), end: at("09:00:00") })).toThrow(
+			"The end must be after the start",
+		);
+		expect(() => validateAudioWindow({ start: at("09:00:00"), end: at("11:00:01") })).toThrow(
+			"limited to 2 hours",
+		);
+		expect(() =>
+			validateAudioWindow({ start: new Date("nope"), end: at("09:00:00") }),
+		).toThrow("Invalid audio window");
+	});
+});
+
+describe("audioFilename", () => {
+	it("should name files after the lifelog and item, or the window", () => {
+		const window = lifelogAudioWindow(entry);
+
+		expect(audioFilename(window, { lifelogId: "entry_1", contentIndex: 2 })).toBe(
+			"lifelog-entry_1-item-2.ogg",
+		);
+		expect(audioFilename(window)).toBe("audio-20240115T090000Z-20240115T093000Z.ogg");
+	});
+});
@@ -0,0 +1,233 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { LifelogCache } from "../src/limitless/cache.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const HOUR = 60 * 60 * 1000;
+
+const entry = (
+	id: string,
+	startTime: string,
+	updatedAt = "2024-01-15T12:00:00Z",
+): LifelogEntry => ({
+	id,
+	title: `Conversation ${id}`,
+	startTime,
+	endTime: startTime,
+	contents: [],
+	isStarred: false,
+	updatedAt,
+});
+
+describe("LifelogCache", () => {
+	let directory: string;
+	let cache: LifelogCache;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), "limitless-cache-"));
+		cache = new LifelogCache(directory);
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it("should persist entries as JSON lines keyed by id", async () => {
+		await cache.upsert([
+			entry("a", "2024-01-15T09:00:00Z"),
+			entry("b", "2024-01-15T10:00:00Z"),
+		]);
+
+		const lines = (await readFile(join(directory, "lifelogs.jsonl"), "utf8"))
+			.trim()
+			.split("\n");
+		expect(lines.map((line) => JSON.parse(line).id)).toEqual(["a", "b"]);
+
+		const reloaded = new LifelogCache(directory);
+		expect((await reloaded.get("b"))?.title).toBe("Conversation b");
+	});
+
+	it("should only replace entries with a newer updatedAt", async () => {
+		await cache.upsert([entry("a", "2024-01-15T09:00:00Z")]);
+
+		const stale = await cache.upsert([
+			entry("a", "2024-01-15T09:00:00Z", "2024-01-15T11:00:00Z"),
+		]);
+		const fresh = await cache.upsert([
+			entry("a", "2024-01-15T09:00:00Z", "2024-01-16T00:00:00Z"),
+		]);
+
+		expect(stale).toEqual({ added: 0, updated: 0 });
+		expect(fresh).toEqual({ added: 0, updated: 1 });
+	});
+
+	it("should apply local changes and removals to cached entries", async () => {
+		await cache.upsert([
+			entry("a", "2024-01-15T09:00:00Z"),
+			entry("b", "2024-01-15T10:00:00Z"),
+		]);
+
+		await cache.patch("a", { isStarred: true });
+		await cache.patch("missing", { isStarred: true });
+		await cache.remove("b");
+
+		const reloaded = new LifelogCache(directory);
+		expect((await reloaded.get("a"))?.isStarred).toBe(true);
+		expect(await reloaded.get("b")).toBeUndefined();
+		expect(await reloaded.get("missing")).toBeUndefined();
+	});
+
+	it("should skip unreadable lines of a corrupt cache file", async () => {
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+		await writeFile(
+			join(directory, "lifelogs.jsonl"),
+			`${JSON.stringify(entry("a", "2024-01-15T09:00:00Z"))}\n{"id": "b", "tit\n`,
+		);
+		await writeFile(join(directory, "sync-state.json"), "{not json");
+
+		expect((await cache.get("a"))?.title).toBe("Conversation a");
+		expect(await cache.get("b")).toBeUndefined();
+		expect(
+			await cache.missingWindows(
+				new Date("2024-01-15T00:00:00Z"),
+				new Date("2024-01-16T00:00:00Z"),
+			),
+		).toHaveLength(1);
+		expect(error).toHaveBeenCalledWith(
+			expect.stringContaining("Skipped 1 unreadable line(s)"),
+		);
+		error.mockRestore();
+	});
+
+	it("should recover after a failed load or write", async () => {
+		// A file where the cache directory belongs makes reads and writes fail
+		const blocked = join(directory, "blocked");
+		await writeFile(blocked, "");
+		const blockedCache = new LifelogCache(blocked);
+
+		await expect(blockedCache.get("a")).rejects.toThrow();
+		await rm(blocked);
+		expect(await blockedCache.get("a")).toBeUndefined();
+
+		await writeFile(blocked, "");
+		await expect(
+			blockedCache.upsert([entry("a", "2024-01-15T09:00:00Z")]),
+		).rejects.toThrow();
+		await rm(blocked);
+		await expect(
+			blockedCache.upsert([entry("b", "2024-01-15T10:00:00Z")]),
+		).resolves.toEqual({ added: 1, updated: 0 });
+		const reloaded = new LifelogCache(blocked);
+		expect((await reloaded.get("a"))?.id).toBe("a");
+		expect((await reloaded.get("b"))?.id).toBe("b");
+	});
+
+	it("should query entries by start time window, oldest first", async () => {
+		await cache.upsert([
+			entry("late", "2024-01-15T18:00:00Z"),
+			entry("early", "2024-01-15T08:00:00Z"),
+			entry("other-day", "2024-01-16T08:00:00Z"),
+		]);
+
+		const entries = await cache.query(
+			new Date("2024-01-15T00:00:00Z"),
+			new Date("2024-01-16T00:00:00Z"),
+		);
+
+		expect(entries.map((e) => e.id)).toEqual(["early", "late"]);
+	});
+
+	describe("sync", () => {
+		const start = new Date("2024-01-15T00:00:00Z");
+		const end = new Date("2024-01-16T00:00:00Z");
+		const syncedAt = new Date("2024-01-20T00:00:00Z").getTime();
+
+		it("should skip windows that were synced after they settled", async () => {
+			const fetchWindow = vi
+				.fn()
+				.mockResolvedValue([entry("a", "2024-01-15T09:00:00Z")]);
+
+			const first = await cache.sync(fetchWindow, start, end, syncedAt);
+			const second = await cache.sync(fetchWindow, start, end, syncedAt);
+
+			expect(first).toEqual({
+				fetchedWindows: 1,
+				added: 1,
+				updated: 0,
+				removed: 0,
+			});
+			expect(second.fetchedWindows).toBe(0);
+			expect(fetchWindow).toHaveBeenCalledTimes(1);
+		});
+
+		it("should only fetch the parts of a window that are not settled", async () => {
+			const fetchWindow = vi.fn().mockResolvedValue([]);
+			const recentSync = new Date("2024-01-15T12:00:00Z").getTime();
+
+			await cache.sync(fetchWindow, start, end, recentSync);
+			await cache.sync(
+				fetchWindow,
+				new Date("2024-01-14T00:00:00Z"),
+				end,
+				syncedAt,
+			);
+
+			expect(fetchWindow).toHaveBeenLastCalledWith(
+				new Date(recentSync - 2 * HOUR),
+				end,
+			);
+			expect(fetchWindow).toHaveBeenCalledWith(
+				new Date("2024-01-14T00:00:00Z"),
+				start,
+			);
+		});
+
+		it("should refetch settled windows after a week, or when forced", async () => {
+			const fetchWindow = vi
+				.fn()
+				.mockResolvedValueOnce([entry("a", "2024-01-15T09:00:00Z")])
+				.mockResolvedValueOnce([
+					entry("a", "2024-01-15T09:00:00Z", "2024-01-21T00:00:00Z"),
+				])
+				.mockResolvedValueOnce([]);
+
+			await cache.sync(fetchWindow, start, end, syncedAt);
+			const forced = await cache.sync(fetchWindow, start, end, syncedAt, {
+				force: true,
+			});
+			const withinWeek = await cache.sync(
+				fetchWindow,
+				start,
+				end,
+				syncedAt + 6 * 24 * HOUR,
+			);
+			const afterWeek = await cache.sync(
+				fetchWindow,
+				start,
+				end,
+				syncedAt + 8 * 24 * HOUR,
+			);
+
+			expect(forced).toMatchObject({ fetchedWindows: 1, updated: 1 });
+			expect(withinWeek.fetchedWindows).toBe(0);
+			expect(afterWeek).toMatchObject({ fetchedWindows: 1, removed: 1 });
+			expect(fetchWindow).toHaveBeenCalledTimes(3);
+		});
+
+		it("should drop cached entries that disappeared upstream", async () => {
+			await cache.upsert([entry("gone", "2024-01-15T09:00:00Z")]);
+
+			const result = await cache.sync(
+				vi.fn().mockResolvedValue([]),
+				start,
+				end,
+				syncedAt,
+			);
+
+			expect(result.removed).toBe(1);
+			expect(await cache.get("gone")).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { compareDateRanges } from "../src/limitless/compare.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const lifelog = (
+	id: string,
+	startTime: string,
+	endTime: string,
+	title: string,
+	lines: [string, string][],
+): LifelogEntry => ({
+	id,
+	title,
+	startTime,
+	endTime,
+	isStarred: false,
+	contents: lines.map(([speakerName, content]) => ({
+		type: "blockquote" as const,
+		content,
+		speakerName,
+		startOffsetMs: 0,
+		endOffsetMs: 60000,
+	})),
+});
+
+const first = [
+	lifelog("a", "2024-01-15T09:00:00Z", "2024-01-15T10:00:00Z", "Budget review", [
+		["Alice", "The budget review is due Friday."],
+		["Bob", "Then the budget review comes first."],
+	]),
+	// Overlaps the first recording by half an hour
+	lifelog("b", "2024-01-15T09:30:00Z", "2024-01-15T10:30:00Z", "Hiring plan", [
+		["Alice", "The hiring plan needs engineers."],
+		["Alice", "The hiring plan is approved."],
+	]),
+];
+
+const second = [
+	lifelog("c", "2024-01-22T09:00:00Z", "2024-01-22T09:45:00Z", "Hiring sync", [
+		["Alice", "Our hiring plan has three interviews."],
+		["Carol", "The hiring plan looks solid."],
+	]),
+	{
+		...lifelog("d", "2024-01-22T12:00:00Z", "2024-01-22T12:15:00Z", "Notes", []),
+		contents: [{ type: "heading2" as const, content: "Garden fence" }],
+	},
+];
+
+describe("compareDateRanges", () => {
+	it("should diff recorded minutes and conversations", () => {
+		const comparison = compareDateRanges(
+			{ from: "2024-01-15", to: "2024-01-15", entries: first },
+			{ from: "2024-01-22", to: "2024-01-22", entries: second },
+			"UTC",
+		);
+
+		expect(comparison.first).toEqual({
+			from: "2024-01-15",
+			to: "2024-01-15",
+			lifelogCount: 2,
+			recordedMinutes: 90,
+			conversationCount: 2,
+			speakerCount: 2,
+		});
+		expect(comparison.second.recordedMinutes).toBe(60);
+		expect(comparison.second.conversationCount).toBe(1);
+		expect(comparison.recordedMinutesChange).toBe(-30);
+		expect(comparison.conversationCountChange).toBe(-1);
+	});
+
+	it("should list speakers heard in only one range", () => {
+		const comparison = compareDateRanges(
+			{ from: "2024-01-15", to: "2024-01-15", entries: first },
+			{ from: "2024-01-22", to: "2024-01-22", entries: second },
+			"UTC",
+		);
+
+		expect(comparison.sharedSpeakers).toEqual(["Alice"]);
+		expect(comparison.speakersOnlyInFirst.map((s) => s.speakerName)).toEqual([
+			"Bob",
+		]);
+		expect(comparison.speakersOnlyInSecond.map((s) => s.speakerName)).toEqual([
+			"Carol",
+		]);
+	});
+
+	it("should clip recordings to the range in its timezone", () => {
+		const comparison = compareDateRanges(
+			// 23:00-01:00 in UTC, of which one hour falls on the 15th
+			{
+				from: "2024-01-15",
+				to: "2024-01-15",
+				entries: [
+					lifelog("late", "2024-01-15T23:00:00Z", "2024-01-16T01:00:00Z", "Late", []),
+				],
+			},
+			{ from: "2024-01-22", to: "2024-01-22", entries: [] },
+			"UTC",
+		);
+
+		expect(comparison.first.recordedMinutes).toBe(60);
+		expect(comparison.first.conversationCount).toBe(0);
+		expect(comparison.topics.jaccard).toBe(0);
+	});
+
+	it("should report topic overlap with new and dropped topics", () => {
+		const { topics } = compareDateRanges(
+			{ from: "2024-01-15", to: "2024-01-15", entries: first },
+			{ from: "2024-01-22", to: "2024-01-22", entries: second },
+			"UTC",
+			2,
+		);
+
+		expect(topics.first.map((t) => t.topic)).toEqual(["budget review", "hiring"]);
+		expect(topics.second.map((t) => t.topic)).toEqual(["hiring", "fence"]);
+		expect(topics.shared).toEqual(["hiring"]);
+		expect(topics.new).toEqual(["fence"]);
+		expect(topics.dropped).toEqual(["budget review"]);
+		expect(topics.jaccard).toBe(0.33);
+	});
+});
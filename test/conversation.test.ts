@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { analyzeConversation } from "../src/limitless/conversation.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const quote = (
+	speakerName: string,
+	content: string,
+	startOffsetMs: number,
+	endOffsetMs: number,
+) => ({
+	type: "blockquote" as const,
+	content,
+	speakerName,
+	startOffsetMs,
+	endOffsetMs,
+});
+
+const oneOnOne: LifelogEntry = {
+	id: "1on1",
+	title: "Weekly 1:1",
+	startTime: "2024-01-15T09:00:00Z",
+	endTime: "2024-01-15T09:30:00Z",
+	isStarred: false,
+	contents: [
+		{ type: "heading1", content: "Weekly 1:1" },
+		quote("Alice", "How did the launch go", 0, 60000),
+		quote("Alice", "and what would you change next time", 60000, 120000),
+		// Bob talks over Alice and keeps going after she stops
+		quote("Bob", "It went well overall I think", 110000, 140000),
+		// Alice says "right" while Bob is still talking
+		quote("Alice", "right", 150000, 152000),
+		quote("Bob", "but the rollout plan slipped", 140000, 200000),
+		{ type: "blockquote", content: "Unattributed aside" },
+	],
+};
+
+describe("conversation", () => {
+	describe("analyzeConversation", () => {
+		it("should compute talk time, share and turns per speaker", () => {
+			const analysis = analyzeConversation([oneOnOne]);
+			const [alice, bob] = analysis.speakers;
+
+			expect(analysis.totalTalkTimeMs).toBe(212000);
+			expect(alice).toMatchObject({
+				speakerName: "Alice",
+				talkTimeMs: 122000,
+				talkTimePercent: 57.5,
+				turns: 2,
+				averageTurnMs: 61000,
+				words: 13,
+			});
+			expect(bob).toMatchObject({
+				speakerName: "Bob",
+				talkTimeMs: 90000,
+				turns: 1,
+				averageTurnMs: 90000,
+				words: 11,
+			});
+		});
+
+		it("should compute words per minute of talk time", () => {
+			const analysis = analyzeConversation([oneOnOne]);
+
+			expect(analysis.speakers[1].wordsPerMinute).toBe(7.3);
+		});
+
+		it("should tell interruptions from backchannel overlaps", () => {
+			const analysis = analyzeConversation([oneOnOne]);
+			const [alice, bob] = analysis.speakers;
+
+			expect(analysis.overlapCount).toBe(2);
+			expect(analysis.totalOverlapMs).toBe(12000);
+			expect(analysis.interruptionCount).toBe(1);
+			expect(bob.interruptionsMade).toBe(1);
+			expect(alice.interruptionsReceived).toBe(1);
+			expect(alice.overlapMs).toBe(2000);
+		});
+
+		it("should find the longest monologue across merged utterances", () => {
+			const analysis = analyzeConversation([oneOnOne]);
+
+			expect(analysis.longestMonologue).toEqual({
+				speakerName: "Alice",
+				lifelogId: "1on1",
+				lifelogTitle: "Weekly 1:1",
+				startTime: "2024-01-15T09:00:00.000Z",
+				durationMs: 120000,
+				words: 12,
+			});
+		});
+
+		it("should count turns and words without timings", () => {
+			const analysis = analyzeConversation([
+				{
+					...oneOnOne,
+					contents: [
+						{ type: "blockquote", content: "Hi there", speakerName: "Alice" },
+						{ type: "blockquote", content: "Hello", speakerName: "Bob" },
+					],
+				},
+			]);
+
+			expect(analysis.totalTalkTimeMs).toBe(0);
+			expect(analysis.speakers[0]).toMatchObject({
+				speakerName: "Alice",
+				turns: 1,
+				words: 2,
+				talkTimePercent: 0,
+				wordsPerMinute: null,
+			});
+			expect(analysis.overlapCount).toBe(0);
+		});
+
+		it("should return an empty analysis without attributed speech", () => {
+			const analysis = analyzeConversation([]);
+
+			expect(analysis.speakers).toEqual([]);
+			expect(analysis.longestMonologue).toBeNull();
+		});
+	});
+});
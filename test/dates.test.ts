@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+	dateInZone,
+	daysBetween,
+	formatDateTime,
+	formatMinutes,
+	isValidDate,
+	isValidTimeZone,
+	isoWeek,
+	isoWeekRange,
+	localDateTime,
+	monthRange,
+	startOfWeek,
+	toMinutes,
+	todayInZone,
+	zonedTimeToUtc,
+} from "../src/limitless/dates.js";
+
+describe("dates", () => {
+	describe("zonedTimeToUtc", () => {
+		it("should convert wall-clock times using the offset in effect", () => {
+			expect(
+				zonedTimeToUtc("2024-01-15T09:00:00", "America/New_York").toISOString(),
+			).toBe("2024-01-15T14:00:00.000Z");
+			expect(
+				zonedTimeToUtc("2024-07-15T09:00:00", "America/New_York").toISOString(),
+			).toBe("2024-07-15T13:00:00.000Z");
+		});
+
+		it("should handle days that start or end across a DST transition", () => {
+			// Clocks spring forward at 2am on 2024-03-10 and fall back on 2024-11-03
+			expect(
+				zonedTimeToUtc("2024-03-10", "America/New_York").toISOString(),
+			).toBe("2024-03-10T05:00:00.000Z");
+			expect(
+				zonedTimeToUtc("2024-03-11", "America/New_York").toISOString(),
+			).toBe("2024-03-11T04:00:00.000Z");
+			expect(
+				zonedTimeToUtc("2024-11-03T12:00", "America/New_York").toISOString(),
+			).toBe("2024-11-03T17:00:00.000Z");
+		});
+
+		it("should parse strings that already carry an offset as-is", () => {
+			expect(
+				zonedTimeToUtc("2024-01-15T09:00:00Z", "Asia/Tokyo").toISOString(),
+			).toBe("2024-01-15T09:00:00.000Z");
+		});
+	});
+
+	describe("dateInZone", () => {
+		it("should return the local calendar date of an instant", () => {
+			const instant = new Date("2024-01-16T03:30:00Z");
+
+			expect(dateInZone(instant, "UTC")).toBe("2024-01-16");
+			expect(dateInZone(instant, "America/Los_Angeles")).toBe("2024-01-15");
+			expect(todayInZone("Asia/Tokyo", instant)).toBe("2024-01-16");
+		});
+	});
+
+	describe("daysBetween", () => {
+		it("should count calendar days across month and DST changes", () => {
+			expect(daysBetween("2024-01-15", "2024-01-15")).toBe(0);
+			expect(daysBetween("2024-02-28", "2024-03-01")).toBe(2);
+			expect(daysBetween("2024-03-01", "2024-02-28")).toBe(-2);
+			expect(daysBetween("2024-03-09", "2024-03-11")).toBe(2);
+		});
+	});
+
+	describe("localDateTime", () => {
+		it("should return the wall-clock time of an instant", () => {
+			const instant = new Date("2024-01-16T03:30:00Z");
+
+			expect(localDateTime(instant, "UTC")).toBe("2024-01-16T03:30:00");
+			expect(localDateTime(instant, "America/Los_Angeles")).toBe(
+				"2024-01-15T19:30:00",
+			);
+			expect(localDateTime(instant, "Asia/Kolkata")).toBe("2024-01-16T09:00:00");
+		});
+	});
+
+	describe("startOfWeek", () => {
+		it("should return the Monday of the week", () => {
+			expect(startOfWeek("2024-01-17")).toBe("2024-01-15");
+			expect(startOfWeek("2024-01-15")).toBe("2024-01-15");
+			expect(startOfWeek("2024-01-21")).toBe("2024-01-15");
+		});
+	});
+
+	describe("formatDateTime", () => {
+		it("should format in the requested timezone with its abbreviation", () => {
+			expect(
+				formatDateTime("2024-01-15T17:00:00Z", "America/Los_Angeles"),
+			).toBe("Jan 15, 2024, 9:00 AM PST");
+		});
+	});
+
+	describe("isValidTimeZone", () => {
+		it("should accept IANA names and reject unknown zones", () => {
+			expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+			expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+		});
+	});
+
+	describe("isoWeek", () => {
+		it("should assign days near the new year to the week's Thursday year", () => {
+			expect(isoWeek("2024-01-17")).toBe("2024-W03");
+			expect(isoWeek("2021-01-03")).toBe("2020-W53");
+			expect(isoWeek("2024-12-30")).toBe("2025-W01");
+		});
+
+		it("should round-trip through isoWeekRange", () => {
+			expect(isoWeekRange("2024-W03")).toEqual({
+				start: "2024-01-15",
+				end: "2024-01-21",
+			});
+			expect(isoWeekRange("2020-W53").start).toBe("2020-12-28");
+			expect(() => isoWeekRange("2024-W53")).toThrow("Invalid ISO week");
+			expect(() => isoWeekRange("2024-3")).toThrow("Invalid ISO week");
+		});
+	});
+
+	describe("monthRange", () => {
+		it("should span the whole month, including leap days", () => {
+			expect(monthRange("2024-02")).toEqual({
+				start: "2024-02-01",
+				end: "2024-02-29",
+			});
+			expect(() => monthRange("2024-13")).toThrow("Invalid month");
+		});
+	});
+
+	describe("isValidDate", () => {
+		it("should reject malformed and impossible dates", () => {
+			expect(isValidDate("2024-02-29")).toBe(true);
+			expect(isValidDate("2023-02-29")).toBe(false);
+			expect(isValidDate("2024-1-5")).toBe(false);
+		});
+	});
+
+	describe("toMinutes and formatMinutes", () => {
+		it("should round durations to minutes and format them", () => {
+			expect(toMinutes(90_000)).toBe(2);
+			expect(formatMinutes(45)).toBe("45m");
+			expect(formatMinutes(65)).toBe("1h 5m");
+		});
+	});
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { buildDailyDigest } from "../src/limitless/digest.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const entries: LifelogEntry[] = [
+	{
+		id: "review",
+		title: "Design review",
+		startTime: "2024-01-15T14:00:00Z",
+		endTime: "2024-01-15T15:00:00Z",
+		isStarred: true,
+		contents: [
+			{ content: "Schema changes", type: "heading2" },
+			{
+				content: "Let's revisit the schema.",
+				type: "blockquote",
+				speakerName: "Alice",
+				startOffsetMs: 0,
+				endOffsetMs: 120000,
+			},
+			{
+				content: "Agreed.",
+				type: "blockquote",
+				speakerName: "Bob",
+				startOffsetMs: 120000,
+				endOffsetMs: 130000,
+			},
+		],
+	},
+	{
+		id: "standup",
+		title: "Standup",
+		startTime: "2024-01-15T09:00:00Z",
+		endTime: "2024-01-15T09:15:00Z",
+		isStarred: false,
+		contents: [
+			{ content: "Importer", type: "heading2" },
+			{
+				content: "I shipped the importer.",
+				type: "blockquote",
+				speakerName: "Bob",
+				startOffsetMs: 0,
+				endOffsetMs: 30000,
+			},
+		],
+	},
+	{
+		id: "walk",
+		title: "Walk",
+		startTime: "2024-01-15T14:30:00Z",
+		endTime: "2024-01-15T15:30:00Z",
+		isStarred: false,
+		contents: [
+			{ content: "Schema changes", type: "heading2" },
+			{ content: "Birdsong", type: "text" },
+		],
+	},
+	{
+		id: "late",
+		title: "Late call",
+		startTime: "2024-01-15T23:30:00Z",
+		endTime: "2024-01-16T00:30:00Z",
+		isStarred: false,
+		contents: [
+			{
+				content: "Can you hear me?",
+				type: "blockquote",
+				speakerName: "Carol",
+				startOffsetMs: 1740000,
+				endOffsetMs: 1800000,
+			},
+			{
+				content: "Happy new day.",
+				type: "blockquote",
+				speakerName: "Carol",
+				startOffsetMs: 1800000,
+				endOffsetMs: 3600000,
+			},
+		],
+	},
+];
+
+describe("digest", () => {
+	describe("buildDailyDigest", () => {
+		it("should list the timeline in chronological order", () => {
+			const digest = buildDailyDigest("2024-01-15", "UTC", entries);
+
+			expect(digest.timeline.map((entry) => entry.lifelogId)).toEqual([
+				"standup",
+				"review",
+				"walk",
+				"late",
+			]);
+			expect(digest.timeline[0]).toMatchObject({
+				title: "Standup",
+				durationMinutes: 15,
+				isStarred: false,
+			});
+		});
+
+		it("should count overlapping recordings once and clip to the day", () => {
+			const digest = buildDailyDigest("2024-01-15", "UTC", entries);
+
+			// 15m standup + 90m review/walk overlap + 30m before midnight
+			expect(digest.totalMinutes).toBe(135);
+			expect(digest.timeline[3].durationMinutes).toBe(30);
+		});
+
+		it("should count conversations with attributed speakers", () => {
+			const digest = buildDailyDigest("2024-01-15", "UTC", entries);
+
+			expect(digest.lifelogCount).toBe(4);
+			expect(digest.conversationCount).toBe(3);
+			expect(digest.longestConversation?.lifelogId).toBe("review");
+		});
+
+		it("should rank speakers, dedupe topics and list starred moments", () => {
+			const digest = buildDailyDigest("2024-01-15", "UTC", entries);
+
+			expect(digest.topSpeakers.map((speaker) => speaker.speakerName)).toEqual([
+				"Alice",
+				"Carol",
+				"Bob",
+			]);
+			// Only Carol's last minute before midnight falls on the day
+			expect(digest.topSpeakers[1].talkTimeMs).toBe(60000);
+			expect(digest.topSpeakers[2].talkTimeMs).toBe(40000);
+			expect(digest.topics).toEqual(["Importer", "Schema changes"]);
+			expect(digest.starred.map((entry) => entry.lifelogId)).toEqual([
+				"review",
+			]);
+		});
+
+		it("should limit the number of top speakers", () => {
+			const digest = buildDailyDigest("2024-01-15", "UTC", entries, 1);
+
+			expect(digest.topSpeakers).toHaveLength(1);
+		});
+
+		it("should return an empty digest for a day without lifelogs", () => {
+			const digest = buildDailyDigest("2024-01-15", "UTC", []);
+
+			expect(digest).toMatchObject({
+				totalMinutes: 0,
+				lifelogCount: 0,
+				conversationCount: 0,
+				longestConversation: null,
+			});
+		});
+	});
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { renderExport } from "../src/limitless/export.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const entries: LifelogEntry[] = [
+	{
+		id: "morning",
+		title: "Morning standup",
+		startTime: "2024-01-15T09:00:00Z",
+		endTime: "2024-01-15T09:10:00Z",
+		isStarred: true,
+		contents: [
+			{ content: "Standup", type: "heading1" },
+			{
+				content: 'Shipped the "importer", finally',
+				type: "blockquote",
+				speakerName: "Alice",
+				startTime: "2024-01-15T09:00:01Z",
+				startOffsetMs: 1000,
+				endOffsetMs: 4500,
+			},
+			{ content: "No timing here", type: "blockquote", speakerName: "Bob" },
+		],
+	},
+	{
+		id: "later",
+		title: "Follow-up",
+		startTime: "2024-01-15T10:00:00Z",
+		endTime: "2024-01-15T10:05:00Z",
+		isStarred: false,
+		contents: [
+			{
+				content: "Use <b> tags?",
+				type: "blockquote",
+				speakerName: "Bob",
+				startOffsetMs: 0,
+				endOffsetMs: 2000,
+			},
+		],
+	},
+];
+
+describe("export", () => {
+	it("should render full markdown transcripts", () => {
+		const markdown = renderExport(entries, "markdown");
+
+		expect(markdown).toContain("# Morning standup\n\n- **ID:** morning");
+		expect(markdown).toContain("- **Starred:** yes");
+		expect(markdown).toContain(
+			'> **Alice** (2024-01-15T09:00:01Z): Shipped the "importer", finally',
+		);
+		expect(markdown).toContain("\n\n---\n\n# Follow-up");
+	});
+
+	it("should render normalized JSON with explicit nulls", () => {
+		const json = JSON.parse(renderExport(entries, "json"));
+
+		expect(json.lifelogs).toHaveLength(2);
+		expect(json.lifelogs[0].updatedAt).toBeNull();
+		expect(json.lifelogs[0].contents[0]).toEqual({
+			type: "heading1",
+			content: "Standup",
+			speakerName: null,
+			startTime: null,
+			endTime: null,
+			startOffsetMs: null,
+			endOffsetMs: null,
+		});
+	});
+
+	it("should render one CSV row per content item with quoting", () => {
+		const rows = renderExport(entries, "csv").trimEnd().split("\r\n");
+
+		expect(rows).toHaveLength(5);
+		expect(rows[0]).toBe(
+			"lifelog_id,lifelog_title,index,type,speaker,start_time,end_time,start_offset_ms,end_offset_ms,content",
+		);
+		expect(rows[2]).toBe(
+			'morning,Morning standup,1,blockquote,Alice,2024-01-15T09:00:01Z,,1000,4500,"Shipped the ""importer"", finally"',
+		);
+	});
+
+	it("should render SRT cues on a shared timeline", () => {
+		expect(renderExport(entries, "srt")).toBe(
+			[
+				"1",
+				"00:00:01,000 --> 00:00:04,500",
+				'Alice: Shipped the "importer", finally',
+				"",
+				"2",
+				"01:00:00,000 --> 01:00:02,000",
+				"Bob: Use <b> tags?",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("should render WebVTT cues with voice tags and escaping", () => {
+		expect(renderExport(entries, "vtt")).toBe(
+			[
+				"WEBVTT",
+				"",
+				"00:00:01.000 --> 00:00:04.500",
+				'<v Alice>Shipped the "importer", finally',
+				"",
+				"01:00:00.000 --> 01:00:02.000",
+				"<v Bob>Use &lt;b&gt; tags?",
+				"",
+			].join("\n"),
+		);
+	});
+});
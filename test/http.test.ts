@@ -0,0 +1,128 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHttpApp, parseTokens } from "../src/http.js";
+
+describe("http", () => {
+	describe("parseTokens", () => {
+		it("should parse a JSON object of tokens to API keys", () => {
+			expect(parseTokens('{"alice-token":"key-a"}')).toEqual({
+				"alice-token": "key-a",
+			});
+			expect(parseTokens(undefined)).toEqual({});
+		});
+
+		it("should reject anything but a token to key mapping", () => {
+			expect(() => parseTokens("alice:key")).toThrow("JSON object");
+			expect(() => parseTokens('["key"]')).toThrow("JSON object");
+			expect(() => parseTokens('{"alice":42}')).toThrow("API key strings");
+		});
+	});
+
+	describe("createHttpApp", () => {
+		let server: Server;
+		let baseUrl: string;
+		const createMcpServer = vi.fn();
+
+		beforeEach(async () => {
+			createMcpServer.mockReset();
+			const app = createHttpApp(
+				{ apiKey: "", baseUrl: "https://api.limitless.ai" },
+				{ corsOrigins: [], tokens: { "alice-token": "key-a" } },
+				createMcpServer,
+			);
+			server = await new Promise((resolve) => {
+				const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+			});
+			baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		});
+
+		afterEach(async () => {
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		it("should answer health checks without auth", async () => {
+			const response = await fetch(`${baseUrl}/healthz`);
+
+			expect(response.status).toBe(200);
+			expect(await response.json()).toEqual({ status: "ok" });
+		});
+
+		it("should reject MCP requests without a known bearer token", async () => {
+			for (const authorization of [undefined, "Bearer wrong-token"]) {
+				const response = await fetch(`${baseUrl}/mcp`, {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						...(authorization ? { Authorization: authorization } : {}),
+					},
+					body: "{}",
+				});
+
+				expect(response.status).toBe(401);
+				expect(response.headers.get("www-authenticate")).toContain("Bearer");
+			}
+			expect(createMcpServer).not.toHaveBeenCalled();
+		});
+
+		it("should not offer session streams in stateless mode", async () => {
+			const response = await fetch(`${baseUrl}/mcp`);
+
+			expect(response.status).toBe(405);
+		});
+
+		it("should give every API key its own cache, export and audio directory", async () => {
+			const clients: any[] = [];
+			const perKey = createHttpApp(
+				{
+					apiKey: "",
+					baseUrl: "https://api.limitless.ai",
+					cacheDir: "/data/cache",
+					exportDir: "/data/exports",
+					audioDir: "/data/audio",
+				},
+				{ corsOrigins: [], tokens: { "alice-token": "key-a", "bob-token": "key-b" } },
+				(client) => {
+					clients.push(client);
+					throw new Error("stop here");
+				},
+			);
+			const listening: Server = await new Promise((resolve) => {
+				const started = perKey.listen(0, "127.0.0.1", () => resolve(started));
+			});
+			const url = `http://127.0.0.1:${(listening.address() as AddressInfo).port}/mcp`;
+			const errorLog = vi.spyOn(console, "error").mockImplementation(() => {});
+
+			for (const token of ["alice-token", "bob-token"]) {
+				await fetch(url, {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+						Authorization: `Bearer ${token}`,
+					},
+					body: "{}",
+				});
+			}
+			errorLog.mockRestore();
+			await new Promise((resolve) => listening.close(resolve));
+
+			const directories = clients.map((client) => [
+				client.cache.directory,
+				client.exportDir,
+				client.audioDir,
+			]);
+			const [alice, bob] = directories;
+			const aliceKey = alice[0].slice("/data/cache/".length);
+			expect(aliceKey).toMatch(/^[0-9a-f]{16}$/);
+			expect(alice).toEqual([
+				`/data/cache/${aliceKey}`,
+				`/data/exports/${aliceKey}`,
+				`/data/audio/${aliceKey}`,
+			]);
+			for (let i = 0; i < 3; i++) {
+				expect(bob[i]).not.toBe(alice[i]);
+				expect(bob[i].startsWith(alice[i].slice(0, -16))).toBe(true);
+			}
+		});
+	});
+});
@@ -1,5 +1,12 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import axios from "axios";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LifelogCache } from "../src/limitless/cache.js";
 import { LimitlessClient } from "../src/limitless/client.js";
 import type { LimitlessConfig, ListLifelogsResponse, LifelogEntry } from "../src/limitless/types.js";
 
@@ -7,6 +14,24 @@ import type { LimitlessConfig, ListLifelogsResponse, LifelogEntry } from "../src
 vi.mock("axios");
 const mockedAxios = vi.mocked(axios);
 
+// Call one of the client's tools through an MCP server and return its text
+const callTool = async (
+	limitless: LimitlessClient,
+	name: string,
+	args: Record<string, unknown>,
+): Promise<string> => {
+	const server = new McpServer({ name: "test", version: "1.0.0" });
+	limitless.registerLimitlessTools(server);
+	const [clientTransport, serverTransport] =
+		InMemoryTransport.createLinkedPair();
+	await server.connect(serverTransport);
+	const mcp = new Client({ name: "test", version: "1.0.0" });
+	await mcp.connect(clientTransport);
+	const result = await mcp.callTool({ name, arguments: args });
+	await mcp.close();
+	return (result.content as { text: string }[])[0].text;
+};
+
 describe("LimitlessClient", () => {
 	let client: LimitlessClient;
 	let mockAxiosInstance: any;
@@ -23,6 +48,7 @@ describe("LimitlessClient", () => {
 			get: vi.fn(),
 			post: vi.fn(),
 			put: vi.fn(),
+			patch: vi.fn(),
 			delete: vi.fn(),
 		};
 
@@ -41,6 +67,67 @@ describe("LimitlessClient", () => {
 				timeout: 30000,
 			});
 		});
+
+		it("should create a client for every account profile", async () => {
+			vi.clearAllMocks();
+			const multi = new LimitlessClient({
+				apiKey: "",
+				accounts: {
+					personal: { apiKey: "personal-key" },
+					work: { apiKey: "work-key", baseUrl: "https://work.example.com" },
+				},
+				defaultAccount: "work",
+			});
+
+			expect(mockedAxios.create).toHaveBeenCalledTimes(2);
+			expect(mockedAxios.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					baseURL: "https://work.example.com",
+					headers: expect.objectContaining({ "X-API-Key": "work-key" }),
+				})
+			);
+			expect(mockedAxios.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					baseURL: "https://api.limitless.ai",
+					headers: expect.objectContaining({ "X-API-Key": "personal-key" }),
+				})
+			);
+			const text = await callTool(multi, "listAccounts", {});
+			expect(text).toContain("Configured accounts (2)");
+			expect(text).toContain("## work (default)");
+		});
+
+		it("should add the top-level apiKey as the default account once", async () => {
+			vi.clearAllMocks();
+			const multi = new LimitlessClient({
+				apiKey: "default-key",
+				accounts: { work: { apiKey: "work-key" } },
+			});
+
+			expect(mockedAxios.create).toHaveBeenCalledTimes(2);
+			const text = await callTool(multi, "listAccounts", {});
+			expect([...text.matchAll(/^## (\w+)/gm)].map((m) => m[1])).toEqual([
+				"default",
+				"work",
+			]);
+		});
+
+		it("should reject an invalid timezone", () => {
+			expect(
+				() => new LimitlessClient({ ...config, timezone: "Mars/Olympus_Mons" }),
+			).toThrow('Invalid timezone "Mars/Olympus_Mons"');
+		});
+
+		it("should reject a default account that is not configured", () => {
+			expect(
+				() =>
+					new LimitlessClient({
+						apiKey: "",
+						accounts: { personal: { apiKey: "personal-key" } },
+						defaultAccount: "work",
+					})
+			).toThrow('Default account "work" is not one of the configured accounts');
+		});
 	});
 
 	describe("getLifelogs", () => {
@@ -59,6 +146,7 @@ describe("LimitlessClient", () => {
 									type: "text",
 								},
 							],
+							isStarred: false,
 						},
 					],
 				},
@@ -79,6 +167,76 @@ describe("LimitlessClient", () => {
 			expect(result).toEqual(mockResponse);
 		});
 
+		it("should redact entries when redaction is configured", async () => {
+			const redacting = new LimitlessClient({
+				...config,
+				redaction: { detectors: ["email"] },
+			});
+			mockAxiosInstance.get.mockResolvedValue({
+				data: {
+					data: {
+						lifelogs: [
+							{
+								id: "entry_1",
+								title: "Intro",
+								startTime: "2024-01-15T09:00:00Z",
+								endTime: "2024-01-15T10:00:00Z",
+								contents: [{ content: "Mail amy@example.com", type: "text" }],
+								markdown: "Mail amy@example.com",
+								isStarred: false,
+							},
+						],
+					},
+					meta: { lifelogs: { count: 1 } },
+				},
+			});
+
+			const result = await redacting.getLifelogs({ limit: 10 });
+
+			expect(result.data.lifelogs[0].contents[0].content).toBe("Mail [EMAIL]");
+			expect(result.data.lifelogs[0].markdown).toBe("Mail [EMAIL]");
+		});
+
+		it("should leave out entries withheld by an exclusion rule, including from the count", async () => {
+			const excluding = new LimitlessClient({
+				...config,
+				timezone: "UTC",
+				exclusions: [{ speakers: ["Dr. Patel"] }],
+			});
+			mockAxiosInstance.get.mockResolvedValue({
+				data: {
+					data: {
+						lifelogs: [
+							{
+								id: "entry_1",
+								title: "Checkup",
+								startTime: "2024-01-15T09:00:00Z",
+								endTime: "2024-01-15T10:00:00Z",
+								contents: [
+									{ content: "How are you feeling?", type: "blockquote", speakerName: "Dr. Patel" },
+								],
+								isStarred: false,
+							},
+							{
+								id: "entry_2",
+								title: "Standup",
+								startTime: "2024-01-15T11:00:00Z",
+								endTime: "2024-01-15T11:15:00Z",
+								contents: [{ content: "Shipped it", type: "blockquote", speakerName: "Bob" }],
+								isStarred: false,
+							},
+						],
+					},
+					meta: { lifelogs: { count: 2, nextCursor: "next" } },
+				},
+			});
+
+			const result = await excluding.getLifelogs({ limit: 10 });
+
+			expect(result.data.lifelogs.map((entry) => entry.id)).toEqual(["entry_2"]);
+			expect(result.meta?.lifelogs).toEqual({ count: 1, nextCursor: "next" });
+		});
+
 		it("should use default parameters when none provided", async () => {
 			const mockResponse: ListLifelogsResponse = {
 				data: {
@@ -126,6 +284,309 @@ describe("LimitlessClient", () => {
 		});
 	});
 
+	describe("getAllLifelogs", () => {
+		const entry = (id: string): LifelogEntry => ({
+			id,
+			title: `Conversation ${id}`,
+			startTime: "2024-01-15T09:00:00Z",
+			endTime: "2024-01-15T10:00:00Z",
+			contents: [],
+			isStarred: false,
+		});
+
+		it("should follow next cursors until the last page", async () => {
+			mockAxiosInstance.get
+				.mockResolvedValueOnce({
+					data: {
+						data: { lifelogs: [entry("a"), entry("b")] },
+						meta: { lifelogs: { count: 2, nextCursor: "page_2" } },
+					},
+				})
+				.mockResolvedValueOnce({
+					data: {
+						data: { lifelogs: [entry("c")] },
+						meta: { lifelogs: { count: 1, nextCursor: null } },
+					},
+				});
+
+			const result = await client.getAllLifelogs({ date: "2024-01-15" });
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+			expect(mockAxiosInstance.get).toHaveBeenLastCalledWith("/v1/lifelogs", {
+				params: { date: "2024-01-15", cursor: "page_2", limit: 10 },
+			});
+			expect(result.data.lifelogs.map((e) => e.id)).toEqual(["a", "b", "c"]);
+			expect(result.meta?.lifelogs).toEqual({ count: 3, nextCursor: null });
+		});
+
+		it("should keep paging past pages of withheld entries", async () => {
+			const excluding = new LimitlessClient({
+				...config,
+				exclusions: [{ ids: ["a", "b"] }],
+			});
+			mockAxiosInstance.get
+				.mockResolvedValueOnce({
+					data: {
+						data: { lifelogs: [entry("a"), entry("b")] },
+						meta: { lifelogs: { count: 2, nextCursor: "page_2" } },
+					},
+				})
+				.mockResolvedValueOnce({
+					data: {
+						data: { lifelogs: [entry("c")] },
+						meta: { lifelogs: { count: 1, nextCursor: null } },
+					},
+				});
+
+			const result = await excluding.getAllLifelogs({ date: "2024-01-15" });
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+			expect(result.data.lifelogs.map((e) => e.id)).toEqual(["c"]);
+			expect(result.meta?.lifelogs).toEqual({ count: 1, nextCursor: null });
+		});
+
+		it("should keep paging past a page whose entries were all skipped", async () => {
+			mockAxiosInstance.get
+				.mockResolvedValueOnce({
+					data: {
+						data: { lifelogs: ["garbage"] },
+						meta: { lifelogs: { count: 1, nextCursor: "page_2" } },
+					},
+				})
+				.mockResolvedValueOnce({
+					data: {
+						data: { lifelogs: [entry("c")] },
+						meta: { lifelogs: { count: 1, nextCursor: null } },
+					},
+				});
+
+			const result = await client.getAllLifelogs({ date: "2024-01-15" });
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+			expect(result.data.lifelogs.map((e) => e.id)).toEqual(["c"]);
+			expect(result.meta?.lifelogs.nextCursor).toBeNull();
+		});
+
+		it("should stop at maxEntries and report the next cursor", async () => {
+			mockAxiosInstance.get.mockResolvedValue({
+				data: {
+					data: { lifelogs: [entry("a"), entry("b")] },
+					meta: { lifelogs: { count: 2, nextCursor: "more" } },
+				},
+			});
+
+			const result = await client.getAllLifelogs(
+				{ limit: 2 },
+				{ maxEntries: 3 }
+			);
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+			expect(mockAxiosInstance.get).toHaveBeenLastCalledWith("/v1/lifelogs", {
+				params: { cursor: "more", limit: 1 },
+			});
+			expect(result.meta?.lifelogs.nextCursor).toBe("more");
+		});
+
+		it("should page through the API when the cached window has more than maxEntries", async () => {
+			const cacheDir = await mkdtemp(join(tmpdir(), "limitless-client-"));
+			await new LifelogCache(cacheDir).sync(
+				async () => [entry("a"), entry("b"), entry("c")],
+				new Date("2024-01-15T00:00:00Z"),
+				new Date("2024-01-16T00:00:00Z"),
+			);
+			const caching = new LimitlessClient({ ...config, cacheDir, timezone: "UTC" });
+			mockAxiosInstance.get.mockResolvedValue({
+				data: {
+					data: { lifelogs: [entry("a"), entry("b")] },
+					meta: { lifelogs: { count: 2, nextCursor: "more" } },
+				},
+			});
+
+			try {
+				const all = await caching.loadLifelogs(
+					{ date: "2024-01-15" },
+					{ maxEntries: 3 },
+				);
+				expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+				expect(all.data.lifelogs).toHaveLength(3);
+
+				const cut = await caching.loadLifelogs(
+					{ date: "2024-01-15" },
+					{ maxEntries: 2 },
+				);
+				expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+				expect(cut.data.lifelogs.map((e) => e.id)).toEqual(["a", "b"]);
+				expect(cut.meta?.lifelogs.nextCursor).toBe("more");
+			} finally {
+				await rm(cacheDir, { recursive: true, force: true });
+			}
+		});
+
+		it("should serve cached entries only while the API is unavailable", async () => {
+			const cacheDir = await mkdtemp(join(tmpdir(), "limitless-client-"));
+			await new LifelogCache(cacheDir).upsert([entry("a")]);
+			const caching = new LimitlessClient({ ...config, cacheDir, maxRetries: 0 });
+			const error = vi.spyOn(console, "error").mockImplementation(() => {});
+			vi.mocked(axios.isAxiosError).mockReturnValue(true);
+			mockAxiosInstance.get
+				.mockRejectedValueOnce({ message: "socket hang up", code: "ECONNRESET" })
+				.mockRejectedValueOnce({
+					message: "Unauthorized",
+					response: { status: 401, data: {}, headers: {} },
+				});
+
+			try {
+				const params = { date: "2024-01-15", timezone: "UTC" };
+				const served = await caching.loadLifelogs(params);
+				expect(served.data.lifelogs.map((e) => e.id)).toEqual(["a"]);
+				await expect(caching.loadLifelogs(params)).rejects.toThrow(
+					"Limitless API error (401)",
+				);
+			} finally {
+				error.mockRestore();
+				await rm(cacheDir, { recursive: true, force: true });
+			}
+		});
+
+		it("should stop when the time budget is spent", async () => {
+			const now = vi.spyOn(Date, "now");
+			now.mockReturnValueOnce(0).mockReturnValue(50);
+			mockAxiosInstance.get.mockResolvedValue({
+				data: {
+					data: { lifelogs: [entry("a")] },
+					meta: { lifelogs: { count: 1, nextCursor: "more" } },
+				},
+			});
+
+			const result = await client.getAllLifelogs({}, { timeBudgetMs: 10 });
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+			expect(result.meta?.lifelogs.nextCursor).toBe("more");
+			now.mockRestore();
+		});
+	});
+
+	describe("merged accounts", () => {
+		const entry = (id: string, startTime: string): LifelogEntry => ({
+			id,
+			title: `Conversation ${id}`,
+			startTime,
+			endTime: startTime,
+			contents: [],
+			isStarred: false,
+		});
+
+		it("should share the limit between accounts so every account can resume", async () => {
+			const defaultApi = { ...mockAxiosInstance, get: vi.fn() };
+			const workApi = { ...mockAxiosInstance, get: vi.fn() };
+			mockedAxios.create
+				.mockReturnValueOnce(defaultApi)
+				.mockReturnValueOnce(workApi);
+			const merging = new LimitlessClient({
+				...config,
+				accounts: { work: { apiKey: "work-key" } },
+			});
+			defaultApi.get.mockResolvedValue({
+				data: {
+					data: {
+						lifelogs: [
+							entry("d1", "2024-01-15T10:00:00Z"),
+							entry("d2", "2024-01-15T08:00:00Z"),
+						],
+					},
+					meta: { lifelogs: { count: 2, nextCursor: "default_next" } },
+				},
+			});
+			workApi.get.mockResolvedValue({
+				data: {
+					data: { lifelogs: [entry("w1", "2024-01-15T09:00:00Z")] },
+					meta: { lifelogs: { count: 1, nextCursor: "work_next" } },
+				},
+			});
+
+			const text = await callTool(merging, "getLifelogs", {
+				date: "2024-01-15",
+				account: "all",
+				max_entries: 3,
+			});
+
+			expect(defaultApi.get).toHaveBeenCalledWith("/v1/lifelogs", {
+				params: expect.objectContaining({ date: "2024-01-15", limit: 2 }),
+			});
+			expect(workApi.get).toHaveBeenCalledWith("/v1/lifelogs", {
+				params: expect.objectContaining({ date: "2024-01-15", limit: 1 }),
+			});
+			expect([...text.matchAll(/\*\*ID:\*\* (\w+)/g)].map((m) => m[1])).toEqual([
+				"d1",
+				"w1",
+				"d2",
+			]);
+			expect(
+				[...text.matchAll(/\*\*Account:\*\* (\w+)/g)].map((m) => m[1]),
+			).toEqual(["default", "work", "default"]);
+			expect(text).toContain('Pass account "default" and cursor "default_next"');
+			expect(text).toContain('Pass account "work" and cursor "work_next"');
+		});
+	});
+
+	describe("getStarredLifelogs", () => {
+		const entry = (id: string, isStarred: boolean): LifelogEntry => ({
+			id,
+			title: `Conversation ${id}`,
+			startTime: "2024-01-15T09:00:00Z",
+			endTime: "2024-01-15T10:00:00Z",
+			contents: [],
+			isStarred,
+		});
+
+		it("should request the starred filter and page past unstarred entries", async () => {
+			mockAxiosInstance.get
+				.mockResolvedValueOnce({
+					data: {
+						data: { lifelogs: [entry("a", false), entry("b", true)] },
+						meta: { lifelogs: { count: 2, nextCursor: "page_2" } },
+					},
+				})
+				.mockResolvedValueOnce({
+					data: {
+						data: { lifelogs: [entry("c", false), entry("d", true)] },
+						meta: { lifelogs: { count: 2, nextCursor: null } },
+					},
+				});
+
+			const result = await client.getStarredLifelogs("2024-01-01", "2024-01-31");
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+			expect(mockAxiosInstance.get).toHaveBeenNthCalledWith(1, "/v1/lifelogs", {
+				params: expect.objectContaining({
+					is_starred: true,
+					start_time: "2024-01-01T00:00:00",
+					end_time: "2024-01-31T23:59:59",
+					sort_direction: "desc",
+				}),
+			});
+			expect(result.lifelogs.map((e) => e.id)).toEqual(["b", "d"]);
+			expect(result.truncated).toBe(false);
+		});
+
+		it("should stop once maxEntries starred entries are found", async () => {
+			mockAxiosInstance.get.mockResolvedValue({
+				data: {
+					data: { lifelogs: [entry("a", true), entry("b", true)] },
+					meta: { lifelogs: { count: 2, nextCursor: "more" } },
+				},
+			});
+
+			const result = await client.getStarredLifelogs(undefined, undefined, undefined, {
+				maxEntries: 3,
+			});
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+			expect(result.lifelogs).toHaveLength(3);
+			expect(result.truncated).toBe(true);
+		});
+	});
+
 	describe("getLifelog", () => {
 		it("should fetch specific lifelog entry successfully", async () => {
 			const mockEntry: LifelogEntry = {
@@ -139,6 +600,7 @@ describe("LimitlessClient", () => {
 						type: "text",
 					},
 				],
+				isStarred: false,
 			};
 
 			const mockResponse = {
@@ -155,6 +617,68 @@ describe("LimitlessClient", () => {
 			expect(result).toEqual(mockEntry);
 		});
 
+		it("should serve the cached copy only while the API is unavailable", async () => {
+			// Recorded just now, so the cached copy has not settled yet
+			const now = new Date().toISOString();
+			const cachedEntry: LifelogEntry = {
+				id: "entry_123",
+				title: "Cached conversation",
+				startTime: now,
+				endTime: now,
+				contents: [],
+				isStarred: false,
+			};
+			const cacheDir = await mkdtemp(join(tmpdir(), "limitless-client-"));
+			await new LifelogCache(cacheDir).upsert([cachedEntry]);
+			const caching = new LimitlessClient({ ...config, cacheDir, maxRetries: 0 });
+			vi.mocked(axios.isAxiosError).mockReturnValue(true);
+			mockAxiosInstance.get
+				.mockRejectedValueOnce({ message: "socket hang up", code: "ECONNRESET" })
+				.mockRejectedValueOnce({
+					message: "Service Unavailable",
+					response: { status: 503, data: {}, headers: {} },
+				})
+				.mockRejectedValueOnce({
+					message: "Not Found",
+					response: { status: 404, data: {}, headers: {} },
+				});
+
+			try {
+				await expect(caching.getLifelog("entry_123")).resolves.toEqual(cachedEntry);
+				await expect(caching.getLifelog("entry_123")).resolves.toEqual(cachedEntry);
+				await expect(caching.getLifelog("entry_123")).rejects.toThrow(
+					"Limitless API error (404)",
+				);
+			} finally {
+				await rm(cacheDir, { recursive: true, force: true });
+			}
+		});
+
+		it("should refuse entries withheld by an exclusion rule", async () => {
+			const excluding = new LimitlessClient({
+				...config,
+				exclusions: [{ ids: ["entry_123"] }],
+			});
+			mockAxiosInstance.get.mockResolvedValue({
+				data: {
+					data: {
+						lifelog: {
+							id: "entry_123",
+							title: "Detailed conversation",
+							startTime: "2024-01-15T09:00:00Z",
+							endTime: "2024-01-15T10:00:00Z",
+							contents: [],
+							isStarred: false,
+						},
+					},
+				},
+			});
+
+			await expect(excluding.getLifelog("entry_123")).rejects.toThrow(
+				"Lifelog entry_123 is withheld by policy",
+			);
+		});
+
 		it("should handle 404 errors for non-existent entries", async () => {
 			const errorResponse = {
 				isAxiosError: true,
@@ -175,6 +699,293 @@ describe("LimitlessClient", () => {
 		});
 	});
 
+	describe("write operations", () => {
+		it("should refuse to write unless writes are enabled", async () => {
+			await expect(client.setLifelogStarred("entry_1", true)).rejects.toThrow(
+				"Write operations are disabled",
+			);
+			await expect(client.deleteLifelog("entry_1")).rejects.toThrow(
+				"Write operations are disabled",
+			);
+			expect(mockAxiosInstance.patch).not.toHaveBeenCalled();
+			expect(mockAxiosInstance.delete).not.toHaveBeenCalled();
+		});
+
+		it("should star and delete lifelogs when writes are enabled", async () => {
+			const writable = new LimitlessClient({ ...config, allowWrites: true });
+			mockAxiosInstance.patch.mockResolvedValue({ data: {} });
+			mockAxiosInstance.delete.mockResolvedValue({ data: {} });
+
+			await writable.setLifelogStarred("entry_1", false);
+			await writable.deleteLifelog("entry_2");
+
+			expect(mockAxiosInstance.patch).toHaveBeenCalledWith("/v1/lifelogs/entry_1", {
+				isStarred: false,
+			});
+			expect(mockAxiosInstance.delete).toHaveBeenCalledWith("/v1/lifelogs/entry_2");
+		});
+
+		it("should encode lifelog ids in the request path", async () => {
+			const writable = new LimitlessClient({ ...config, allowWrites: true });
+			mockAxiosInstance.patch.mockResolvedValue({ data: {} });
+			mockAxiosInstance.delete.mockResolvedValue({ data: {} });
+
+			await writable.setLifelogStarred("entry/1", true);
+			await writable.deleteLifelog("../entry_2");
+
+			expect(mockAxiosInstance.patch).toHaveBeenCalledWith("/v1/lifelogs/entry%2F1", {
+				isStarred: true,
+			});
+			expect(mockAxiosInstance.delete).toHaveBeenCalledWith(
+				"/v1/lifelogs/..%2Fentry_2",
+			);
+		});
+
+		describe("tools", () => {
+			const entry = (isStarred: boolean): LifelogEntry => ({
+				id: "entry_1",
+				title: "Team sync",
+				startTime: "2024-01-15T09:00:00Z",
+				endTime: "2024-01-15T10:00:00Z",
+				contents: [],
+				isStarred,
+			});
+
+			it("should not star or delete anything on a dry run", async () => {
+				const writable = new LimitlessClient({ ...config, allowWrites: true });
+				mockAxiosInstance.get.mockResolvedValue({
+					data: { data: { lifelog: entry(false) } },
+				});
+
+				const starred = await callTool(writable, "starLifelog", {
+					lifelog_id: "entry_1",
+					dry_run: true,
+				});
+				const deleted = await callTool(writable, "deleteLifelog", {
+					lifelog_id: "entry_1",
+					dry_run: true,
+				});
+
+				expect(starred).toContain("Dry run: would star");
+				expect(deleted).toContain("Dry run: would permanently delete");
+				expect(mockAxiosInstance.patch).not.toHaveBeenCalled();
+				expect(mockAxiosInstance.delete).not.toHaveBeenCalled();
+			});
+
+			it("should check the live entry before starring, not a cached copy", async () => {
+				// The cache holds a settled copy that is not starred yet
+				const cacheDir = await mkdtemp(join(tmpdir(), "limitless-client-"));
+				await new LifelogCache(cacheDir).upsert([entry(false)]);
+				const writable = new LimitlessClient({
+					...config,
+					cacheDir,
+					allowWrites: true,
+				});
+				mockAxiosInstance.get.mockResolvedValue({
+					data: { data: { lifelog: entry(true) } },
+				});
+
+				try {
+					const text = await callTool(writable, "starLifelog", {
+						lifelog_id: "entry_1",
+					});
+
+					expect(mockAxiosInstance.get).toHaveBeenCalledWith("/v1/lifelogs/entry_1");
+					expect(text).toContain("is already starred");
+					expect(mockAxiosInstance.patch).not.toHaveBeenCalled();
+				} finally {
+					await rm(cacheDir, { recursive: true, force: true });
+				}
+			});
+		});
+	});
+
+	describe("getLifelogAudio", () => {
+		const window = {
+			start: new Date("2024-01-15T09:00:00Z"),
+			end: new Date("2024-01-15T09:10:00Z"),
+		};
+
+		it("should download audio for the window", async () => {
+			mockAxiosInstance.get.mockResolvedValue({ data: new Uint8Array([1, 2, 3]).buffer });
+
+			const audio = await client.getLifelogAudio(window);
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledWith("/v1/download-audio", {
+				params: {
+					startMs: window.start.getTime(),
+					endMs: window.end.getTime(),
+					audioSource: "pendant",
+				},
+				responseType: "arraybuffer",
+				maxContentLength: 10 * 1024 * 1024,
+			});
+			expect(audio.mimeType).toBe("audio/ogg");
+			expect([...audio.data]).toEqual([1, 2, 3]);
+		});
+
+		it("should refuse audio over the size limit", async () => {
+			const limited = new LimitlessClient({ ...config, maxAudioBytes: 2 });
+			mockAxiosInstance.get.mockResolvedValue({ data: new Uint8Array([1, 2, 3]).buffer });
+
+			await expect(limited.getLifelogAudio(window)).rejects.toThrow(
+				"is 3 B, over the 2 B limit",
+			);
+		});
+
+		it("should stop downloads that pass the size limit", async () => {
+			const limited = new LimitlessClient({ ...config, maxAudioBytes: 1024 });
+			vi.mocked(axios.isAxiosError).mockReturnValue(true);
+			mockAxiosInstance.get.mockRejectedValue({
+				isAxiosError: true,
+				code: "ERR_BAD_RESPONSE",
+				message: "maxContentLength size of 1024 exceeded",
+			});
+
+			await expect(limited.getLifelogAudio(window)).rejects.toThrow(
+				"is over the 1 KB limit. Request a shorter window or raise maxAudioBytes.",
+			);
+			expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+				"/v1/download-audio",
+				expect.objectContaining({ maxContentLength: 1024 }),
+			);
+		});
+
+		it("should refuse audio while redaction is enabled unless allowed", async () => {
+			const redacting = new LimitlessClient({
+				...config,
+				redaction: { detectors: ["phone"] },
+			});
+			const allowing = new LimitlessClient({
+				...config,
+				redaction: { detectors: ["phone"], allowAudio: true },
+			});
+			mockAxiosInstance.get.mockResolvedValue({ data: new Uint8Array([1]).buffer });
+
+			await expect(redacting.getLifelogAudio(window)).rejects.toThrow(
+				"Audio cannot be redacted",
+			);
+			expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+			expect((await allowing.getLifelogAudio(window)).data.length).toBe(1);
+		});
+
+		it("should refuse windows overlapping a withheld lifelog", async () => {
+			const excluding = new LimitlessClient({
+				...config,
+				exclusions: [{ titleKeywords: ["doctor"] }],
+			});
+			mockAxiosInstance.get.mockResolvedValue({
+				data: {
+					data: {
+						lifelogs: [
+							{
+								id: "entry_1",
+								title: "Doctor visit",
+								startTime: "2024-01-15T08:30:00Z",
+								endTime: "2024-01-15T09:05:00Z",
+								contents: [],
+								isStarred: false,
+							},
+						],
+					},
+					meta: { lifelogs: { count: 1, nextCursor: null } },
+				},
+			});
+
+			await expect(excluding.getLifelogAudio(window)).rejects.toThrow(
+				"overlaps a lifelog withheld by policy",
+			);
+			expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("chats", () => {
+		const chat = (id: string, text = "What did I do today?") => ({
+			id,
+			summary: `Chat ${id}`,
+			createdAt: "2024-01-15T20:00:00Z",
+			messages: [
+				{
+					id: `${id}_m1`,
+					text,
+					createdAt: "2024-01-15T20:00:00Z",
+					user: { role: "user", name: "Alice" },
+				},
+			],
+		});
+
+		it("should page through chats with the scheduled filter", async () => {
+			mockAxiosInstance.get
+				.mockResolvedValueOnce({
+					data: {
+						data: { chats: [chat("a"), chat("b")] },
+						meta: { chats: { count: 2, nextCursor: "page_2" } },
+					},
+				})
+				.mockResolvedValueOnce({
+					data: {
+						data: { chats: [chat("c")] },
+						meta: { chats: { count: 1, nextCursor: null } },
+					},
+				});
+
+			const result = await client.getAllChats({ is_scheduled: true, limit: 2 });
+
+			expect(mockAxiosInstance.get).toHaveBeenLastCalledWith("/v1/chats", {
+				params: { is_scheduled: true, limit: 2, cursor: "page_2" },
+			});
+			expect(result.data.chats.map((c) => c.id)).toEqual(["a", "b", "c"]);
+			expect(result.meta?.chats).toEqual({ count: 3, nextCursor: null });
+		});
+
+		it("should keep paging past a page whose chats were all skipped", async () => {
+			mockAxiosInstance.get
+				.mockResolvedValueOnce({
+					data: {
+						data: { chats: ["garbage"] },
+						meta: { chats: { count: 1, nextCursor: "page_2" } },
+					},
+				})
+				.mockResolvedValueOnce({
+					data: {
+						data: { chats: [chat("c")] },
+						meta: { chats: { count: 1, nextCursor: null } },
+					},
+				});
+
+			const result = await client.getAllChats();
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+			expect(result.data.chats.map((c) => c.id)).toEqual(["c"]);
+		});
+
+		it("should fetch a chat by id and redact its messages", async () => {
+			const redacting = new LimitlessClient({
+				...config,
+				redaction: { detectors: ["email"] },
+			});
+			mockAxiosInstance.get.mockResolvedValue({
+				data: { data: { chat: chat("a", "Mail amy@example.com") } },
+			});
+
+			const result = await redacting.getChat("a");
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledWith("/v1/chats/a");
+			expect(result.messages[0].text).toBe("Mail [EMAIL]");
+			expect(result.messages[0].user.role).toBe("user");
+		});
+
+		it("should encode the chat id in the request path", async () => {
+			mockAxiosInstance.get.mockResolvedValue({
+				data: { data: { chat: chat("a/b") } },
+			});
+
+			await client.getChat("a/b");
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledWith("/v1/chats/a%2Fb");
+		});
+	});
+
 	describe("searchLifelogs", () => {
 		it("should search lifelog entries and filter results", async () => {
 			const mockResponse: ListLifelogsResponse = {
@@ -219,6 +1030,31 @@ describe("LimitlessClient", () => {
 			expect(result.data.lifelogs[0].id).toBe("entry_1");
 		});
 
+		it("should page through ranked hits with an offset", async () => {
+			const lifelogs = ["a", "b", "c"].map((id) => ({
+				id,
+				title: `Budget ${id}`,
+				startTime: "2024-01-15T09:00:00Z",
+				endTime: "2024-01-15T10:00:00Z",
+				contents: [],
+			}));
+			mockAxiosInstance.get.mockResolvedValue({ data: { data: { lifelogs } } });
+
+			const first = await client.searchLifelogs({ query: "budget", limit: 2 });
+			const rest = await client.searchLifelogs({
+				query: "budget",
+				limit: 2,
+				offset: 2,
+			});
+
+			expect(first.data.hits).toHaveLength(2);
+			expect(first.meta?.lifelogs.count).toBe(3);
+			expect(rest.data.hits).toHaveLength(1);
+			expect(
+				[...first.data.hits, ...rest.data.hits].map((hit) => hit.lifelogId).sort(),
+			).toEqual(["a", "b", "c"]);
+		});
+
 		it("should search in both content and title", async () => {
 			const mockResponse: ListLifelogsResponse = {
 				data: {
@@ -279,6 +1115,55 @@ describe("LimitlessClient", () => {
 			expect(result.data.lifelogs).toHaveLength(1);
 		});
 
+		it("should page through the requested date range and return hits", async () => {
+			const mockResponse: ListLifelogsResponse = {
+				data: {
+					lifelogs: [
+						{
+							id: "entry_1",
+							title: "Budget sync",
+							startTime: "2024-01-15T09:00:00Z",
+							endTime: "2024-01-15T10:00:00Z",
+							contents: [
+								{
+									content: "Reviewing the budget",
+									type: "blockquote",
+									speakerName: "Alice",
+									startOffsetMs: 1000,
+								},
+							],
+							isStarred: false,
+						},
+					],
+				},
+			};
+
+			mockAxiosInstance.get.mockResolvedValue({ data: mockResponse });
+
+			const result = await client.searchLifelogs({
+				query: "budget",
+				date_from: "2024-01-01",
+				date_to: "2024-01-31",
+				timezone: "America/New_York",
+				limit: 5,
+			});
+
+			expect(mockAxiosInstance.get).toHaveBeenCalledWith("/v1/lifelogs", {
+				params: {
+					start_time: "2024-01-01T00:00:00",
+					end_time: "2024-01-31T23:59:59",
+					timezone: "America/New_York",
+					limit: 10,
+				},
+			});
+			expect(result.data.hits[0].lifelogId).toBe("entry_1");
+			expect(result.data.hits[0].snippets[1]).toMatchObject({
+				contentIndex: 0,
+				text: "Reviewing the **budget**",
+				startOffsetMs: 1000,
+			});
+		});
+
 		it("should return empty results when no matches found", async () => {
 			const mockResponse: ListLifelogsResponse = {
 				data: {
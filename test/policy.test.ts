@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { ExclusionPolicy, overlapsWindow } from "../src/limitless/policy.js";
+import { ExclusionRuleSchema, ExclusionWindowSchema } from "../src/limitless/types.js";
+import type { ExclusionRule, LifelogEntry } from "../src/limitless/types.js";
+
+const entry = (
+	overrides: Partial<LifelogEntry> = {},
+): LifelogEntry => ({
+	id: "entry_1",
+	title: "Weekly sync",
+	startTime: "2024-01-15T09:00:00Z",
+	endTime: "2024-01-15T10:00:00Z",
+	contents: [
+		{ content: "Morning", type: "blockquote", speakerName: "Alice Smith" },
+	],
+	isStarred: false,
+	...overrides,
+});
+
+const policy = (rules: unknown[], timeZone = "UTC") =>
+	new ExclusionPolicy(
+		rules.map((rule) => ExclusionRuleSchema.parse(rule)) as ExclusionRule[],
+		timeZone,
+	);
+
+describe("ExclusionPolicy", () => {
+	it("should match title keywords as whole words, ignoring case", () => {
+		const rules = policy([{ titleKeywords: ["HR"] }]);
+
+		expect(rules.excludes(entry({ title: "Talk with hr about leave" }))).toBe(true);
+		expect(rules.excludes(entry({ title: "Three hours of chores" }))).toBe(false);
+	});
+
+	it("should match any participating speaker", () => {
+		const rules = policy([{ speakers: ["alice"] }]);
+
+		expect(rules.excludes(entry())).toBe(true);
+		expect(
+			rules.excludes(
+				entry({
+					contents: [{ content: "Hi", type: "blockquote", speakerName: "Bob" }],
+				}),
+			),
+		).toBe(false);
+	});
+
+	it("should match explicit ids", () => {
+		const rules = policy([{ ids: ["entry_2"] }]);
+
+		expect(rules.excludes(entry({ id: "entry_2" }))).toBe(true);
+		expect(rules.excludes(entry())).toBe(false);
+	});
+
+	it("should require every condition of a rule, and any rule", () => {
+		const rules = policy([
+			{ speakers: ["Alice"], titleKeywords: ["doctor"] },
+			{ ids: ["entry_9"] },
+		]);
+
+		expect(rules.excludes(entry())).toBe(false);
+		expect(rules.excludes(entry({ title: "Doctor visit" }))).toBe(true);
+		expect(rules.excludes(entry({ id: "entry_9" }))).toBe(true);
+	});
+
+	it("should read windows in the rule's timezone", () => {
+		// 18:00-19:00 UTC is 10:00-11:00 in Los Angeles
+		const evening = entry({
+			startTime: "2024-01-15T18:00:00Z",
+			endTime: "2024-01-15T19:00:00Z",
+		});
+
+		expect(policy([{ windows: [{ from: "17:00" }] }]).excludes(evening)).toBe(true);
+		expect(
+			policy([{ windows: [{ from: "17:00" }] }], "America/Los_Angeles").excludes(evening),
+		).toBe(false);
+		expect(
+			policy([
+				{ windows: [{ from: "17:00" }], timezone: "America/Los_Angeles" },
+			]).excludes(evening),
+		).toBe(false);
+	});
+
+	it("should reject rules without conditions and invalid timezones", () => {
+		expect(() => ExclusionRuleSchema.parse({ name: "empty" })).toThrow(
+			"needs at least one of",
+		);
+		expect(() => policy([{ ids: ["a"], timezone: "Mars/Base" }])).toThrow(
+			'Invalid timezone "Mars/Base"',
+		);
+	});
+});
+
+describe("overlapsWindow", () => {
+	const window = (value: unknown) => ExclusionWindowSchema.parse(value);
+
+	it("should match recordings overlapping the window on listed days", () => {
+		// Monday, January 15th 2024
+		const monday = { startTime: "2024-01-15T16:30:00Z", endTime: "2024-01-15T17:30:00Z" };
+
+		expect(overlapsWindow(monday, window({ from: "17:00", to: "22:00" }), "UTC")).toBe(true);
+		expect(overlapsWindow(monday, window({ from: "18:00", to: "22:00" }), "UTC")).toBe(false);
+		expect(overlapsWindow(monday, window({ days: ["sat", "sun"] }), "UTC")).toBe(false);
+		expect(overlapsWindow(monday, window({ days: ["mon"] }), "UTC")).toBe(true);
+	});
+
+	it("should run windows past midnight into the next day", () => {
+		const night = window({ days: ["fri"], from: "22:00", to: "06:00" });
+
+		// Saturday 02:00 belongs to Friday's window
+		expect(
+			overlapsWindow(
+				{ startTime: "2024-01-20T02:00:00Z", endTime: "2024-01-20T02:30:00Z" },
+				night,
+				"UTC",
+			),
+		).toBe(true);
+		// Sunday 02:00 follows Saturday, which is not listed
+		expect(
+			overlapsWindow(
+				{ startTime: "2024-01-21T02:00:00Z", endTime: "2024-01-21T02:30:00Z" },
+				night,
+				"UTC",
+			),
+		).toBe(false);
+	});
+
+	it("should match instantaneous recordings inside the window", () => {
+		const instant = { startTime: "2024-01-15T20:00:00Z", endTime: "2024-01-15T20:00:00Z" };
+
+		expect(overlapsWindow(instant, window({ from: "20:00", to: "21:00" }), "UTC")).toBe(true);
+		expect(overlapsWindow(instant, window({ from: "19:00", to: "20:00" }), "UTC")).toBe(false);
+	});
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { LifelogRedactor, ibanChecksum, luhn } from "../src/limitless/redaction.js";
+import {
+	type LifelogEntry,
+	type RedactionAudit,
+	RedactionConfigSchema,
+} from "../src/limitless/types.js";
+
+const entry = (contents: LifelogEntry["contents"], markdown?: string): LifelogEntry => ({
+	id: "call",
+	title: "Call with Alice",
+	startTime: "2024-01-15T09:00:00Z",
+	endTime: "2024-01-15T10:00:00Z",
+	isStarred: false,
+	contents,
+	markdown,
+});
+
+const quote = (content: string, speakerName = "Alice") => ({
+	type: "blockquote" as const,
+	content,
+	speakerName,
+});
+
+const redactor = (config: Record<string, unknown> = {}) =>
+	new LifelogRedactor(RedactionConfigSchema.parse(config));
+
+const redactText = (content: string, config: Record<string, unknown> = {}) =>
+	redactor(config).redact(entry([quote(content)])).contents[0].content;
+
+describe("checksums", () => {
+	it("should validate card numbers with Luhn", () => {
+		expect(luhn("4111111111111111")).toBe(true);
+		expect(luhn("4111111111111112")).toBe(false);
+	});
+
+	it("should validate IBANs with mod 97", () => {
+		expect(ibanChecksum("DE89370400440532013000")).toBe(true);
+		expect(ibanChecksum("DE89370400440532013001")).toBe(false);
+	});
+});
+
+describe("LifelogRedactor", () => {
+	describe("detectors", () => {
+		it("should mask emails, phone numbers and SSNs", () => {
+			expect(
+				redactText("Mail bob@example.com or call (555) 123-4567, SSN 123-45-6789."),
+			).toBe("Mail [EMAIL] or call [PHONE], SSN [SSN].");
+			expect(redactText("Ring +44 20 7946 0958 tomorrow.")).toBe(
+				"Ring [PHONE] tomorrow.",
+			);
+		});
+
+		it("should only mask card numbers that pass Luhn", () => {
+			expect(redactText("Card 4111 1111 1111 1111 expires soon.")).toBe(
+				"Card [CARD] expires soon.",
+			);
+			expect(redactText("Order 4111 1111 1111 1112 shipped.")).not.toContain(
+				"[CARD]",
+			);
+		});
+
+		it("should mask IBANs that pass their checksum", () => {
+			expect(redactText("Pay DE89 3704 0044 0532 0130 00 And thanks.")).toBe(
+				"Pay [IBAN] And thanks.",
+			);
+		});
+
+		it("should mask street addresses", () => {
+			expect(redactText("I live at 221 Baker Street, Apt 2 now.")).toBe(
+				"I live at [ADDRESS] now.",
+			);
+			expect(redactText("Meet at 1600 Pennsylvania avenue.")).toBe(
+				"Meet at [ADDRESS]",
+			);
+		});
+
+		it("should leave ordinary numbers alone", () => {
+			const text = "We sold 2023 2024 units at 10:30 for $1,500 on the way home.";
+			expect(redactText(text)).toBe(text);
+		});
+
+		it("should only run the configured detectors", () => {
+			expect(
+				redactText("Mail bob@example.com or call 555-123-4567.", {
+					detectors: ["phone"],
+				}),
+			).toBe("Mail bob@example.com or call [PHONE].");
+		});
+	});
+
+	it("should redact custom patterns and keywords", () => {
+		expect(
+			redactText("Project Falcon ticket ABC-1234 is with falcon team.", {
+				detectors: [],
+				patterns: ["[A-Z]{3}-\\d{4}"],
+				keywords: ["Project Falcon", "falcon"],
+			}),
+		).toBe("[REDACTED] ticket [REDACTED] is with [REDACTED] team.");
+	});
+
+	it("should hash matches so equal values stay recognizable", () => {
+		const redacted = redactor({ mode: "hash", salt: "pepper" }).redact(
+			entry([quote("Write to bob@example.com."), quote("Yes, bob@example.com.")]),
+		);
+
+		const [first, second] = redacted.contents.map((item) => item.content);
+		expect(first).toMatch(/^Write to \[EMAIL:[0-9a-f]{8}\]\.$/);
+		expect(second.slice(5)).toBe(first.slice(9));
+	});
+
+	it("should drop items and markdown lines with a match", () => {
+		const audit: RedactionAudit = {};
+		const redacted = redactor({ mode: "drop-item" }).redact(
+			entry(
+				[quote("Hello there."), quote("My number is 555-123-4567.")],
+				"Hello there.\nMy number is 555-123-4567.",
+			),
+			audit,
+		);
+
+		expect(redacted.contents.map((item) => item.content)).toEqual(["Hello there."]);
+		expect(redacted.markdown).toBe("Hello there.");
+		expect(audit).toEqual({ phone: 2, item: 1 });
+	});
+
+	it("should pseudonymize speakers and their mentions but not the wearer", () => {
+		const audit: RedactionAudit = {};
+		const redacted = redactor({ detectors: [], pseudonymizeSpeakers: true }).redact(
+			entry([quote("Hi, I'm Alice."), quote("Nice to meet you, Alice.", "You")]),
+			audit,
+		);
+
+		const pseudonym = redacted.contents[0].speakerName;
+		expect(pseudonym).toMatch(/^Speaker [0-9a-f]{6}$/);
+		expect(redacted.title).toBe(`Call with ${pseudonym}`);
+		expect(redacted.contents[0].content).toBe(`Hi, I'm ${pseudonym}.`);
+		expect(redacted.contents[1].speakerName).toBe("You");
+		expect(redacted.contents[1].content).toBe(`Nice to meet you, ${pseudonym}.`);
+		expect(audit).toEqual({ speaker: 4 });
+	});
+
+	it("should count redactions and leave the original entry untouched", () => {
+		const original = entry([quote("Mail bob@example.com and amy@example.com.")]);
+		const audit: RedactionAudit = {};
+		redactor().redact(original, audit);
+
+		expect(audit).toEqual({ email: 2 });
+		expect(original.contents[0].content).toBe(
+			"Mail bob@example.com and amy@example.com.",
+		);
+	});
+});
@@ -0,0 +1,222 @@
+import axios, {
+	AxiosError,
+	type AxiosAdapter,
+	type AxiosResponse,
+	type InternalAxiosRequestConfig,
+} from "axios";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LimitlessClient } from "../src/limitless/client.js";
+import {
+	LimitlessAuthError,
+	LimitlessRateLimitError,
+	LimitlessServerError,
+	parseRetryAfter,
+} from "../src/limitless/errors.js";
+import { backoffDelay, RateLimiter, withRetry } from "../src/limitless/retry.js";
+
+const options = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+const respond = (
+	config: InternalAxiosRequestConfig,
+	status: number,
+	data: unknown,
+	headers: Record<string, string> = {},
+): AxiosResponse => ({
+	data,
+	status,
+	statusText: String(status),
+	headers,
+	config,
+});
+
+// Mimics axios' settle(): non-2xx responses reject with an AxiosError
+const reply =
+	(status: number, data: unknown, headers?: Record<string, string>) =>
+	async (config: InternalAxiosRequestConfig) => {
+		const response = respond(config, status, data, headers);
+		if (status >= 400) {
+			throw new AxiosError(
+				`Request failed with status code ${status}`,
+				status >= 500 ? "ERR_BAD_RESPONSE" : "ERR_BAD_REQUEST",
+				config,
+				{},
+				response,
+			);
+		}
+		return response;
+	};
+
+describe("retry", () => {
+	describe("backoffDelay", () => {
+		it("should double the jitter ceiling per attempt up to the cap", () => {
+			const max = () => 1;
+			expect(backoffDelay(0, options, max)).toBe(100);
+			expect(backoffDelay(2, options, max)).toBe(400);
+			expect(backoffDelay(10, options, max)).toBe(1000);
+			expect(backoffDelay(2, options, () => 0.5)).toBe(200);
+		});
+	});
+
+	describe("parseRetryAfter", () => {
+		it("should accept seconds and HTTP dates", () => {
+			const now = Date.parse("2024-01-15T09:00:00Z");
+			expect(parseRetryAfter("2", now)).toBe(2000);
+			expect(parseRetryAfter("Mon, 15 Jan 2024 09:00:05 GMT", now)).toBe(5000);
+			expect(parseRetryAfter("soon", now)).toBeUndefined();
+		});
+	});
+
+	describe("withRetry", () => {
+		const retryable = new LimitlessServerError("boom", {
+			status: 503,
+			retryable: true,
+		});
+
+		it("should retry retryable errors until the operation succeeds", async () => {
+			const sleep = vi.fn().mockResolvedValue(undefined);
+			const operation = vi
+				.fn()
+				.mockRejectedValueOnce(retryable)
+				.mockRejectedValueOnce(retryable)
+				.mockResolvedValue("ok");
+
+			await expect(
+				withRetry(operation, options, { sleep, random: () => 1 }),
+			).resolves.toBe("ok");
+			expect(sleep.mock.calls).toEqual([[100], [200]]);
+		});
+
+		it("should give up after maxRetries", async () => {
+			const operation = vi.fn().mockRejectedValue(retryable);
+
+			await expect(
+				withRetry(operation, options, { sleep: async () => {} }),
+			).rejects.toBe(retryable);
+			expect(operation).toHaveBeenCalledTimes(4);
+		});
+
+		it("should not retry permanent errors", async () => {
+			const operation = vi
+				.fn()
+				.mockRejectedValue(new LimitlessAuthError("denied", { status: 401 }));
+
+			await expect(withRetry(operation, options)).rejects.toBeInstanceOf(
+				LimitlessAuthError,
+			);
+			expect(operation).toHaveBeenCalledTimes(1);
+		});
+
+		it("should wait for Retry-After, or fail when it exceeds maxDelayMs", async () => {
+			const sleep = vi.fn().mockResolvedValue(undefined);
+			const limited = (retryAfterMs: number) =>
+				new LimitlessRateLimitError("slow down", {
+					status: 429,
+					retryable: true,
+					retryAfterMs,
+				});
+
+			await withRetry(
+				vi.fn().mockRejectedValueOnce(limited(750)).mockResolvedValue("ok"),
+				options,
+				{ sleep },
+			);
+			expect(sleep).toHaveBeenCalledWith(750);
+
+			await expect(
+				withRetry(vi.fn().mockRejectedValue(limited(5000)), options, {
+					sleep,
+				}),
+			).rejects.toBeInstanceOf(LimitlessRateLimitError);
+		});
+	});
+
+	describe("RateLimiter", () => {
+		it("should delay requests beyond the limit until the window frees up", async () => {
+			let now = 0;
+			const sleep = vi.fn(async (ms: number) => {
+				now += ms;
+			});
+			const limiter = new RateLimiter(2, 1000, () => now, sleep);
+
+			await limiter.acquire();
+			await limiter.acquire();
+			await limiter.acquire();
+
+			expect(sleep).toHaveBeenCalledWith(1000);
+			expect(now).toBe(1000);
+		});
+	});
+
+	describe("LimitlessClient with a mocked adapter", () => {
+		const originalAdapter = axios.defaults.adapter;
+		let adapter: ReturnType<typeof vi.fn<AxiosAdapter>>;
+		let client: LimitlessClient;
+
+		beforeEach(() => {
+			adapter = vi.fn<AxiosAdapter>();
+			axios.defaults.adapter = adapter;
+			vi.spyOn(console, "error").mockImplementation(() => {});
+			client = new LimitlessClient({
+				apiKey: "test-api-key",
+				baseUrl: "https://api.limitless.ai",
+				retryBaseDelayMs: 1,
+				retryMaxDelayMs: 50,
+			});
+		});
+
+		afterEach(() => {
+			axios.defaults.adapter = originalAdapter;
+			vi.restoreAllMocks();
+		});
+
+		it("should retry a 429 honoring Retry-After and then succeed", async () => {
+			adapter
+				.mockImplementationOnce(
+					reply(
+						429,
+						{ error: "RateLimited", message: "Too many", status_code: 429 },
+						{ "retry-after": "0" },
+					),
+				)
+				.mockImplementationOnce(reply(502, { message: "Bad gateway" }))
+				.mockImplementation(
+					reply(200, { data: { lifelogs: [] }, meta: { lifelogs: { count: 0 } } }),
+				);
+
+			const response = await client.getLifelogs();
+
+			expect(response.data.lifelogs).toEqual([]);
+			expect(adapter).toHaveBeenCalledTimes(3);
+		});
+
+		it("should surface typed errors with the API error code", async () => {
+			adapter.mockImplementation(
+				reply(401, {
+					error: "Unauthorized",
+					message: "Invalid API key",
+					status_code: 401,
+				}),
+			);
+
+			const error = await client.getLifelogs().catch((e) => e);
+
+			expect(error).toBeInstanceOf(LimitlessAuthError);
+			expect(error).toMatchObject({
+				message: "Limitless API error (401): Invalid API key",
+				status: 401,
+				code: "Unauthorized",
+				retryable: false,
+			});
+			expect(adapter).toHaveBeenCalledTimes(1);
+		});
+
+		it("should stop after maxRetries on persistent server errors", async () => {
+			adapter.mockImplementation(reply(503, { message: "Unavailable" }));
+
+			await expect(client.getLifelog("abc")).rejects.toBeInstanceOf(
+				LimitlessServerError,
+			);
+			expect(adapter).toHaveBeenCalledTimes(4);
+		});
+	});
+});
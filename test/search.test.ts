@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+	LifelogSearchIndex,
+	parseQuery,
+	stem,
+	tokenize,
+} from "../src/limitless/search.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const entry = (
+	id: string,
+	title: string,
+	contents: LifelogEntry["contents"],
+): LifelogEntry => ({
+	id,
+	title,
+	startTime: "2024-01-15T09:00:00Z",
+	endTime: "2024-01-15T10:00:00Z",
+	contents,
+	isStarred: false,
+});
+
+describe("search", () => {
+	describe("stem", () => {
+		it("should fold common inflections onto the same term", () => {
+			expect(stem("planning")).toBe("plan");
+			expect(stem("planned")).toBe("plan");
+			expect(stem("meetings")).toBe("meet");
+			expect(stem("discusses")).toBe("discuss");
+			expect(stem("priorities")).toBe("priority");
+		});
+
+		it("should leave short words and numbers alone", () => {
+			expect(stem("bus")).toBe("bus");
+			expect(stem("2024s")).toBe("2024s");
+		});
+	});
+
+	describe("tokenize", () => {
+		it("should lowercase, stem and record offsets", () => {
+			const tokens = tokenize("Budget Meetings, today");
+
+			expect(tokens.map((t) => t.term)).toEqual(["budget", "meet", "today"]);
+			expect(tokens[1]).toMatchObject({ position: 1, start: 7, end: 15 });
+		});
+	});
+
+	describe("parseQuery", () => {
+		it("should AND bare words and drop stopwords", () => {
+			expect(parseQuery("meeting with Sarah")).toEqual({
+				type: "and",
+				children: [
+					{ type: "term", term: "meet" },
+					{ type: "term", term: "sarah" },
+				],
+			});
+		});
+
+		it("should parse phrases, OR, NOT and grouping", () => {
+			expect(parseQuery('"budget review" (alice OR bob) NOT draft')).toEqual({
+				type: "and",
+				children: [
+					{ type: "phrase", terms: ["budget", "review"] },
+					{
+						type: "or",
+						children: [
+							{ type: "term", term: "alice" },
+							{ type: "term", term: "bob" },
+						],
+					},
+					{ type: "not", child: { type: "term", term: "draft" } },
+				],
+			});
+		});
+
+		it("should reject unbalanced parentheses", () => {
+			expect(() => parseQuery("(budget")).toThrow(
+				"Invalid search query: missing closing parenthesis",
+			);
+		});
+	});
+
+	describe("LifelogSearchIndex", () => {
+		let index: LifelogSearchIndex;
+
+		beforeEach(() => {
+			index = new LifelogSearchIndex();
+			index.add(
+				entry("budget", "Quarterly budget review", [
+					{ content: "Budget", type: "heading2" },
+					{
+						content: "We need to finish the budget review before Friday.",
+						type: "blockquote",
+						speakerName: "Alice",
+						startOffsetMs: 65000,
+						endOffsetMs: 70000,
+					},
+				]),
+			);
+			index.add(
+				entry("standup", "Daily standup", [
+					{
+						content: "The review of the budget draft slipped again.",
+						type: "blockquote",
+						speakerName: "Bob",
+					},
+				]),
+			);
+			index.add(
+				entry("lunch", "Lunch", [
+					{ content: "Talked about hiking plans.", type: "text" },
+				]),
+			);
+		});
+
+		it("should rank entries by BM25 relevance", () => {
+			const hits = index.search("budget review");
+
+			expect(hits.map((h) => h.lifelogId)).toEqual(["budget", "standup"]);
+			expect(hits[0].score).toBeGreaterThan(hits[1].score);
+		});
+
+		it("should require phrase terms to be adjacent", () => {
+			const hits = index.search('"budget review"');
+
+			expect(hits.map((h) => h.lifelogId)).toEqual(["budget"]);
+		});
+
+		it("should support OR and NOT", () => {
+			expect(index.search("hiking OR standup").map((h) => h.lifelogId)).toEqual(
+				expect.arrayContaining(["lunch", "standup"]),
+			);
+			expect(index.search("budget -draft").map((h) => h.lifelogId)).toEqual([
+				"budget",
+			]);
+		});
+
+		it("should return highlighted snippets with content offsets", () => {
+			const [hit] = index.search("finish");
+
+			expect(hit.snippets).toEqual([
+				{
+					field: "blockquote",
+					contentIndex: 1,
+					text: "We need to **finish** the budget review before Friday.",
+					speakerName: "Alice",
+					startTime: undefined,
+					startOffsetMs: 65000,
+					endOffsetMs: 70000,
+				},
+			]);
+		});
+
+		it("should restrict results to the given ids", () => {
+			const hits = index.search("budget", { ids: new Set(["standup"]) });
+
+			expect(hits.map((h) => h.lifelogId)).toEqual(["standup"]);
+		});
+
+		it("should replace an entry when it is re-added", () => {
+			index.add(
+				entry("lunch", "Lunch", [{ content: "Budget talk", type: "text" }]),
+			);
+
+			expect(index.size).toBe(3);
+			expect(index.search("hiking")).toEqual([]);
+			expect(index.search("budget").map((h) => h.lifelogId)).toContain("lunch");
+		});
+
+		it("should drop a removed entry's postings", () => {
+			index.remove("lunch");
+
+			expect(index.size).toBe(2);
+			expect(index.search("hiking")).toEqual([]);
+			expect(index.get("lunch")).toBeUndefined();
+
+			// Scores match an index that never held the removed entry
+			const fresh = new LifelogSearchIndex();
+			fresh.add(index.get("budget") as LifelogEntry);
+			fresh.add(index.get("standup") as LifelogEntry);
+			expect(index.search("budget review")).toEqual(
+				fresh.search("budget review"),
+			);
+		});
+
+		it("should evict the least recently added entries beyond its capacity", () => {
+			const small = new LifelogSearchIndex(2);
+			const updated = (id: string, title: string) => ({
+				...entry(id, title, []),
+				updatedAt: "2024-01-15T10:00:00Z",
+			});
+			small.add(updated("a", "Alpha"));
+			small.add(updated("b", "Bravo"));
+			small.add(updated("a", "Alpha"));
+			small.add(updated("c", "Charlie"));
+
+			expect(small.size).toBe(2);
+			expect(small.get("b")).toBeUndefined();
+			expect(small.search("bravo")).toEqual([]);
+			expect(small.search("alpha").map((h) => h.lifelogId)).toEqual(["a"]);
+		});
+	});
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+	findUtterances,
+	matchesSpeaker,
+	summarizeSpeakers,
+} from "../src/limitless/speakers.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const entries: LifelogEntry[] = [
+	{
+		id: "standup",
+		title: "Standup",
+		startTime: "2024-01-15T09:00:00Z",
+		endTime: "2024-01-15T09:15:00Z",
+		isStarred: false,
+		contents: [
+			{ content: "Standup", type: "heading1" },
+			{
+				content: "I shipped the importer.",
+				type: "blockquote",
+				speakerName: "Alice Smith",
+				startTime: "2024-01-15T09:00:00Z",
+				startOffsetMs: 0,
+				endOffsetMs: 30000,
+			},
+			{
+				content: "Nice work.",
+				type: "blockquote",
+				speakerName: "Bob",
+				startTime: "2024-01-15T09:00:30Z",
+				startOffsetMs: 30000,
+				endOffsetMs: 35000,
+			},
+		],
+	},
+	{
+		id: "review",
+		title: "Design review",
+		startTime: "2024-01-16T14:00:00Z",
+		endTime: "2024-01-16T15:00:00Z",
+		isStarred: false,
+		contents: [
+			{
+				content: "Let's revisit the schema.",
+				type: "blockquote",
+				speakerName: "Alice Smith",
+				startTime: "2024-01-16T14:00:00Z",
+				endTime: "2024-01-16T14:01:00Z",
+			},
+			{ content: "Unattributed note", type: "blockquote" },
+		],
+	},
+];
+
+describe("speakers", () => {
+	describe("matchesSpeaker", () => {
+		it("should match exact names and name parts case-insensitively", () => {
+			expect(matchesSpeaker("Alice Smith", "alice smith")).toBe(true);
+			expect(matchesSpeaker("Alice Smith", "alice")).toBe(true);
+			expect(matchesSpeaker("Alice Smith", "ali")).toBe(false);
+			expect(matchesSpeaker("Bob", "")).toBe(false);
+		});
+	});
+
+	describe("summarizeSpeakers", () => {
+		it("should total talk time, utterances and conversations per speaker", () => {
+			expect(summarizeSpeakers(entries)).toEqual([
+				{
+					speakerName: "Alice Smith",
+					talkTimeMs: 90000,
+					utterances: 2,
+					conversations: 2,
+					firstSeen: "2024-01-15T09:00:00Z",
+					lastSeen: "2024-01-16T14:00:00Z",
+				},
+				{
+					speakerName: "Bob",
+					talkTimeMs: 5000,
+					utterances: 1,
+					conversations: 1,
+					firstSeen: "2024-01-15T09:00:30Z",
+					lastSeen: "2024-01-15T09:00:30Z",
+				},
+			]);
+		});
+	});
+
+	describe("findUtterances", () => {
+		it("should return a speaker's quotes in chronological order", () => {
+			const utterances = findUtterances([...entries].reverse(), "alice");
+
+			expect(utterances.map((u) => [u.lifelogId, u.contentIndex])).toEqual([
+				["standup", 1],
+				["review", 0],
+			]);
+			expect(utterances[0]).toMatchObject({
+				lifelogTitle: "Standup",
+				content: "I shipped the importer.",
+				startOffsetMs: 0,
+				endOffsetMs: 30000,
+			});
+		});
+	});
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { buildStarredLifelogs, keyExcerpt } from "../src/limitless/starred.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const entry = (
+	id: string,
+	startTime: string,
+	isStarred: boolean,
+	contents: LifelogEntry["contents"] = [],
+): LifelogEntry => ({
+	id,
+	title: `Conversation ${id}`,
+	startTime,
+	endTime: startTime,
+	isStarred,
+	contents,
+});
+
+describe("keyExcerpt", () => {
+	it("should pick the longest attributed quote", () => {
+		const excerpt = keyExcerpt(
+			entry("a", "2024-01-15T09:00:00Z", true, [
+				{ content: "Launch plan", type: "heading2" },
+				{ content: "Sounds good.", type: "blockquote", speakerName: "Bob" },
+				{
+					content: "We ship the beta on Friday and open signups next month.",
+					type: "blockquote",
+					speakerName: "Alice",
+				},
+			]),
+		);
+
+		expect(excerpt).toEqual({
+			speakerName: "Alice",
+			text: "We ship the beta on Friday and open signups next month.",
+		});
+	});
+
+	it("should fall back to text, then to a subheading", () => {
+		expect(
+			keyExcerpt(
+				entry("a", "2024-01-15T09:00:00Z", true, [
+					{ content: "Title", type: "heading1" },
+					{ content: "Notes", type: "heading2" },
+					{ content: "Bought milk", type: "text" },
+				]),
+			),
+		).toEqual({ speakerName: null, text: "Bought milk" });
+		expect(
+			keyExcerpt(
+				entry("a", "2024-01-15T09:00:00Z", true, [
+					{ content: "Title", type: "heading1" },
+					{ content: "Notes", type: "heading2" },
+				]),
+			),
+		).toEqual({ speakerName: null, text: "Notes" });
+		expect(keyExcerpt(entry("a", "2024-01-15T09:00:00Z", true))).toBeNull();
+	});
+
+	it("should cut long excerpts at a word boundary", () => {
+		const long = Array.from({ length: 100 }, (_, i) => `word${i}`).join(" ");
+		const excerpt = keyExcerpt(
+			entry("a", "2024-01-15T09:00:00Z", true, [
+				{ content: long, type: "blockquote", speakerName: "Alice" },
+			]),
+		);
+
+		expect(excerpt?.text.length).toBeLessThanOrEqual(280);
+		expect(excerpt?.text).toMatch(/word\d+…$/);
+	});
+});
+
+describe("buildStarredLifelogs", () => {
+	it("should keep starred entries newest first and count them by local month", () => {
+		const starred = buildStarredLifelogs(
+			[
+				entry("jan", "2024-01-15T09:00:00Z", true, [
+					{ content: "Budget", type: "heading2" },
+				]),
+				entry("skip", "2024-02-10T09:00:00Z", false),
+				// Still January 31st in Los Angeles
+				entry("late", "2024-02-01T05:00:00Z", true),
+				entry("feb", "2024-02-20T09:00:00Z", true),
+			],
+			{ timeZone: "America/Los_Angeles", groupBy: "month", from: "2024-01-01" },
+		);
+
+		expect(starred.moments.map((m) => m.lifelogId)).toEqual([
+			"feb",
+			"late",
+			"jan",
+		]);
+		expect(starred.moments[2].topics).toEqual(["Budget"]);
+		expect(starred.months).toEqual([
+			{ month: "2024-02", count: 1 },
+			{ month: "2024-01", count: 2 },
+		]);
+		expect(starred.total).toBe(3);
+		expect(starred.from).toBe("2024-01-01");
+		expect(starred.to).toBeNull();
+		expect(starred.truncated).toBe(false);
+	});
+});
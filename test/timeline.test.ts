@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { buildTimeline, renderTimeline } from "../src/limitless/timeline.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const entry = (
+	id: string,
+	startTime: string,
+	endTime: string,
+	title = id,
+): LifelogEntry => ({
+	id,
+	title,
+	startTime,
+	endTime,
+	isStarred: false,
+	contents: [],
+});
+
+const entries: LifelogEntry[] = [
+	entry("review", "2024-01-15T10:00:00Z", "2024-01-15T11:00:00Z", "Design review"),
+	entry("standup", "2024-01-15T09:00:00Z", "2024-01-15T09:15:00Z", "Standup"),
+	entry("call", "2024-01-15T10:30:00Z", "2024-01-15T11:30:00Z", "Call: vendor"),
+	entry("coffee", "2024-01-15T11:35:00Z", "2024-01-15T11:45:00Z", "Coffee"),
+];
+
+describe("timeline", () => {
+	describe("buildTimeline", () => {
+		it("should order segments chronologically", () => {
+			const timeline = buildTimeline(entries, "UTC");
+
+			expect(timeline.segments.map((segment) => segment.lifelogId)).toEqual([
+				"standup",
+				"review",
+				"call",
+				"coffee",
+			]);
+		});
+
+		it("should report gaps of at least the minimum length", () => {
+			const timeline = buildTimeline(entries, "UTC");
+
+			expect(timeline.gaps).toEqual([
+				{
+					startTime: "2024-01-15T09:15:00.000Z",
+					endTime: "2024-01-15T10:00:00.000Z",
+					durationMinutes: 45,
+					lifelogIds: ["standup", "review"],
+				},
+			]);
+			expect(timeline.idleMinutes).toBe(50);
+			expect(buildTimeline(entries, "UTC", 5).gaps).toHaveLength(2);
+		});
+
+		it("should report overlapping recordings and count them once", () => {
+			const timeline = buildTimeline(entries, "UTC");
+
+			expect(timeline.overlaps).toEqual([
+				{
+					startTime: "2024-01-15T10:30:00.000Z",
+					endTime: "2024-01-15T11:00:00.000Z",
+					durationMinutes: 30,
+					lifelogIds: ["review", "call"],
+				},
+			]);
+			expect(timeline.segments[1].overlapsWith).toEqual(["call"]);
+			expect(timeline.recordedMinutes).toBe(115);
+		});
+
+		it("should bucket activity by local hour", () => {
+			const timeline = buildTimeline(entries, "Asia/Kolkata");
+
+			expect(timeline.hours).toEqual([
+				{ hour: "2024-01-15T14:00", recordedMinutes: 15, lifelogCount: 1 },
+				{ hour: "2024-01-15T15:00", recordedMinutes: 30, lifelogCount: 1 },
+				{ hour: "2024-01-15T16:00", recordedMinutes: 60, lifelogCount: 2 },
+				{ hour: "2024-01-15T17:00", recordedMinutes: 10, lifelogCount: 1 },
+			]);
+		});
+	});
+
+	describe("renderTimeline", () => {
+		const timeline = buildTimeline(entries, "UTC");
+
+		it("should render a markdown table with idle rows", () => {
+			const output = renderTimeline(timeline, "markdown");
+
+			expect(output).toContain("| Start | End | Duration | Activity | Lifelog | Overlaps |");
+			expect(output).toContain("| 45m | _Idle_ |");
+			expect(output).toContain("| review | call |");
+			expect(output).toContain("## Activity by Hour");
+		});
+
+		it("should render JSON that round-trips", () => {
+			expect(JSON.parse(renderTimeline(timeline, "json"))).toEqual(timeline);
+		});
+
+		it("should render an ASCII chart with one row per segment", () => {
+			const rows = renderTimeline(timeline, "ascii")
+				.split("\n")
+				.filter((line) => line.includes("|"));
+
+			expect(rows).toHaveLength(4);
+			expect(rows[0].startsWith("Standup")).toBe(true);
+			expect(rows[0]).toMatch(/\|#+\.+\|/);
+		});
+
+		it("should render a Mermaid gantt with safe task names", () => {
+			const output = renderTimeline(timeline, "mermaid");
+
+			expect(output).toContain("```mermaid\ngantt");
+			expect(output).toContain("  section 2024-01-15");
+			expect(output).toContain("  Call  vendor :s2, 2024-01-15 10:30, 60m");
+		});
+	});
+});
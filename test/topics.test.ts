@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { rankTopics, topicTrends } from "../src/limitless/topics.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const lifelog = (
+	id: string,
+	startTime: string,
+	title: string,
+	lines: string[],
+): LifelogEntry => ({
+	id,
+	title,
+	startTime,
+	endTime: startTime,
+	isStarred: false,
+	contents: lines.map((content) => ({ type: "blockquote" as const, content })),
+});
+
+const entries: LifelogEntry[] = [
+	lifelog("a", "2024-01-15T09:00:00Z", "Budget review", [
+		"We need to finish the budget review before Friday.",
+		"Yeah, I think the budget review is going well.",
+	]),
+	lifelog("b", "2024-01-16T09:00:00Z", "Hiring plan", [
+		"The hiring plan needs two more engineers.",
+		"Engineers are hard to find, so the hiring plan matters.",
+	]),
+	lifelog("c", "2024-01-23T09:00:00Z", "Hiring sync", [
+		"We talked about hiring and the hiring plan again.",
+		"Interviews for engineers start Monday.",
+	]),
+];
+
+describe("topics", () => {
+	describe("rankTopics", () => {
+		it("should rank phrases and words by TF-IDF", () => {
+			const topics = rankTopics(entries, 3);
+
+			expect(topics.map((topic) => topic.topic)).toEqual([
+				"budget review",
+				"hiring plan",
+				"engineers",
+			]);
+			expect(topics[1].count).toBe(4);
+			expect(topics[0].score).toBeGreaterThan(topics[2].score);
+		});
+
+		it("should skip stopwords, filler and numbers", () => {
+			const topics = rankTopics(
+				[lifelog("x", "2024-01-15T09:00:00Z", "Chat", ["Yeah um I think 2024 is really like okay"])],
+				10,
+			);
+
+			expect(topics).toEqual([{ topic: "chat", count: 1, score: 2 }]);
+		});
+
+		it("should fold inflections onto one topic", () => {
+			const topics = rankTopics(
+				[
+					lifelog("x", "2024-01-15T09:00:00Z", "Meetings", [
+						"The meeting ran long.",
+						"Too many meetings.",
+					]),
+				],
+				1,
+			);
+
+			expect(topics[0]).toMatchObject({ topic: "meetings", count: 3 });
+		});
+	});
+
+	describe("topicTrends", () => {
+		it("should report top topics per ISO week", () => {
+			const trends = topicTrends(entries, {
+				from: "2024-01-15",
+				to: "2024-01-28",
+				timeZone: "UTC",
+				granularity: "week",
+				limit: 2,
+			});
+
+			expect(trends.periods.map((period) => period.period)).toEqual([
+				"2024-W03",
+				"2024-W04",
+			]);
+			expect(trends.periods[0].lifelogCount).toBe(2);
+			expect(trends.periods[1].topics[0]).toMatchObject({
+				topic: "hiring",
+				count: 3,
+			});
+			expect(trends.prior).toBeNull();
+		});
+
+		it("should report top topics per day in the given timezone", () => {
+			const trends = topicTrends(entries, {
+				from: "2024-01-14",
+				to: "2024-01-23",
+				timeZone: "Pacific/Honolulu",
+				granularity: "day",
+			});
+
+			expect(trends.periods.map((period) => period.period)).toEqual([
+				"2024-01-14",
+				"2024-01-15",
+				"2024-01-22",
+			]);
+		});
+
+		it("should flag rising and declining topics against the prior period", () => {
+			const prior = [
+				lifelog("p1", "2024-01-08T09:00:00Z", "Offsite", [
+					"Offsite venue options.",
+					"The offsite agenda and offsite budget.",
+				]),
+			];
+			const trends = topicTrends(entries, {
+				from: "2024-01-15",
+				to: "2024-01-28",
+				timeZone: "UTC",
+				granularity: "week",
+				prior: { from: "2024-01-01", to: "2024-01-14", entries: prior },
+			});
+
+			expect(trends.prior).toEqual({
+				from: "2024-01-01",
+				to: "2024-01-14",
+				lifelogCount: 1,
+			});
+			expect(trends.rising[0]).toEqual({
+				topic: "hiring plan",
+				count: 4,
+				priorCount: 0,
+				change: 5,
+			});
+			expect(trends.declining).toEqual([
+				{ topic: "offsite", count: 0, priorCount: 4, change: 0.2 },
+			]);
+		});
+	});
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { chunkTranscript, transcriptUnits } from "../src/limitless/transcript.js";
+import type { LifelogEntry } from "../src/limitless/types.js";
+
+const entry: LifelogEntry = {
+	id: "meeting",
+	title: "Planning meeting",
+	startTime: "2024-01-15T09:00:00Z",
+	endTime: "2024-01-15T10:00:00Z",
+	isStarred: false,
+	markdown: "# Planning meeting\n\n## Budget\n\n> Alice: We are over budget.\n",
+	contents: [
+		{ content: "Budget", type: "heading2" },
+		{ content: "We are over budget.", type: "blockquote", speakerName: "Alice" },
+		{ content: "Then we cut travel.", type: "blockquote", speakerName: "Bob" },
+		{ content: "Agreed.", type: "blockquote", speakerName: "Alice" },
+	],
+};
+
+const render = (item: LifelogEntry["contents"][number]) =>
+	item.speakerName ? `${item.speakerName}: ${item.content}` : item.content;
+
+describe("transcriptUnits", () => {
+	it("should render content items, markdown blocks or both", () => {
+		expect(transcriptUnits(entry, "contents", render).map((u) => u.text)).toEqual([
+			"Budget",
+			"Alice: We are over budget.",
+			"Bob: Then we cut travel.",
+			"Alice: Agreed.",
+		]);
+		expect(transcriptUnits(entry, "markdown", render).map((u) => u.text)).toEqual([
+			"# Planning meeting",
+			"## Budget",
+			"> Alice: We are over budget.",
+		]);
+		const both = transcriptUnits(entry, "both", render);
+		expect(both).toHaveLength(7);
+		expect(both[3].item).toBe(entry.contents[3]);
+		expect(both[4].item).toBeUndefined();
+	});
+
+	it("should fall back to markdown when there are no content items", () => {
+		const units = transcriptUnits({ ...entry, contents: [] }, "contents", render);
+
+		expect(units.map((u) => u.text)).toEqual([
+			"# Planning meeting",
+			"## Budget",
+			"> Alice: We are over budget.",
+		]);
+	});
+});
+
+describe("chunkTranscript", () => {
+	const units = transcriptUnits(entry, "contents", render);
+
+	it("should return everything in one chunk without a budget", () => {
+		const chunk = chunkTranscript(units, { format: "contents" });
+
+		expect(chunk.units).toHaveLength(4);
+		expect(chunk.info).toEqual({
+			format: "contents",
+			index: 0,
+			count: 1,
+			offset: 0,
+			start: 0,
+			end: 4,
+			totalItems: 4,
+			nextIndex: null,
+		});
+	});
+
+	it("should split between items to fit the budget", () => {
+		const first = chunkTranscript(units, { format: "contents", maxChars: 40 });
+		const second = chunkTranscript(units, {
+			format: "contents",
+			maxChars: 40,
+			page: 1,
+		});
+
+		expect(first.units.map((u) => u.text)).toEqual([
+			"Budget",
+			"Alice: We are over budget.",
+		]);
+		expect(first.info).toMatchObject({ count: 2, start: 0, end: 2, nextIndex: 1 });
+		expect(second.units.map((u) => u.text)).toEqual([
+			"Bob: Then we cut travel.",
+			"Alice: Agreed.",
+		]);
+		expect(second.info).toMatchObject({ start: 2, end: 4, nextIndex: null });
+	});
+
+	it("should keep an item longer than the budget whole", () => {
+		const chunk = chunkTranscript(units, { format: "contents", maxChars: 5 });
+
+		expect(chunk.units.map((u) => u.text)).toEqual(["Budget"]);
+		expect(chunk.info.count).toBe(4);
+	});
+
+	it("should count chunks from the offset", () => {
+		const chunk = chunkTranscript(units, {
+			format: "contents",
+			maxChars: 40,
+			offset: 1,
+		});
+
+		expect(chunk.units.map((u) => u.text)).toEqual([
+			"Alice: We are over budget.",
+		]);
+		expect(chunk.info).toMatchObject({ offset: 1, start: 1, end: 2, count: 2 });
+	});
+
+	it("should reject pages and offsets out of range", () => {
+		expect(() => chunkTranscript(units, { format: "contents", page: 1 })).toThrow(
+			"Page 1 is out of range",
+		);
+		expect(() => chunkTranscript(units, { format: "contents", offset: 4 })).toThrow(
+			"Offset 4 is out of range",
+		);
+	});
+});
@@ -7,6 +7,7 @@ import {
 	GetLifelogParamsSchema,
 	SearchLifelogsParamsSchema,
 	LimitlessErrorSchema,
+	LifelogListOutputSchema,
 } from "../src/limitless/types.js";
 
 describe("Limitless Types", () => {
@@ -287,4 +288,29 @@ describe("Limitless Types", () => {
 			expect(() => LimitlessErrorSchema.parse(invalidError)).toThrow();
 		});
 	});
-});
\ No newline at end of file
+
+	describe("LifelogListOutputSchema", () => {
+		it("should validate structured list output", () => {
+			const output = {
+				lifelogs: [
+					{
+						id: "entry_1",
+						title: "Standup",
+						startTime: "2024-01-15T09:00:00Z",
+						endTime: "2024-01-15T09:15:00Z",
+						isStarred: true,
+						topics: ["Roadmap"],
+					},
+				],
+				total: 3,
+				nextCursor: null,
+			};
+
+			expect(LifelogListOutputSchema.parse(output)).toEqual(output);
+		});
+
+		it("should require total and nextCursor", () => {
+			expect(() => LifelogListOutputSchema.parse({ lifelogs: [] })).toThrow();
+		});
+	});
+});
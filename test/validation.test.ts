@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import { LimitlessValidationError } from "../src/limitless/errors.js";
+import {
+	validateChatResponse,
+	validateLifelogResponse,
+	validateListChatsResponse,
+	validateListLifelogsResponse,
+} from "../src/limitless/validation.js";
+
+const entry = (overrides: Record<string, unknown> = {}) => ({
+	id: "entry_1",
+	title: "Standup",
+	startTime: "2024-01-15T09:00:00Z",
+	endTime: "2024-01-15T09:15:00Z",
+	contents: [{ type: "blockquote", content: "Morning", speakerName: "Alice" }],
+	...overrides,
+});
+
+const list = (...lifelogs: unknown[]) => ({
+	data: { lifelogs },
+	meta: { lifelogs: { count: lifelogs.length, nextCursor: "next" } },
+});
+
+describe("validation", () => {
+	describe("lenient mode", () => {
+		it("should pass valid responses through without warnings", () => {
+			const { value, warnings } = validateListLifelogsResponse(
+				list(entry()),
+				"lenient",
+			);
+
+			expect(warnings).toEqual([]);
+			expect(value.data.lifelogs[0].isStarred).toBe(false);
+			expect(value.meta?.lifelogs.nextCursor).toBe("next");
+		});
+
+		it("should coerce unknown content types to text and report the path", () => {
+			const { value, warnings } = validateListLifelogsResponse(
+				list(entry({ contents: [{ type: "table", content: "| a |" }] })),
+				"lenient",
+			);
+
+			expect(value.data.lifelogs[0].contents[0]).toEqual({
+				type: "text",
+				content: "| a |",
+			});
+			expect(warnings).toEqual([
+				'data.lifelogs[0].contents[0].type: unknown content type "table"; treated as text',
+			]);
+		});
+
+		it("should fill dropped fields and skip entries that cannot be repaired", () => {
+			const { value, warnings } = validateListLifelogsResponse(
+				list(
+					entry({ title: undefined, endTime: undefined }),
+					entry({ id: 42 }),
+				),
+				"lenient",
+			);
+
+			expect(value.data.lifelogs).toHaveLength(1);
+			expect(value.data.lifelogs[0]).toMatchObject({
+				title: "Untitled",
+				endTime: "2024-01-15T09:00:00Z",
+			});
+			expect(warnings).toEqual([
+				'data.lifelogs[0].title: missing; using "Untitled"',
+				"data.lifelogs[0].endTime: missing; using startTime",
+				"data.lifelogs[1].id: Expected string, received number; entry skipped",
+			]);
+		});
+
+		it("should still reject a malformed envelope or lifelog", () => {
+			expect(() =>
+				validateListLifelogsResponse({ data: {} }, "lenient"),
+			).toThrow(LimitlessValidationError);
+			expect(() =>
+				validateLifelogResponse({ data: { lifelog: entry({ id: 1 }) } }, "lenient"),
+			).toThrow("data.lifelog.id: Expected string, received number");
+		});
+	});
+
+	describe("strict mode", () => {
+		it("should throw on any mismatch with the offending path", () => {
+			expect(() =>
+				validateListLifelogsResponse(
+					list(entry({ contents: [{ type: "table", content: "x" }] })),
+					"strict",
+				),
+			).toThrow(/data\.lifelogs\[0\]\.contents\[0\]\.type: Invalid enum value/);
+		});
+
+		it("should accept valid responses", () => {
+			const { value } = validateLifelogResponse(
+				{ data: { lifelog: entry() } },
+				"strict",
+			);
+
+			expect(value.data.lifelog.title).toBe("Standup");
+		});
+	});
+
+	describe("chats", () => {
+		const chat = (overrides: Record<string, unknown> = {}) => ({
+			id: "chat_1",
+			summary: "Daily insights",
+			createdAt: "2024-01-15T20:00:00Z",
+			messages: [
+				{
+					id: "m1",
+					text: "What did I do today?",
+					createdAt: "2024-01-15T20:00:00Z",
+					user: { role: "user", name: "Alice" },
+				},
+				{
+					id: "m2",
+					text: "You had three meetings.",
+					createdAt: "2024-01-15T20:00:05Z",
+					user: { role: "assistant" },
+				},
+			],
+			...overrides,
+		});
+
+		it("should skip malformed messages and chats in lenient mode", () => {
+			const { value, warnings } = validateListChatsResponse(
+				{
+					data: {
+						chats: [
+							chat({
+								messages: [
+									...chat().messages,
+									{ id: "m3", text: "?", createdAt: "x", user: { role: "robot" } },
+								],
+							}),
+							chat({ id: 2 }),
+						],
+					},
+					meta: { chats: { count: 2, nextCursor: null } },
+				},
+				"lenient",
+			);
+
+			expect(value.data.chats).toHaveLength(1);
+			expect(value.data.chats[0].messages.map((m) => m.id)).toEqual(["m1", "m2"]);
+			expect(warnings).toEqual([
+				expect.stringMatching(/^data\.chats\[0\]\.messages\[2\]\.user\.role: .*; message skipped$/),
+				"data.chats[1].id: Expected string, received number; chat skipped",
+			]);
+		});
+
+		it("should reject a chat that cannot be repaired", () => {
+			expect(() =>
+				validateChatResponse({ data: { chat: chat({ createdAt: undefined }) } }, "lenient"),
+			).toThrow("data.chat.createdAt: Required");
+			expect(() =>
+				validateChatResponse({ data: { chat: chat({ messages: undefined }) } }, "strict"),
+			).toThrow(LimitlessValidationError);
+		});
+	});
+});